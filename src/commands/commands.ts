@@ -3,33 +3,88 @@
  * See LICENSE in the project root for license information.
  */
 
-/* global Office */
+/* global Excel, Office, URLSearchParams, console, window */
+
+import {
+  categorizeUncategorizedTransactions,
+  CategorizationResult,
+} from "../taskpane/services/aiCategorization";
+import {
+  loadAndApplySettings,
+  providerConfigFromSettings,
+} from "../taskpane/services/settingsStorage";
+import { getProvider } from "../taskpane/services/providers";
+
+// Query strings have a length limit, so long error details are cut short in the dialog
+const MAX_DIALOG_DETAILS_LENGTH = 1500;
 
 Office.onReady(() => {
   // If needed, Office.js is ready to be called.
 });
 
+// Excel has no notification bar for add-ins, so results are shown in a small dialog
+function showResultDialog(result: CategorizationResult): Promise<void> {
+  const params = new URLSearchParams({
+    status: result.success ? (result.errorDetails ? "warning" : "success") : "error",
+    message: result.message,
+    details: (result.errorDetails || "").slice(0, MAX_DIALOG_DETAILS_LENGTH),
+  });
+  const url = `${window.location.origin}/resultDialog.html?${params.toString()}`;
+
+  return new Promise((resolve) => {
+    Office.context.ui.displayDialogAsync(
+      url,
+      { height: 30, width: 35, displayInIframe: true },
+      (asyncResult) => {
+        if (asyncResult.status === Office.AsyncResultStatus.Failed) {
+          console.error("Could not show result dialog:", asyncResult.error.message);
+          resolve();
+          return;
+        }
+        const dialog = asyncResult.value;
+        // The dialog's OK button asks to be closed
+        dialog.addEventHandler(Office.EventType.DialogMessageReceived, () => dialog.close());
+        resolve();
+      }
+    );
+  });
+}
+
 /**
- * Shows a notification when the add-in command is executed.
+ * Categorizes one batch of uncategorized transactions with the settings saved in the workbook,
+ * writing the results straight away, then shows what happened.
  * @param event
  */
-function action(event: Office.AddinCommands.Event) {
-  const message: Office.NotificationMessageDetails = {
-    type: Office.MailboxEnums.ItemNotificationMessageType.InformationalMessage,
-    message: "Performed action.",
-    icon: "Icon.80x80",
-    persistent: true,
-  };
-
-  // Show a notification message.
-  Office.context.mailbox.item?.notificationMessages.replaceAsync(
-    "ActionPerformanceNotification",
-    message
-  );
-
-  // Be sure to indicate when the add-in command function is complete.
-  event.completed();
+async function categorizeNow(event: Office.AddinCommands.Event) {
+  try {
+    const settings = await loadAndApplySettings();
+
+    const provider = getProvider(settings.provider);
+    if (
+      provider.requiresApiKey &&
+      !providerConfigFromSettings(settings, settings.provider).apiKey
+    ) {
+      await showResultDialog({
+        success: false,
+        message: `No ${provider.name} API key is available. Open the task pane, enter it in settings and check "Remember API keys on this computer".`,
+      });
+      return;
+    }
+
+    const result = await Excel.run((context) => categorizeUncategorizedTransactions(context));
+    await showResultDialog(result);
+  } catch (error) {
+    console.error("Error in categorizeNow:", error);
+    await showResultDialog({
+      success: false,
+      message: error instanceof Error ? error.message : "An unknown error occurred",
+      errorDetails: error instanceof Error && error.stack ? error.stack : undefined,
+    });
+  } finally {
+    // Be sure to indicate when the add-in command function is complete.
+    event.completed();
+  }
 }
 
 // Register the function with Office.
-Office.actions.associate("action", action);
+Office.actions.associate("categorizeNow", categorizeNow);
@@ -0,0 +1,33 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+ * See LICENSE in the project root for license information.
+ */
+
+/* global document, Office, URLSearchParams, window */
+
+const TITLES: { [status: string]: string } = {
+  success: "Categorization complete",
+  warning: "Categorization finished with problems",
+  error: "Categorization failed",
+};
+
+// Shows the result passed in the query string by the Categorize Now command
+Office.onReady(() => {
+  const params = new URLSearchParams(window.location.search);
+  const status = params.get("status") || "error";
+
+  const title = document.getElementById("title")!;
+  title.textContent = TITLES[status] || TITLES.error;
+  title.className = status;
+  document.getElementById("message")!.textContent = params.get("message") || "";
+
+  const details = params.get("details");
+  if (details) {
+    const detailsElement = document.getElementById("details")!;
+    detailsElement.textContent = details;
+    detailsElement.hidden = false;
+  }
+
+  // The command that opened the dialog closes it
+  document.getElementById("ok")!.onclick = () => Office.context.ui.messageParent("close");
+});
@@ -0,0 +1,111 @@
+/*
+ * Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+ * See LICENSE in the project root for license information.
+ */
+
+/* global CustomFunctions, Excel, console, setTimeout */
+
+import { StandaloneTransaction, suggestCategories } from "../taskpane/services/aiCategorization";
+import { loadAndApplySettings } from "../taskpane/services/settingsStorage";
+
+// Calls arriving within this long of the first one are sent to the AI together, so that filling a
+// formula down a column makes a few batched requests instead of one per cell
+const BATCH_DELAY_MS = 250;
+
+interface PendingCall {
+  transaction: StandaloneTransaction;
+  resolve: (category: string) => void;
+  reject: (error: CustomFunctions.Error) => void;
+}
+
+// Suggestions already made this session, so recalculating doesn't ask the AI again
+const suggestionCache = new Map<string, Promise<string>>();
+let pendingCalls: PendingCall[] = [];
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Calls that differ only in case or surrounding spaces get the same answer
+function cacheKey(transaction: StandaloneTransaction): string {
+  return JSON.stringify([
+    transaction.description.trim().toLowerCase(),
+    transaction.amount ?? null,
+    (transaction.institution || "").trim().toLowerCase(),
+  ]);
+}
+
+function notAvailable(message: string): CustomFunctions.Error {
+  return new CustomFunctions.Error(CustomFunctions.ErrorCode.notAvailable, message);
+}
+
+// Send everything that has queued up since the last batch in one run
+async function sendPendingCalls(): Promise<void> {
+  const calls = pendingCalls;
+  pendingCalls = [];
+  batchTimer = null;
+
+  try {
+    await loadAndApplySettings();
+    const suggestions = await Excel.run((context) =>
+      suggestCategories(
+        context,
+        calls.map((call) => call.transaction)
+      )
+    );
+    calls.forEach((call, index) => {
+      const { category, failure } = suggestions[index];
+      if (category) {
+        call.resolve(category);
+      } else {
+        call.reject(notAvailable(failure || "No category suggested"));
+      }
+    });
+  } catch (error) {
+    console.error("Error in AICATEGORY:", error);
+    const message = error instanceof Error ? error.message : "An unknown error occurred";
+    calls.forEach((call) => call.reject(notAvailable(message)));
+  }
+}
+
+/**
+ * Suggests a category from the Categories table for a transaction.
+ * @customfunction AICATEGORY
+ * @param description The transaction description, e.g. the Full Description from the bank.
+ * @param amount The transaction amount.
+ * @param [institution] The bank or card the transaction is from.
+ * @returns The suggested category.
+ */
+export function aiCategory(
+  description: string,
+  amount: number,
+  institution?: string
+): Promise<string> {
+  if (!String(description ?? "").trim()) {
+    return Promise.reject(
+      new CustomFunctions.Error(CustomFunctions.ErrorCode.invalidValue, "A description is required")
+    );
+  }
+
+  const transaction: StandaloneTransaction = {
+    description: String(description),
+    amount: typeof amount === "number" ? amount : undefined,
+    institution: institution ? String(institution) : undefined,
+  };
+  const key = cacheKey(transaction);
+
+  const cached = suggestionCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const suggestion = new Promise<string>((resolve, reject) => {
+    pendingCalls.push({ transaction, resolve, reject });
+  });
+  // Failures aren't kept, so the next recalculation tries again
+  suggestion.catch(() => suggestionCache.delete(key));
+  suggestionCache.set(key, suggestion);
+
+  if (batchTimer === null) {
+    batchTimer = setTimeout(sendPendingCalls, BATCH_DELAY_MS);
+  }
+
+  return suggestion;
+}
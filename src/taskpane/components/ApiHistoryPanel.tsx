@@ -0,0 +1,266 @@
+/* global document, URL, Blob */
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import {
+  makeStyles,
+  Button,
+  Text,
+  Input,
+  Divider,
+  Badge,
+  Tooltip
+} from "@fluentui/react-components";
+import { ArrowDownloadRegular, CopyRegular, DeleteRegular, SearchRegular } from "@fluentui/react-icons";
+import {
+  ApiInteraction,
+  clearInteractionHistory,
+  exportInteractionHistory,
+  loadInteractionHistory,
+  searchInteractions
+} from "../services/interactionHistory";
+
+interface ApiHistoryPanelProps {
+  copyTooltip: string;
+  onCopy: (text: string) => void;
+  onClose: () => void;
+}
+
+const useStyles = makeStyles({
+  toolbar: {
+    display: "flex",
+    gap: "8px",
+    alignItems: "center",
+    marginBottom: "10px",
+  },
+  list: {
+    maxHeight: "250px",
+    overflowY: "auto",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    marginBottom: "10px",
+  },
+  entry: {
+    display: "block",
+    width: "100%",
+    textAlign: "left",
+    padding: "6px 8px",
+    border: "none",
+    borderBottom: "1px solid #eee",
+    background: "transparent",
+    cursor: "pointer",
+  },
+  selectedEntry: {
+    background: "#e8f0fe",
+  },
+  entryHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  detail: {
+    display: "block",
+    marginBottom: "4px",
+  },
+  code: {
+    maxHeight: "200px",
+    overflow: "auto",
+    border: "1px solid #ccc",
+    padding: "10px",
+    background: "#f5f5f5",
+    borderRadius: "4px",
+    marginBottom: "20px",
+  }
+});
+
+// Remove markdown code block delimiters from a response
+function formatApiResponse(response: string): string {
+  if (!response) return "";
+  return response.replace(/```json\s*|\s*```/g, "");
+}
+
+function responseText(interaction: ApiInteraction): string {
+  if (interaction.error) {
+    return JSON.stringify(interaction.error, null, 2);
+  }
+  return typeof interaction.response === 'string' ? formatApiResponse(interaction.response) : "";
+}
+
+// e.g. "50 transactions, 1,234 + 567 tokens, 3.2s"
+function summarize(interaction: ApiInteraction): string {
+  const parts = [`${interaction.transactionIds.length} transactions`];
+  if (interaction.usage) {
+    parts.push(`${interaction.usage.inputTokens.toLocaleString()} + ${interaction.usage.outputTokens.toLocaleString()} tokens`);
+  }
+  parts.push(`${(interaction.latencyMs / 1000).toFixed(1)}s`);
+  return parts.join(", ");
+}
+
+// Save text as a file through the browser's download
+function downloadFile(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const ApiHistoryPanel: React.FC<ApiHistoryPanelProps> = (props: ApiHistoryPanelProps) => {
+  const styles = useStyles();
+  const [entries, setEntries] = useState<ApiInteraction[]>([]);
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInteractionHistory().then(history => {
+      setEntries([...history]);
+      setSelectedId(history.length > 0 ? history[0].id : null);
+    });
+  }, []);
+
+  const shown = searchInteractions(entries, query);
+  const selected = shown.find(entry => entry.id === selectedId) || null;
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`api-history-${date}.json`, exportInteractionHistory(shown));
+  };
+
+  const handleClear = async () => {
+    await clearInteractionHistory();
+    setEntries([]);
+    setSelectedId(null);
+  };
+
+  return (
+    <div>
+      <Divider style={{ margin: '20px 0' }}>
+        <Text>API History</Text>
+        <Button
+          appearance="subtle"
+          size="small"
+          style={{ marginLeft: '10px' }}
+          onClick={props.onClose}
+        >
+          Close
+        </Button>
+      </Divider>
+
+      <div className={styles.toolbar}>
+        <Input
+          style={{ flexGrow: 1 }}
+          contentBefore={<SearchRegular />}
+          placeholder="Search (transaction ID, model, error...)"
+          value={query}
+          onChange={(_e, data) => setQuery(data.value)}
+        />
+        <Button
+          size="small"
+          icon={<ArrowDownloadRegular />}
+          onClick={handleExport}
+          disabled={shown.length === 0}
+          title="Save the interactions shown to a JSON file"
+        >
+          Export
+        </Button>
+        <Button
+          size="small"
+          icon={<DeleteRegular />}
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          title="Forget every stored interaction"
+        >
+          Clear
+        </Button>
+      </div>
+
+      {shown.length === 0 ? (
+        <Text size={200} className={styles.detail}>
+          {entries.length === 0 ? "No API calls have been made yet." : "No interactions match the search."}
+        </Text>
+      ) : (
+        <div className={styles.list}>
+          {shown.map(entry => (
+            <button
+              key={entry.id}
+              className={entry.id === selectedId ? `${styles.entry} ${styles.selectedEntry}` : styles.entry}
+              onClick={() => setSelectedId(entry.id)}
+            >
+              <div className={styles.entryHeader}>
+                <Text size={200} weight="semibold">{new Date(entry.timestamp).toLocaleString()}</Text>
+                <Badge appearance="tint" color={entry.success ? "success" : "danger"}>
+                  {entry.success ? "OK" : "Error"}
+                </Badge>
+              </div>
+              <Text size={200} className={styles.detail}>
+                {entry.provider} {entry.model} - {summarize(entry)}
+              </Text>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div>
+          <Text size={200} className={styles.detail}>
+            <Text size={200} weight="semibold">Provider:</Text> {selected.provider} ({selected.model})
+          </Text>
+          <Text size={200} className={styles.detail}>
+            <Text size={200} weight="semibold">Timestamp:</Text> {selected.timestamp}
+          </Text>
+          <Text size={200} className={styles.detail}>
+            <Text size={200} weight="semibold">Transaction IDs:</Text> {selected.transactionIds.join(", ") || "none"}
+          </Text>
+          {selected.truncated && (
+            <Text size={200} className={styles.detail}>
+              The request and response were too big to keep in the history.
+            </Text>
+          )}
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0' }}>
+            <Divider style={{ flexGrow: 1 }}>Request</Divider>
+            <Tooltip content={props.copyTooltip} relationship="label">
+              <Button
+                icon={<CopyRegular />}
+                appearance="subtle"
+                size="small"
+                onClick={() => props.onCopy(JSON.stringify(selected.request, null, 2))}
+                style={{ marginLeft: '10px' }}
+              />
+            </Tooltip>
+          </div>
+
+          <div className={styles.code}>
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
+              {JSON.stringify(selected.request, null, 2)}
+            </pre>
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0' }}>
+            <Divider style={{ flexGrow: 1 }}>{selected.error ? "Error" : "Response"}</Divider>
+            <Tooltip content={props.copyTooltip} relationship="label">
+              <Button
+                icon={<CopyRegular />}
+                appearance="subtle"
+                size="small"
+                onClick={() => props.onCopy(responseText(selected))}
+                style={{ marginLeft: '10px' }}
+              />
+            </Tooltip>
+          </div>
+
+          <div className={styles.code}>
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
+              {responseText(selected)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiHistoryPanel;
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { 
   makeStyles, 
   Button, 
@@ -13,31 +13,62 @@ import {
   Divider,
   Field,
   Checkbox,
-  Tooltip
+  Tooltip,
+  ProgressBar
 } from "@fluentui/react-components";
-import { Tag24Regular, Settings24Regular, BugRegular, CopyRegular } from "@fluentui/react-icons";
+import { Tag24Regular, Settings24Regular, BugRegular, CopyRegular, ArrowUndoRegular, TagMultipleRegular, CalculatorRegular, DataHistogramRegular, EyeRegular, DocumentCopyRegular, ArrowRepeatAllRegular, LightbulbRegular } from "@fluentui/react-icons";
 import { 
   categorizeUncategorizedTransactions, 
+  categorizeAllUncategorizedTransactions,
+  getCategorizationSuggestions,
+  applyCategorizationChanges,
+  undoLastRun,
+  canUndoLastRun,
+  onUndoAvailabilityChange,
+  estimateRun,
+  previewNextRequest,
+  evaluateAccuracy,
+  findDuplicates,
+  markDuplicates,
+  findSubscriptions,
+  suggestNewCategories,
+  applyNewCategories,
   setApiConfig, 
-  getLastApiInteraction,
-  ApiInteraction 
+  CategorizationResult,
+  ProposedChange,
+  SuggestionResult,
+  BatchProgress,
+  EstimateResult,
+  RunEstimate,
+  RequestPreview,
+  DuplicateSearchResult,
+  DuplicateMark,
+  NewCategoriesResult,
+  RunScope,
+  LowConfidenceAction
 } from "../services/aiCategorization";
-
-// Export environment variables for use in components
-const ENV = {
-  GOOGLE_API_KEY: process.env.GOOGLE_API_KEY || '',
-  OPENAI_API_KEY: process.env.OPENAI_API_KEY || ''
-};
-
-// Default settings values
-const DEFAULT_SETTINGS = {
-  provider: "openai" as const,
-  openaiModel: "gpt-4.1-mini",
-  geminiModel: "gemini-2.5-flash-preview-04-17",
-  maxBatchSize: 50,
-  maxReferenceTransactions: 5000,
-  updateDescriptions: false
-};
+import {
+  ApiSettings,
+  DEFAULT_SETTINGS,
+  toApiConfig,
+  loadAndApplySettings,
+  saveStoredSettings,
+  clearStoredSettings,
+  saveStoredApiKeys,
+  clearStoredApiKeys,
+  defaultSettings,
+  providerConfigFromSettings,
+  PROVIDER_SETTINGS
+} from "../services/settingsStorage";
+import { getProvider, ModelOption, ProviderId } from "../services/providers";
+import { SignMismatchAction } from "../services/categoryTypes";
+import ReviewPanel from "./ReviewPanel";
+import ColumnMappingSettings from "./ColumnMappingSettings";
+import ApiHistoryPanel from "./ApiHistoryPanel";
+import DuplicatesPanel from "./DuplicatesPanel";
+import NewCategoriesPanel from "./NewCategoriesPanel";
+import { CategoryProposal } from "../services/categoryDiscovery";
+import { describeRetry, RetryNotice } from "../services/retry";
 
 interface AppProps {
 }
@@ -50,22 +81,6 @@ interface NotificationState {
   visible: boolean;
 }
 
-interface ApiSettings {
-  openaiKey: string;
-  googleKey: string;
-  provider: 'gemini' | 'openai';
-  openaiModel: string;
-  geminiModel: string;
-  maxBatchSize: number;
-  maxReferenceTransactions: number;
-  updateDescriptions: boolean;
-}
-
-interface ModelOption {
-  id: string;
-  name: string;
-}
-
 const useStyles = makeStyles({
   root: {
     minHeight: "100vh",
@@ -97,6 +112,14 @@ const useStyles = makeStyles({
   }
 });
 
+// One line summary of an estimate, e.g. "50 transactions: ~12,000 input and ~2,500 output tokens, about $0.01"
+function describeEstimate(estimate: RunEstimate): string {
+  const cost = estimate.cost === null
+    ? "cost unknown for this model"
+    : `about $${estimate.cost < 0.01 ? estimate.cost.toFixed(4) : estimate.cost.toFixed(2)}`;
+  return `${estimate.transactions} transactions: ~${estimate.inputTokens.toLocaleString()} input and ~${estimate.outputTokens.toLocaleString()} output tokens, ${cost}`;
+}
+
 const App: React.FC<AppProps> = (_props: AppProps) => {
   const styles = useStyles();
   const [isLoading, setIsLoading] = useState(false);
@@ -106,36 +129,57 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
     visible: false
   });
   
+  // Replaced by the stored settings once they have loaded
   const [apiSettings, setApiSettings] = useState<ApiSettings>({
-    openaiKey: ENV.OPENAI_API_KEY || "",
-    googleKey: ENV.GOOGLE_API_KEY || "",
-    provider: DEFAULT_SETTINGS.provider,
-    openaiModel: DEFAULT_SETTINGS.openaiModel,
-    geminiModel: DEFAULT_SETTINGS.geminiModel,
-    maxBatchSize: DEFAULT_SETTINGS.maxBatchSize,
-    maxReferenceTransactions: DEFAULT_SETTINGS.maxReferenceTransactions,
-    updateDescriptions: DEFAULT_SETTINGS.updateDescriptions
+    ...DEFAULT_SETTINGS,
+    openaiKey: "",
+    googleKey: "",
+    anthropicKey: "",
+    compatibleKey: "",
+    rememberApiKeys: false
   });
   
   // State for model options
-  const [openaiModels, setOpenaiModels] = useState<ModelOption[]>([]);
-  const [geminiModels, setGeminiModels] = useState<ModelOption[]>([]);
+  const [modelOptions, setModelOptions] = useState<{[id in ProviderId]?: ModelOption[]}>({});
   const [loadingModels, setLoadingModels] = useState<boolean>(false);
   const [modelApiError, setModelApiError] = useState<string>("");
   
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [categorizationError, setCategorizationError] = useState<string>("");
   
-  // Debug panel for API interactions
+  // Suggestions waiting for the user to review before anything is written
+  const [pendingReview, setPendingReview] = useState<SuggestionResult | null>(null);
+  
+  // Which rows the categorization buttons, estimate and preview look at
+  const [runScope, setRunScope] = useState<RunScope>({});
+  
+  // Possible duplicates waiting for the user to confirm before any are marked
+  const [duplicateSearch, setDuplicateSearch] = useState<DuplicateSearchResult | null>(null);
+  
+  // New categories suggested for the fallback transactions, waiting for the user to approve
+  const [newCategories, setNewCategories] = useState<NewCategoriesResult | null>(null);
+  
+  // Progress of a "categorize everything" run, and whether the user asked to stop it
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const cancelRequested = useRef<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  
+  // The latest retry or rate limit wait during a run, e.g. "OpenAI: (429) ... Retrying in 4s (attempt 2 of 4)"
+  const [retryNotice, setRetryNotice] = useState<string>("");
+  const showRetry = (notice: RetryNotice) => setRetryNotice(describeRetry(notice));
+  
+  // Token and cost estimate for the next run, shown until the next run starts
+  const [costEstimate, setCostEstimate] = useState<EstimateResult | null>(null);
+  
+  // The request the next run would send, for checking what leaves the workbook
+  const [requestPreview, setRequestPreview] = useState<RequestPreview | null>(null);
+  
+  // Debug panel for browsing the API interaction history
   const [showApiDebug, setShowApiDebug] = useState<boolean>(false);
-  const [apiInteraction, setApiInteraction] = useState<ApiInteraction | null>(null);
   
-  // Function to show API debug panel
-  const showLastApiInteraction = () => {
-    const interaction = getLastApiInteraction();
-    setApiInteraction(interaction);
-    setShowApiDebug(true);
-  };
+  // Whether there is a run to undo, which may have been started from the ribbon
+  const [canUndo, setCanUndo] = useState<boolean>(canUndoLastRun());
+  useEffect(() => onUndoAvailabilityChange(setCanUndo), []);
   
   // Copy text to clipboard
   const [copyTooltip, setCopyTooltip] = useState("Copy to clipboard");
@@ -147,64 +191,82 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
     });
   };
   
-  // Format API response to remove markdown code blocks
-  const formatApiResponse = (response: string): string => {
-    if (!response) return "";
-    
-    // Remove markdown code block delimiters
-    return response.replace(/```json\s*|\s*```/g, "");
-  };
-  
-  // Apply API settings on initial load
+  // Load stored settings and apply them on initial load
   useEffect(() => {
-    if (ENV.GOOGLE_API_KEY || ENV.OPENAI_API_KEY) {
-      setApiConfig({
-        openaiKey: ENV.OPENAI_API_KEY || "",
-        googleKey: ENV.GOOGLE_API_KEY || "",
-        provider: ENV.GOOGLE_API_KEY ? "gemini" : "openai",
-        model: ENV.OPENAI_API_KEY ? apiSettings.openaiModel : apiSettings.geminiModel,
-        maxBatchSize: apiSettings.maxBatchSize,
-        maxReferenceTransactions: apiSettings.maxReferenceTransactions,
-        updateDescriptions: apiSettings.updateDescriptions
-      });
-    }
+    loadAndApplySettings()
+      .then(settings => setApiSettings(settings))
+      .catch(error => console.error("Error loading stored settings:", error));
   }, []);
   
+  // Persist settings; API keys go to local storage only if the user opted in
+  const persistSettings = async (settings: ApiSettings, field: keyof ApiSettings) => {
+    try {
+      if (field === 'rememberApiKeys' || Object.values(PROVIDER_SETTINGS).some(p => p.keyField === field)) {
+        if (settings.rememberApiKeys) {
+          try {
+            await saveStoredApiKeys({
+              openaiKey: settings.openaiKey,
+              googleKey: settings.googleKey,
+              anthropicKey: settings.anthropicKey,
+              compatibleKey: settings.compatibleKey
+            });
+          } catch (error) {
+            // Nothing was stored, so don't claim the keys are remembered
+            setApiSettings(prev => ({ ...prev, rememberApiKeys: false }));
+            setNotification({
+              message: `Couldn't remember the API keys: ${error instanceof Error ? error.message : String(error)}`,
+              type: "error",
+              visible: true
+            });
+          }
+        } else {
+          await clearStoredApiKeys();
+        }
+      } else {
+        await saveStoredSettings(settings);
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+    }
+  };
+  
   const handleApiSettingChange = (field: keyof ApiSettings, value: string | number | boolean) => {
-    // Update the local state
-    setApiSettings(prev => ({
-      ...prev,
-      [field]: value
-    }));
-    
     // Prepare the updated settings
     const updatedSettings = {
       ...apiSettings,
       [field]: value
     };
     
-    // Get the correct model based on provider
-    const modelToUse = updatedSettings.provider === 'gemini' 
-      ? updatedSettings.geminiModel 
-      : updatedSettings.openaiModel;
+    // Update the local state
+    setApiSettings(updatedSettings);
     
     // Apply API settings
-    setApiConfig({
-      openaiKey: field === 'openaiKey' ? value as string : apiSettings.openaiKey,
-      googleKey: field === 'googleKey' ? value as string : apiSettings.googleKey,
-      provider: field === 'provider' ? value as 'gemini' | 'openai' : apiSettings.provider,
-      model: modelToUse,
-      maxBatchSize: field === 'maxBatchSize' ? value as number : apiSettings.maxBatchSize,
-      maxReferenceTransactions: field === 'maxReferenceTransactions' ? value as number : apiSettings.maxReferenceTransactions,
-      updateDescriptions: field === 'updateDescriptions' ? value as boolean : apiSettings.updateDescriptions
-    });
+    setApiConfig(toApiConfig(updatedSettings));
+    persistSettings(updatedSettings, field);
+  };
+  
+  const handleResetSettings = async () => {
+    const resetSettings = defaultSettings(apiSettings);
+    setApiSettings(resetSettings);
+    setApiConfig(toApiConfig(resetSettings));
+    setModelOptions({});
+    
+    try {
+      await clearStoredSettings();
+      setNotification({ message: "Settings reset to defaults", type: "success", visible: true });
+    } catch (error) {
+      console.error("Error clearing stored settings:", error);
+    }
   };
 
-  // Function to fetch available models from OpenAI
-  const fetchOpenAIModels = async () => {
-    if (!apiSettings.openaiKey) {
+  // Function to fetch the available models from the selected provider
+  const fetchModels = async () => {
+    const provider = getProvider(apiSettings.provider);
+    const config = providerConfigFromSettings(apiSettings, apiSettings.provider);
+    
+    if (provider.requiresApiKey && !config.apiKey) {
       setNotification({
-        message: "Please enter your OpenAI API key first",
+        message: `Please enter your ${provider.name} API key first`,
         type: "warning",
         visible: true
       });
@@ -215,169 +277,395 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
     setModelApiError(""); // Clear previous errors
     
     try {
-      // Create a simple fetch request to OpenAI models endpoint
-      const response = await fetch('https://api.openai.com/v1/models', {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${apiSettings.openaiKey}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      const responseText = await response.text();
-      
-      if (!response.ok) {
-        throw new Error(`API Error (${response.status}): ${responseText}`);
-      }
-      
-      // Parse the response text as JSON
-      const data = JSON.parse(responseText);
-      
-      // Filter for chat models only and format them
-      const chatModels = data.data
-        .filter((model: any) => 
-          (model.id.includes('gpt') && !model.id.includes('instruct')) || 
-          model.id.includes('claude')
-        )
-        .map((model: any) => ({
-          id: model.id,
-          name: model.id
-        }));
-      
-      setOpenaiModels(chatModels);
-      return chatModels;
+      const models = await provider.listModels(config);
+      setModelOptions(prev => ({ ...prev, [provider.id]: models }));
+      return models;
     } catch (error) {
-      console.error("Error fetching OpenAI models:", error);
+      console.error(`Error fetching ${provider.name} models:`, error);
       
       // Set both notification and detailed error
       setNotification({
-        message: "Failed to fetch OpenAI models. See error details in settings panel.",
+        message: `Failed to fetch ${provider.name} models. See error details in settings panel.`,
         type: "error",
         visible: true
       });
       
-      setModelApiError(`OpenAI API Error: ${error instanceof Error ? error.message : String(error)}`);
+      setModelApiError(provider.normalizeError(error).message);
+      
+      // Return empty array to keep the input as free-form text
       return [];
     } finally {
       setLoadingModels(false);
     }
   };
-  
-  // Function to fetch available models from Google
-  const fetchGeminiModels = async () => {
-    if (!apiSettings.googleKey) {
+
+  const showCategorizationResult = (result: CategorizationResult) => {
+    if (result.success && result.errorDetails) {
+      // Partly succeeded; keep the details of what went wrong
       setNotification({
-        message: "Please enter your Google API key first",
+        message: `${result.message}. See details in settings panel.`,
         type: "warning",
         visible: true
       });
-      return [];
+      setCategorizationError(result.errorDetails);
+    } else if (result.success) {
+      setNotification({
+        message: result.message,
+        type: "success",
+        visible: true
+      });
+    } else {
+      // Display error message and store detailed error if available
+      setNotification({
+        message: "Error categorizing transactions. See details in settings panel.",
+        type: "error",
+        visible: true
+      });
+      
+      if (result.errorDetails) {
+        setCategorizationError(result.errorDetails);
+        setShowSettings(true); // Show settings panel with error details
+      } else {
+        setCategorizationError(result.message || "Unknown error occurred");
+      }
     }
+  };
+
+  const handleApplyReviewed = async (acceptedChanges: ProposedChange[]) => {
+    setIsLoading(true);
+    setCategorizationError("");
     
-    setLoadingModels(true);
-    setModelApiError(""); // Clear previous errors
+    try {
+      await Excel.run(async (context) => {
+        const result = await applyCategorizationChanges(context, acceptedChanges);
+        showCategorizationResult(result);
+        if (result.success) {
+          setPendingReview(null);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handleApplyReviewed:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFindDuplicates = async () => {
+    setIsLoading(true);
+    setCategorizationError("");
+    setApiConfig(toApiConfig(apiSettings));
     
     try {
-      // Use the Google AI models.list API endpoint
-      const response = await fetch('https://generativelanguage.googleapis.com/v1/models?key=' + apiSettings.googleKey);
-      
-      const responseText = await response.text();
-      
-      if (!response.ok) {
-        throw new Error(`API Error (${response.status}): ${responseText}`);
-      }
-      
-      // Parse the response text as JSON
-      const data = JSON.parse(responseText);
-      
-      // Filter for Gemini models and format them
-      const geminiModels = data.models
-        .filter((model: any) => model.name.includes('gemini'))
-        .map((model: any) => {
-          const modelId = model.name.split('/').pop();
-          return {
-            id: modelId,
-            name: modelId.replace('gemini-', 'Gemini ').replace('-', ' ')
-          };
-        });
-      
-      setGeminiModels(geminiModels);
-      return geminiModels;
+      await Excel.run(async (context) => {
+        const result = await findDuplicates(context);
+        showCategorizationResult(result);
+        if (result.success && result.groups.length > 0) {
+          setDuplicateSearch(result);
+          setShowSettings(false);
+          setShowApiDebug(false);
+        }
+      });
     } catch (error) {
-      console.error("Error fetching Gemini models:", error);
-      
-      // Set both notification and detailed error
+      console.error("Error in handleFindDuplicates:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFindSubscriptions = async () => {
+    setIsLoading(true);
+    setNotification({ message: "Looking for recurring charges...", type: "info", visible: true });
+    setCategorizationError("");
+    setApiConfig(toApiConfig(apiSettings));
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await findSubscriptions(context);
+        showCategorizationResult(result);
+      });
+    } catch (error) {
+      console.error("Error in handleFindSubscriptions:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSuggestNewCategories = async () => {
+    if (!checkApiKey()) return;
+    
+    setIsLoading(true);
+    setNotification({ message: "Looking for missing categories...", type: "info", visible: true });
+    setCategorizationError("");
+    setApiConfig(toApiConfig(apiSettings));
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await suggestNewCategories(context, { onRetry: showRetry });
+        showCategorizationResult(result);
+        if (result.success && result.proposals.length > 0) {
+          setNewCategories(result);
+          setShowSettings(false);
+          setShowApiDebug(false);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handleSuggestNewCategories:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+      setRetryNotice("");
+    }
+  };
+
+  const handleApplyNewCategories = async (proposals: CategoryProposal[]) => {
+    setIsLoading(true);
+    setCategorizationError("");
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await applyNewCategories(context, proposals);
+        showCategorizationResult(result);
+        if (result.success) {
+          setNewCategories(null);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handleApplyNewCategories:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMarkDuplicates = async (marks: DuplicateMark[]) => {
+    setIsLoading(true);
+    setCategorizationError("");
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await markDuplicates(context, marks);
+        showCategorizationResult(result);
+        if (result.success) {
+          setDuplicateSearch(null);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handleMarkDuplicates:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUndoLastRun = async () => {
+    setIsLoading(true);
+    setCategorizationError("");
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await undoLastRun(context);
+        showCategorizationResult(result);
+      });
+    } catch (error) {
+      console.error("Error in handleUndoLastRun:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showSuggestionsForReview = (result: SuggestionResult) => {
+    if (result.success && result.changes.length > 0) {
+      setPendingReview(result);
+      setShowSettings(false);
+      setShowApiDebug(false);
       setNotification({
-        message: "Failed to fetch Gemini models. See error details in settings panel.",
-        type: "error",
+        message: `${result.message}. Review them below before applying.`,
+        type: result.errorDetails ? "warning" : "info",
         visible: true
       });
-      
-      setModelApiError(`Google AI API Error: ${error instanceof Error ? error.message : String(error)}`);
-      
-      // Return empty array to keep the input as free-form text
-      return [];
+      if (result.errorDetails) {
+        setCategorizationError(result.errorDetails);
+      }
+    } else {
+      showCategorizationResult(result);
+    }
+  };
+
+  const handleEstimate = async () => {
+    setIsLoading(true);
+    setCategorizationError("");
+    setApiConfig(toApiConfig(apiSettings));
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await estimateRun(context, runScope);
+        if (result.success) {
+          setCostEstimate(result);
+        } else {
+          showCategorizationResult(result);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handleEstimate:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
     } finally {
-      setLoadingModels(false);
+      setIsLoading(false);
     }
   };
-  
-  // Function to fetch models based on selected provider
-  const fetchModels = async () => {
-    if (apiSettings.provider === 'openai') {
-      return await fetchOpenAIModels();
-    } else {
-      return await fetchGeminiModels();
+
+  const handlePreviewRequest = async () => {
+    setIsLoading(true);
+    setCategorizationError("");
+    setApiConfig(toApiConfig(apiSettings));
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await previewNextRequest(context, runScope);
+        if (result.success) {
+          setRequestPreview(result);
+        } else {
+          showCategorizationResult(result);
+        }
+      });
+    } catch (error) {
+      console.error("Error in handlePreviewRequest:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const handleAutoCategorize = async () => {
-    // Check if API keys are set based on provider
-    if ((apiSettings.provider === 'gemini' && !apiSettings.googleKey) || 
-        (apiSettings.provider === 'openai' && !apiSettings.openaiKey)) {
+  // Check if API keys are set based on provider, asking for one if not
+  const checkApiKey = (): boolean => {
+    const provider = getProvider(apiSettings.provider);
+    if (provider.requiresApiKey && !providerConfigFromSettings(apiSettings, apiSettings.provider).apiKey) {
       setNotification({
-        message: `Please enter your ${apiSettings.provider === 'gemini' ? 'Google' : 'OpenAI'} API key in settings`,
+        message: `Please enter your ${provider.name} API key in settings`,
         type: "warning",
         visible: true
       });
       setShowSettings(true);
-      return;
+      return false;
+    }
+    return true;
+  };
+
+  // Backtest against already-categorized rows; the report goes to its own sheet
+  const handleEvaluate = async () => {
+    if (!checkApiKey()) return;
+    
+    setIsLoading(true);
+    setNotification({ message: "Evaluating accuracy...", type: "info", visible: true });
+    setCategorizationError("");
+    setCostEstimate(null);
+    setApiConfig(toApiConfig(apiSettings));
+    cancelRequested.current = false;
+    setIsCancelling(false);
+    
+    try {
+      await Excel.run(async (context) => {
+        const result = await evaluateAccuracy(context, {
+          sampleSize: apiSettings.evaluationSampleSize,
+          onProgress: setBatchProgress,
+          onRetry: showRetry,
+          isCancelled: () => cancelRequested.current
+        });
+        showCategorizationResult(result);
+      });
+    } catch (error) {
+      console.error("Error in handleEvaluate:", error);
+      showCategorizationResult({
+        success: false,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        errorDetails: error instanceof Error && error.stack ? error.stack : undefined
+      });
+    } finally {
+      setIsLoading(false);
+      setBatchProgress(null);
+      setRetryNotice("");
     }
+  };
+
+  // Process one batch, or with categorizeAll every uncategorized row in successive batches
+  const handleAutoCategorize = async (categorizeAll: boolean) => {
+    if (!checkApiKey()) return;
     
     setIsLoading(true);
     setNotification({ message: "Processing transactions...", type: "info", visible: true });
     setCategorizationError(""); // Clear any previous errors
+    setPendingReview(null); // Drop any suggestions that were never applied
+    setCostEstimate(null);
     
     // Apply current API settings immediately
-    setApiConfig(apiSettings);
+    setApiConfig(toApiConfig(apiSettings));
     
     // Use setTimeout to allow the UI to update before starting the intensive operation
     setTimeout(async () => {
       try {
         await Excel.run(async (context) => {
-          // Run the categorization function
-          const result = await categorizeUncategorizedTransactions(context);
-          
-          if (result.success) {
-            setNotification({
-              message: result.message,
-              type: "success",
-              visible: true
-            });
-          } else {
-            // Display error message and store detailed error if available
-            setNotification({
-              message: "Error categorizing transactions. See details in settings panel.",
-              type: "error",
-              visible: true
+          if (categorizeAll) {
+            cancelRequested.current = false;
+            setIsCancelling(false);
+            const result = await categorizeAllUncategorizedTransactions(context, {
+              writeChanges: !apiSettings.reviewBeforeWrite,
+              onProgress: setBatchProgress,
+              onRetry: showRetry,
+              scope: runScope,
+              isCancelled: () => cancelRequested.current
             });
-            
-            if (result.errorDetails) {
-              setCategorizationError(result.errorDetails);
-              setShowSettings(true); // Show settings panel with error details
+            if (apiSettings.reviewBeforeWrite) {
+              showSuggestionsForReview(result);
             } else {
-              setCategorizationError(result.message || "Unknown error occurred");
+              showCategorizationResult(result);
             }
+          } else if (apiSettings.reviewBeforeWrite) {
+            // Only fetch suggestions; they are written once the user has reviewed them
+            const result = await getCategorizationSuggestions(context, { onRetry: showRetry, scope: runScope });
+            showSuggestionsForReview(result);
+          } else {
+            // Run the categorization function
+            const result = await categorizeUncategorizedTransactions(context, { onRetry: showRetry, scope: runScope });
+            showCategorizationResult(result);
           }
         });
       } catch (error) {
@@ -397,10 +685,16 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
         setShowSettings(true); // Show settings panel with error details
       } finally {
         setIsLoading(false);
+        setBatchProgress(null);
+        setRetryNotice("");
       }
     }, 50); // Small delay to allow UI to update
   };
 
+  // Settings fields for the provider currently selected
+  const selectedProvider = getProvider(apiSettings.provider);
+  const selectedProviderSettings = PROVIDER_SETTINGS[apiSettings.provider];
+
   return (
     <div className={styles.root}>
       {notification.visible && (
@@ -415,13 +709,92 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
           className={styles.autoCatButton}
           appearance="primary"
           icon={<Tag24Regular />}
-          onClick={handleAutoCategorize}
-          disabled={isLoading}
+          onClick={() => handleAutoCategorize(false)}
+          disabled={isLoading || pendingReview !== null}
         >
-          {isLoading ? <Spinner size="tiny" /> : "AI Auto-Categorize"}
+          {isLoading && !batchProgress ? <Spinner size="tiny" /> : "AI Auto-Categorize"}
         </Button>
         
-        <div style={{ display: 'flex', gap: '10px', marginTop: '10px' }}>
+        <Button 
+          className={styles.autoCatButton}
+          style={{ marginTop: '10px' }}
+          icon={<TagMultipleRegular />}
+          onClick={() => handleAutoCategorize(true)}
+          disabled={isLoading || pendingReview !== null}
+          title="Categorize every uncategorized row, one batch after another"
+        >
+          Categorize everything
+        </Button>
+        
+        <div style={{ width: '100%', marginTop: '15px' }}>
+          <Checkbox
+            label="Only the selected rows"
+            checked={!!runScope.selectionOnly}
+            onChange={(_e, data) => setRunScope(prev => ({ ...prev, selectionOnly: !!data.checked }))}
+          />
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <Field label="From" size="small" style={{ flexGrow: 1 }}>
+              <Input
+                type="date"
+                size="small"
+                value={runScope.dateFrom || ""}
+                onChange={(_e, data) => setRunScope(prev => ({ ...prev, dateFrom: data.value || undefined }))}
+              />
+            </Field>
+            <Field label="To" size="small" style={{ flexGrow: 1 }}>
+              <Input
+                type="date"
+                size="small"
+                value={runScope.dateTo || ""}
+                onChange={(_e, data) => setRunScope(prev => ({ ...prev, dateTo: data.value || undefined }))}
+              />
+            </Field>
+          </div>
+          <Checkbox
+            label="Re-categorize rows categorized by the AI or left as To Be Categorized"
+            checked={!!runScope.recategorize}
+            onChange={(_e, data) => setRunScope(prev => ({ ...prev, recategorize: !!data.checked, overwriteManual: data.checked ? prev.overwriteManual : false }))}
+          />
+          {runScope.recategorize && (
+            <Checkbox
+              style={{ marginLeft: '24px' }}
+              label="Also replace categories set by hand or by rules"
+              checked={!!runScope.overwriteManual}
+              onChange={(_e, data) => setRunScope(prev => ({ ...prev, overwriteManual: !!data.checked }))}
+            />
+          )}
+        </div>
+        
+        {batchProgress && (
+          <div style={{ width: '100%', marginTop: '15px' }}>
+            <ProgressBar
+              value={batchProgress.totalBatches > 0 ? batchProgress.completedBatches / batchProgress.totalBatches : 0}
+            />
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '5px' }}>
+              <Text size={200}>
+                Batch {batchProgress.completedBatches} of {batchProgress.totalBatches} ({batchProgress.processedTransactions} of {batchProgress.totalTransactions} transactions)
+              </Text>
+              <Button
+                size="small"
+                onClick={() => {
+                  cancelRequested.current = true;
+                  setIsCancelling(true);
+                }}
+                disabled={isCancelling}
+              >
+                {isCancelling ? "Stopping..." : "Cancel"}
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        {isLoading && retryNotice && (
+          <Text size={200} style={{ marginTop: '10px', color: '#8a6d00', textAlign: 'center' }}>
+            {retryNotice}
+          </Text>
+        )}
+        
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '10px', marginTop: '10px' }}>
           <Button 
             appearance="subtle"
             icon={<Settings24Regular />}
@@ -436,102 +809,234 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
           <Button 
             appearance="subtle"
             icon={<BugRegular />}
-            onClick={showLastApiInteraction}
-            disabled={!getLastApiInteraction()}
-            title="Show last API interaction"
+            onClick={() => {
+              setShowApiDebug(!showApiDebug);
+              setShowSettings(false);
+            }}
+            title="Browse the requests sent to the AI provider and its responses"
           >
             Debug
           </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<ArrowUndoRegular />}
+            onClick={handleUndoLastRun}
+            disabled={isLoading || !canUndo}
+            title="Put back the values changed by the last categorization run"
+          >
+            Undo last run
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<CalculatorRegular />}
+            onClick={handleEstimate}
+            disabled={isLoading}
+            title="Estimate the tokens and cost of the next run without calling the AI"
+          >
+            Estimate cost
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<EyeRegular />}
+            onClick={handlePreviewRequest}
+            disabled={isLoading}
+            title="Show exactly what the next run would send to the AI provider, without sending it"
+          >
+            Preview request
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<DataHistogramRegular />}
+            onClick={handleEvaluate}
+            disabled={isLoading || pendingReview !== null}
+            title="Categorize a sample of already-categorized transactions and compare with their real categories, without changing them"
+          >
+            Evaluate accuracy
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<DocumentCopyRegular />}
+            onClick={handleFindDuplicates}
+            disabled={isLoading || pendingReview !== null || duplicateSearch !== null}
+            title="Look for transactions the bank delivered twice, and confirm which copies to mark"
+          >
+            Find duplicates
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<ArrowRepeatAllRegular />}
+            onClick={handleFindSubscriptions}
+            disabled={isLoading}
+            title="List recurring charges, their cadence, price changes and next expected date on a Subscriptions sheet"
+          >
+            Find subscriptions
+          </Button>
+          
+          <Button 
+            appearance="subtle"
+            icon={<LightbulbRegular />}
+            onClick={handleSuggestNewCategories}
+            disabled={isLoading || pendingReview !== null || newCategories !== null}
+            title="Ask the AI which categories are missing, judging by the transactions in the fallback category"
+          >
+            Suggest new categories
+          </Button>
         </div>
       </div>
       
-      {showApiDebug && apiInteraction && (
+      {costEstimate && (
         <div className={styles.settingsContainer}>
           <Divider className={styles.divider}>
-            <Text>API Debug Information</Text>
+            <Text>Estimated Cost</Text>
             <Button
               appearance="subtle"
               size="small"
               style={{ marginLeft: '10px' }}
-              onClick={() => setShowApiDebug(false)}
+              onClick={() => setCostEstimate(null)}
             >
               Close
             </Button>
           </Divider>
           
-          <div style={{ marginBottom: '10px' }}>
-            <Text weight="semibold">Provider:</Text> {apiInteraction.provider}
-          </div>
-          
-          <div style={{ marginBottom: '10px' }}>
-            <Text weight="semibold">Timestamp:</Text> {apiInteraction.timestamp}
-          </div>
-          
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0' }}>
-            <Divider style={{ flexGrow: 1 }}>Request</Divider>
-            <Tooltip content={copyTooltip} relationship="label">
-              <Button 
-                icon={<CopyRegular />} 
-                appearance="subtle"
-                size="small"
-                onClick={() => copyToClipboard(JSON.stringify(apiInteraction.request, null, 2))}
-                style={{ marginLeft: '10px' }}
-              />
-            </Tooltip>
-          </div>
-          
-          <div style={{ 
-            maxHeight: '200px', 
-            overflow: 'auto', 
-            border: '1px solid #ccc', 
-            padding: '10px',
-            background: '#f5f5f5',
-            borderRadius: '4px',
-            marginBottom: '20px'
-          }}>
-            <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
-              {JSON.stringify(apiInteraction.request, null, 2)}
-            </pre>
-          </div>
+          <Text block style={{ marginBottom: '10px' }}>
+            {costEstimate.model}, {costEstimate.contextWindow.toLocaleString()} token context window
+          </Text>
+          {costEstimate.nextBatch ? (
+            <>
+              <Text block style={{ marginBottom: '5px' }}>
+                <strong>AI Auto-Categorize:</strong> {describeEstimate(costEstimate.nextBatch)}
+              </Text>
+              {costEstimate.everything && (
+                <Text block style={{ marginBottom: '10px' }}>
+                  <strong>Categorize everything ({costEstimate.everything.batches} batches):</strong> {describeEstimate(costEstimate.everything)}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text block style={{ marginBottom: '10px' }}>{costEstimate.message}</Text>
+          )}
+          {costEstimate.warnings.map((warning, index) => (
+            <MessageBar key={index} intent="warning" style={{ marginBottom: '5px' }}>
+              {warning}
+            </MessageBar>
+          ))}
+          <Text size={100} style={{ color: '#666', display: 'block' }}>
+            Token counts are approximate and don't include retries or reasoning tokens. Prices are list prices and may be out of date.
+          </Text>
+        </div>
+      )}
+      
+      {requestPreview && (
+        <div className={styles.settingsContainer}>
+          <Divider className={styles.divider}>
+            <Text>Request Preview</Text>
+            <Button
+              appearance="subtle"
+              size="small"
+              style={{ marginLeft: '10px' }}
+              onClick={() => setRequestPreview(null)}
+            >
+              Close
+            </Button>
+          </Divider>
           
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0' }}>
-            <Divider style={{ flexGrow: 1 }}>Response</Divider>
-            <Tooltip content={copyTooltip} relationship="label">
-              <Button 
-                icon={<CopyRegular />} 
-                appearance="subtle"
-                size="small"
-                onClick={() => {
-                  const content = apiInteraction.error 
-                    ? JSON.stringify(apiInteraction.error, null, 2)
-                    : apiInteraction.response 
-                      ? formatApiResponse(apiInteraction.response) 
-                      : "";
-                  copyToClipboard(content);
-                }}
-                style={{ marginLeft: '10px' }}
-              />
-            </Tooltip>
-          </div>
+          <Text block style={{ marginBottom: '5px' }}>{requestPreview.message}</Text>
+          <Text block style={{ marginBottom: '10px' }}>
+            {requestPreview.redactionEnabled
+              ? `${requestPreview.redactedCount} different personal details replaced with placeholders`
+              : "Redaction is off: descriptions are sent as they are"}
+          </Text>
           
-          <div style={{ 
-            maxHeight: '200px', 
-            overflow: 'auto', 
-            border: '1px solid #ccc', 
-            padding: '10px',
-            background: '#f5f5f5',
-            borderRadius: '4px'
-          }}>
-            <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
-              {apiInteraction.error ? 
-                JSON.stringify(apiInteraction.error, null, 2) : 
-                apiInteraction.response ? formatApiResponse(apiInteraction.response) : ""
-              }
-            </pre>
-          </div>
+          {requestPreview.request && (
+            <>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0' }}>
+                <Divider style={{ flexGrow: 1 }}>Transactions</Divider>
+                <Tooltip content={copyTooltip} relationship="label">
+                  <Button 
+                    icon={<CopyRegular />} 
+                    appearance="subtle"
+                    size="small"
+                    onClick={() => copyToClipboard(JSON.stringify(requestPreview.request, null, 2))}
+                    style={{ marginLeft: '10px' }}
+                  />
+                </Tooltip>
+              </div>
+              
+              <div style={{ 
+                maxHeight: '300px', 
+                overflow: 'auto', 
+                border: '1px solid #ccc', 
+                padding: '10px',
+                background: '#f5f5f5',
+                borderRadius: '4px'
+              }}>
+                <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
+                  {JSON.stringify(requestPreview.request.payload, null, 2)}
+                </pre>
+              </div>
+              <Text size={100} style={{ color: '#666', marginTop: '5px', display: 'block' }}>
+                The instructions sent with every request are included when you copy the preview.
+              </Text>
+            </>
+          )}
         </div>
       )}
       
+      {pendingReview && (
+        <ReviewPanel
+          changes={pendingReview.changes}
+          categories={pendingReview.categories}
+          isApplying={isLoading}
+          onApply={handleApplyReviewed}
+          onDiscard={() => {
+            setPendingReview(null);
+            setNotification({ message: "Suggested changes discarded", type: "info", visible: true });
+          }}
+        />
+      )}
+      
+      {duplicateSearch && (
+        <DuplicatesPanel
+          groups={duplicateSearch.groups}
+          markedWith={apiSettings.duplicateCategory
+            ? `the "${apiSettings.duplicateCategory}" category and the Duplicate column, if there is one`
+            : "the Duplicate column"}
+          isApplying={isLoading}
+          onApply={handleMarkDuplicates}
+          onDiscard={() => {
+            setDuplicateSearch(null);
+            setNotification({ message: "Possible duplicates discarded", type: "info", visible: true });
+          }}
+        />
+      )}
+      
+      {newCategories && (
+        <NewCategoriesPanel
+          proposals={newCategories.proposals}
+          existingCategories={newCategories.categories}
+          isApplying={isLoading}
+          onApply={handleApplyNewCategories}
+          onDiscard={() => {
+            setNewCategories(null);
+            setNotification({ message: "Suggested categories discarded", type: "info", visible: true });
+          }}
+        />
+      )}
+      
+      {showApiDebug && (
+        <ApiHistoryPanel
+          copyTooltip={copyTooltip}
+          onCopy={copyToClipboard}
+          onClose={() => setShowApiDebug(false)}
+        />
+      )}
+      
       {showSettings && (
         <div className={styles.settingsContainer}>
           <Divider className={styles.divider}>
@@ -566,99 +1071,77 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
             <Label>AI Provider</Label>
             <Radio value="gemini" label="Google Gemini" />
             <Radio value="openai" label="OpenAI" />
+            <Radio value="anthropic" label="Anthropic" />
+            <Radio value="openai-compatible" label="OpenAI-compatible (Ollama, LM Studio, vLLM...)" />
           </RadioGroup>
           
-          {apiSettings.provider === 'gemini' && (
-            <>
-              <Field 
-                label="Google API Key" 
-                className={styles.apiKeyField}
-                validationMessage={!apiSettings.googleKey ? "Required" : undefined}
-              >
-                <Input 
-                  type="password"
-                  value={apiSettings.googleKey}
-                  onChange={(_e, data) => handleApiSettingChange('googleKey', data.value)}
-                />
-              </Field>
-              
-              <Field label="Gemini Model" className={styles.apiKeyField}>
-                {geminiModels.length > 0 ? (
-                  <select
-                    style={{ width: '100%', padding: '8px' }}
-                    value={apiSettings.geminiModel}
-                    onChange={(e) => handleApiSettingChange('geminiModel', e.target.value)}
-                  >
-                    {geminiModels.map(model => (
-                      <option key={model.id} value={model.id}>
-                        {model.name}
-                      </option>
-                    ))}
-                  </select>
-                ) : (
-                  <div style={{ display: 'flex', gap: '8px' }}>
-                    <Input 
-                      value={apiSettings.geminiModel}
-                      onChange={(_e, data) => handleApiSettingChange('geminiModel', data.value)}
-                      style={{ flexGrow: 1 }}
-                    />
-                    <Button 
-                      onClick={fetchGeminiModels}
-                      disabled={loadingModels || !apiSettings.googleKey}
-                    >
-                      {loadingModels ? <Spinner size="tiny" /> : "Get Models"}
-                    </Button>
-                  </div>
-                )}
-              </Field>
-            </>
+          {apiSettings.provider === 'openai-compatible' && (
+            <Field 
+              label="Base URL" 
+              className={styles.apiKeyField}
+              hint="The server's OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama"
+              validationMessage={!apiSettings.compatibleBaseUrl ? "Required" : undefined}
+            >
+              <Input 
+                value={apiSettings.compatibleBaseUrl}
+                onChange={(_e, data) => handleApiSettingChange('compatibleBaseUrl', data.value)}
+              />
+            </Field>
           )}
           
-          {apiSettings.provider === 'openai' && (
-            <>
-              <Field 
-                label="OpenAI API Key" 
-                className={styles.apiKeyField}
-                validationMessage={!apiSettings.openaiKey ? "Required" : undefined}
+          <Field 
+            label={`${selectedProvider.name} API Key`} 
+            className={styles.apiKeyField}
+            hint={selectedProvider.requiresApiKey ? undefined : "Optional; most local servers don't need one"}
+            validationMessage={selectedProvider.requiresApiKey && !apiSettings[selectedProviderSettings.keyField] ? "Required" : undefined}
+          >
+            <Input 
+              type="password"
+              value={apiSettings[selectedProviderSettings.keyField]}
+              onChange={(_e, data) => handleApiSettingChange(selectedProviderSettings.keyField, data.value)}
+            />
+          </Field>
+          
+          <Field label={`${selectedProvider.name} Model`} className={styles.apiKeyField}>
+            {(modelOptions[selectedProvider.id] || []).length > 0 ? (
+              <select
+                style={{ width: '100%', padding: '8px' }}
+                value={apiSettings[selectedProviderSettings.modelField] as string}
+                onChange={(e) => handleApiSettingChange(selectedProviderSettings.modelField, e.target.value)}
               >
+                {(modelOptions[selectedProvider.id] || []).map(model => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div style={{ display: 'flex', gap: '8px' }}>
                 <Input 
-                  type="password"
-                  value={apiSettings.openaiKey}
-                  onChange={(_e, data) => handleApiSettingChange('openaiKey', data.value)}
+                  value={apiSettings[selectedProviderSettings.modelField] as string}
+                  onChange={(_e, data) => handleApiSettingChange(selectedProviderSettings.modelField, data.value)}
+                  style={{ flexGrow: 1 }}
                 />
-              </Field>
-              
-              <Field label="OpenAI Model" className={styles.apiKeyField}>
-                {openaiModels.length > 0 ? (
-                  <select
-                    style={{ width: '100%', padding: '8px' }}
-                    value={apiSettings.openaiModel}
-                    onChange={(e) => handleApiSettingChange('openaiModel', e.target.value)}
-                  >
-                    {openaiModels.map(model => (
-                      <option key={model.id} value={model.id}>
-                        {model.name}
-                      </option>
-                    ))}
-                  </select>
-                ) : (
-                  <div style={{ display: 'flex', gap: '8px' }}>
-                    <Input 
-                      value={apiSettings.openaiModel}
-                      onChange={(_e, data) => handleApiSettingChange('openaiModel', data.value)}
-                      style={{ flexGrow: 1 }}
-                    />
-                    <Button 
-                      onClick={fetchOpenAIModels}
-                      disabled={loadingModels || !apiSettings.openaiKey}
-                    >
-                      {loadingModels ? <Spinner size="tiny" /> : "Get Models"}
-                    </Button>
-                  </div>
-                )}
-              </Field>
-            </>
-          )}
+                <Button 
+                  onClick={fetchModels}
+                  disabled={loadingModels || (selectedProvider.requiresApiKey && !apiSettings[selectedProviderSettings.keyField])}
+                >
+                  {loadingModels ? <Spinner size="tiny" /> : "Get Models"}
+                </Button>
+              </div>
+            )}
+          </Field>
+          
+          <Checkbox
+            label="Remember API keys on this computer"
+            checked={apiSettings.rememberApiKeys}
+            onChange={(_e, data) => handleApiSettingChange('rememberApiKeys', data.checked || false)}
+            style={{ marginBottom: '10px' }}
+          />
+          <Text size={100} style={{ color: '#666', marginLeft: '24px', marginBottom: '15px', display: 'block' }}>
+            Remembered keys are encrypted and kept in the add-in's local storage on this computer, with an encryption
+            key that can't be copied off it. They are never saved in the workbook. Unchecking forgets them.
+          </Text>
           
           <Divider className={styles.divider}>
             <Text>Performance Settings</Text>
@@ -681,6 +1164,72 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
             />
           </Field>
           
+          <Field 
+            label="Max Concurrent Batches" 
+            className={styles.apiKeyField}
+            hint="How many batches to send to the AI at once when categorizing everything"
+          >
+            <Input 
+              type="text"
+              value={apiSettings.maxConcurrentBatches.toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                if (!isNaN(value)) {
+                  handleApiSettingChange('maxConcurrentBatches', value || DEFAULT_SETTINGS.maxConcurrentBatches);
+                }
+              }}
+            />
+          </Field>
+          
+          <Field 
+            label="Max Attempts" 
+            className={styles.apiKeyField}
+            hint="How many times to try a request that fails because the provider is rate limiting, overloaded or unreachable. Auth and quota errors aren't retried."
+          >
+            <Input 
+              type="text"
+              value={apiSettings.maxAttempts.toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                if (!isNaN(value)) {
+                  handleApiSettingChange('maxAttempts', value || DEFAULT_SETTINGS.maxAttempts);
+                }
+              }}
+            />
+          </Field>
+          
+          <Field 
+            label="Requests per Minute" 
+            className={styles.apiKeyField}
+            hint="Leave blank for no limit. Set it a little under your provider's rate limit to avoid retries."
+          >
+            <Input 
+              type="text"
+              placeholder="No limit"
+              value={apiSettings.requestsPerMinute ? apiSettings.requestsPerMinute.toString() : ""}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('requestsPerMinute', isNaN(value) ? 0 : value);
+              }}
+            />
+          </Field>
+          
+          <Field 
+            label="Tokens per Minute" 
+            className={styles.apiKeyField}
+            hint="Leave blank for no limit. Requests are estimated before they are sent."
+          >
+            <Input 
+              type="text"
+              placeholder="No limit"
+              value={apiSettings.tokensPerMinute ? apiSettings.tokensPerMinute.toString() : ""}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('tokensPerMinute', isNaN(value) ? 0 : value);
+              }}
+            />
+          </Field>
+          
           <Field 
             label="Max Reference Transactions" 
             className={styles.apiKeyField}
@@ -698,6 +1247,45 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
             />
           </Field>
           
+          <Field 
+            label="Evaluation Sample Size" 
+            className={styles.apiKeyField}
+            hint="How many already-categorized transactions Evaluate accuracy categorizes. The same ones are picked each time so results can be compared."
+          >
+            <Input 
+              type="text"
+              value={apiSettings.evaluationSampleSize.toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                if (!isNaN(value)) {
+                  handleApiSettingChange('evaluationSampleSize', value || DEFAULT_SETTINGS.evaluationSampleSize);
+                }
+              }}
+            />
+          </Field>
+          
+          <Field 
+            label="Context Window (tokens)" 
+            className={styles.apiKeyField}
+            hint="Leave blank to use the known size for the model. Set it for local models; reference transactions are trimmed to fit."
+          >
+            <Input 
+              type="text"
+              placeholder="Automatic"
+              value={apiSettings.contextWindow ? apiSettings.contextWindow.toString() : ""}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('contextWindow', isNaN(value) ? 0 : value);
+              }}
+            />
+          </Field>
+          
+          <Divider className={styles.divider}>
+            <Text>Workbook Layout</Text>
+          </Divider>
+          
+          <ColumnMappingSettings />
+          
           <Divider className={styles.divider}>
             <Text>Content Settings</Text>
           </Divider>
@@ -711,6 +1299,143 @@ const App: React.FC<AppProps> = (_props: AppProps) => {
           <Text size={100} style={{ color: '#666', marginLeft: '24px', marginBottom: '15px', display: 'block' }}>
             When unchecked, only categories will be updated. When checked, both categories and descriptions will be updated.
           </Text>
+          
+          <Checkbox
+            label="Review changes before writing"
+            checked={apiSettings.reviewBeforeWrite}
+            onChange={(_e, data) => handleApiSettingChange('reviewBeforeWrite', data.checked || false)}
+            style={{ marginBottom: '10px' }}
+          />
+          <Text size={100} style={{ color: '#666', marginLeft: '24px', marginBottom: '15px', display: 'block' }}>
+            When checked, suggestions are listed for you to accept, reject or edit before anything is written to the Transactions table.
+          </Text>
+
+          <Field
+            label="Confidence Threshold (%)"
+            className={styles.apiKeyField}
+            hint="AI suggestions the AI is less sure of than this are treated as low confidence. 0 turns this off."
+          >
+            <Input
+              type="text"
+              value={Math.round(apiSettings.confidenceThreshold * 100).toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('confidenceThreshold', isNaN(value) ? 0 : Math.min(100, Math.max(0, value)) / 100);
+              }}
+            />
+          </Field>
+
+          <Field label="Low confidence suggestions" className={styles.apiKeyField}>
+            <RadioGroup
+              value={apiSettings.lowConfidenceAction}
+              onChange={(_e, data) => handleApiSettingChange('lowConfidenceAction', data.value as LowConfidenceAction)}
+            >
+              <Radio value="highlight" label="Write them, highlighting the category for review" />
+              <Radio value="fallback" label={`Use "To Be Categorized" instead`} />
+            </RadioGroup>
+          </Field>
+
+          <Field
+            label="Categories that don't suit the amount"
+            className={styles.apiKeyField}
+            hint="Uses the Type column of the Categories table: money coming in shouldn't get an Expense category, nor money going out an Income category, unless a matching reference transaction did."
+          >
+            <RadioGroup
+              value={apiSettings.signMismatchAction}
+              onChange={(_e, data) => handleApiSettingChange('signMismatchAction', data.value as SignMismatchAction)}
+            >
+              <Radio value="highlight" label="Write them, highlighting the category for review" />
+              <Radio value="fallback" label={`Use "To Be Categorized" instead`} />
+              <Radio value="off" label="Don't check" />
+            </RadioGroup>
+          </Field>
+
+          <Field
+            label="Transfer Category"
+            className={styles.apiKeyField}
+            hint="Uncategorized transactions that look like the two sides of a transfer between accounts get this category without asking the AI. Leave blank to turn this off."
+          >
+            <Input
+              type="text"
+              placeholder="Off"
+              value={apiSettings.transferCategory}
+              onChange={(_e, data) => handleApiSettingChange('transferCategory', data.value)}
+            />
+          </Field>
+
+          <Field
+            label="Transfer Date Window (days)"
+            className={styles.apiKeyField}
+            hint="How many days apart the two sides of a transfer can be."
+          >
+            <Input
+              type="text"
+              value={apiSettings.transferWindowDays.toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('transferWindowDays', isNaN(value) ? 0 : Math.max(0, value));
+              }}
+            />
+          </Field>
+
+          <Field
+            label="Duplicate Category"
+            className={styles.apiKeyField}
+            hint="Confirmed duplicates from Find duplicates get this category, so they don't count twice. Leave blank to only flag them in the Duplicate column."
+          >
+            <Input
+              type="text"
+              placeholder="Don't change the category"
+              value={apiSettings.duplicateCategory}
+              onChange={(_e, data) => handleApiSettingChange('duplicateCategory', data.value)}
+            />
+          </Field>
+
+          <Field
+            label="Duplicate Date Window (days)"
+            className={styles.apiKeyField}
+            hint="How many days apart two copies of the same transaction can be, e.g. the pending and posted copies."
+          >
+            <Input
+              type="text"
+              value={apiSettings.duplicateWindowDays.toString()}
+              onChange={(_e, data) => {
+                const value = parseInt(data.value);
+                handleApiSettingChange('duplicateWindowDays', isNaN(value) ? 0 : Math.max(0, value));
+              }}
+            />
+          </Field>
+
+          <Checkbox
+            label="Redact personal information before sending"
+            checked={apiSettings.redactPii}
+            onChange={(_e, data) => handleApiSettingChange('redactPii', data.checked || false)}
+            style={{ marginBottom: '10px' }}
+          />
+          <Text size={100} style={{ color: '#666', marginLeft: '24px', marginBottom: '15px', display: 'block' }}>
+            Account and card numbers, phone numbers and email addresses in descriptions are replaced with placeholders such as [ACCOUNT_1], and put back in the descriptions that are written. Use "Preview request" to check what is sent.
+          </Text>
+
+          <Field
+            label="Names to redact"
+            className={styles.apiKeyField}
+            hint="Comma separated, e.g. the names of people you pay by Zelle. Only used when redaction is on."
+          >
+            <Input
+              type="text"
+              value={apiSettings.redactNames}
+              onChange={(_e, data) => handleApiSettingChange('redactNames', data.value)}
+            />
+          </Field>
+
+          <Divider className={styles.divider} />
+          
+          <Button onClick={handleResetSettings}>
+            Reset to defaults
+          </Button>
+          <Text size={100} style={{ color: '#666', marginTop: '5px', marginBottom: '15px', display: 'block' }}>
+            Settings are saved with this workbook. Resetting does not forget your API keys.
+          </Text>
         </div>
       )}
     </div>
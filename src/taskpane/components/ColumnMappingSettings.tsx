@@ -0,0 +1,206 @@
+import * as React from "react";
+import { useState, useEffect } from "react";
+import {
+  makeStyles,
+  Button,
+  Text,
+  Spinner,
+  MessageBar,
+  Field
+} from "@fluentui/react-components";
+import { SearchRegular } from "@fluentui/react-icons";
+import { setApiConfig } from "../services/aiCategorization";
+import {
+  ColumnMapping,
+  TransactionField,
+  TRANSACTION_FIELDS,
+  WorkbookTable,
+  detectColumnMapping,
+  getWorkbookTables
+} from "../services/columnMapping";
+import { loadColumnMapping, saveColumnMapping } from "../services/settingsStorage";
+
+const useStyles = makeStyles({
+  field: {
+    marginBottom: "10px",
+  },
+  select: {
+    width: "100%",
+    padding: "8px",
+  }
+});
+
+interface MappingSelectProps {
+  value: string;
+  options: string[];
+  optional?: boolean;
+  onChange: (value: string) => void;
+}
+
+// A select that still shows the current value even if it isn't in the workbook
+const MappingSelect: React.FC<MappingSelectProps> = (props: MappingSelectProps) => {
+  const styles = useStyles();
+  const isMissing = props.value !== "" && !props.options.includes(props.value);
+  return (
+    <select
+      className={styles.select}
+      value={props.value}
+      onChange={(e) => props.onChange(e.target.value)}
+    >
+      {props.optional && <option value="">(not used)</option>}
+      {isMissing && <option value={props.value}>{props.value} (not found)</option>}
+      {props.options.map(option => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+const ColumnMappingSettings: React.FC = () => {
+  const styles = useStyles();
+  const [mapping, setMapping] = useState<ColumnMapping>(loadColumnMapping());
+  const [tables, setTables] = useState<WorkbookTable[]>([]);
+  const [loadingTables, setLoadingTables] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const loadTables = async (): Promise<WorkbookTable[]> => {
+    setLoadingTables(true);
+    setError("");
+    try {
+      let workbookTables: WorkbookTable[] = [];
+      await Excel.run(async (context) => {
+        workbookTables = await getWorkbookTables(context);
+      });
+      setTables(workbookTables);
+      return workbookTables;
+    } catch (error) {
+      console.error("Error reading workbook tables:", error);
+      setError(`Could not read the tables in this workbook: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    } finally {
+      setLoadingTables(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTables();
+  }, []);
+
+  const updateMapping = (updatedMapping: ColumnMapping) => {
+    setMapping(updatedMapping);
+    setApiConfig({ columnMapping: updatedMapping });
+    saveColumnMapping(updatedMapping).catch(error => console.error("Error saving column mapping:", error));
+  };
+
+  const updateColumn = (field: TransactionField, column: string) => {
+    updateMapping({ ...mapping, columns: { ...mapping.columns, [field]: column } });
+  };
+
+  const handleAutoDetect = async () => {
+    const workbookTables = await loadTables();
+    if (workbookTables.length > 0) {
+      updateMapping(detectColumnMapping(workbookTables));
+    }
+  };
+
+  const tableNames = tables.map(t => t.name);
+  const headersOf = (tableName: string) => {
+    const table = tables.find(t => t.name === tableName);
+    return table ? table.headers.filter(Boolean) : [];
+  };
+
+  return (
+    <div>
+      {error && (
+        <MessageBar intent="error" style={{ marginBottom: '10px' }}>
+          {error}
+        </MessageBar>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '10px' }}>
+        <Button icon={<SearchRegular />} onClick={handleAutoDetect} disabled={loadingTables}>
+          Auto-detect
+        </Button>
+        {loadingTables && <Spinner size="tiny" />}
+      </div>
+      <Text size={100} style={{ color: '#666', marginBottom: '15px', display: 'block' }}>
+        Guesses the tables and columns from their header rows. The mapping is saved with this workbook.
+      </Text>
+
+      <Field label="Transactions table" className={styles.field}>
+        <MappingSelect
+          value={mapping.transactionsTable}
+          options={tableNames}
+          onChange={(value) => updateMapping({ ...mapping, transactionsTable: value })}
+        />
+      </Field>
+
+      {TRANSACTION_FIELDS.map(fieldInfo => (
+        <Field
+          key={fieldInfo.field}
+          label={`${fieldInfo.label} column`}
+          className={styles.field}
+          validationMessage={fieldInfo.required && !mapping.columns[fieldInfo.field] ? "Required" : undefined}
+        >
+          <MappingSelect
+            value={mapping.columns[fieldInfo.field]}
+            options={headersOf(mapping.transactionsTable)}
+            optional={!fieldInfo.required}
+            onChange={(value) => updateColumn(fieldInfo.field, value)}
+          />
+        </Field>
+      ))}
+
+      <Field label="Categories table" className={styles.field}>
+        <MappingSelect
+          value={mapping.categoriesTable}
+          options={tableNames}
+          onChange={(value) => updateMapping({ ...mapping, categoriesTable: value })}
+        />
+      </Field>
+
+      <Field label="Category name column" className={styles.field}>
+        <MappingSelect
+          value={mapping.categoriesColumn}
+          options={headersOf(mapping.categoriesTable)}
+          onChange={(value) => updateMapping({ ...mapping, categoriesColumn: value })}
+        />
+      </Field>
+
+      <Field label="Category group column" className={styles.field}>
+        <MappingSelect
+          value={mapping.categoryGroupColumn}
+          options={headersOf(mapping.categoriesTable)}
+          optional
+          onChange={(value) => updateMapping({ ...mapping, categoryGroupColumn: value })}
+        />
+      </Field>
+
+      <Field
+        label="Category type column"
+        className={styles.field}
+        hint="Income, Expense or Transfer; used to check that a category suits the sign of the amount"
+      >
+        <MappingSelect
+          value={mapping.categoryTypeColumn}
+          options={headersOf(mapping.categoriesTable)}
+          optional
+          onChange={(value) => updateMapping({ ...mapping, categoryTypeColumn: value })}
+        />
+      </Field>
+
+      <Field label="Rules table" className={styles.field} hint="Optional table of rules applied before the AI is asked">
+        <MappingSelect
+          value={mapping.rulesTable}
+          options={tableNames}
+          optional
+          onChange={(value) => updateMapping({ ...mapping, rulesTable: value })}
+        />
+      </Field>
+    </div>
+  );
+};
+
+export default ColumnMappingSettings;
@@ -0,0 +1,148 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  makeStyles,
+  Button,
+  Text,
+  Divider,
+  Badge,
+  Radio,
+  RadioGroup
+} from "@fluentui/react-components";
+import { DuplicateMark, DuplicateTransaction } from "../services/aiCategorization";
+import { DuplicateGroup } from "../services/duplicateDetection";
+import { formatDayNumber, toDayNumber } from "../services/transferDetection";
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup<DuplicateTransaction>[];
+  // What confirmed duplicates will be marked with, e.g. `the "Duplicate" column`
+  markedWith: string;
+  isApplying: boolean;
+  onApply: (marks: DuplicateMark[]) => void;
+  onDiscard: () => void;
+}
+
+interface GroupState {
+  // Transaction ID of the copy to keep
+  keepId: string;
+  confirmed: boolean;
+}
+
+const useStyles = makeStyles({
+  group: {
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    padding: "10px",
+    marginBottom: "10px",
+  },
+  groupHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: "8px",
+  },
+  detail: {
+    display: "block",
+    marginBottom: "4px",
+  },
+  footer: {
+    display: "flex",
+    gap: "10px",
+    marginTop: "10px",
+  }
+});
+
+// Excel date serials are shown as dates; anything else as it is
+function formatDate(value: any): string {
+  const day = toDayNumber(value);
+  if (typeof value !== 'number' || day === null) {
+    return String(value ?? "");
+  }
+  return formatDayNumber(day);
+}
+
+function describeCopy(transaction: DuplicateTransaction): string {
+  const parts = [formatDate(transaction.date), transaction.original_description, String(transaction.amount)];
+  if (transaction.institution) parts.push(transaction.institution);
+  if (transaction.category) parts.push(`(${transaction.category})`);
+  return parts.join(" · ");
+}
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = (props: DuplicatesPanelProps) => {
+  const styles = useStyles();
+  const [states, setStates] = useState<GroupState[]>(
+    props.groups.map(group => ({ keepId: group.keep.transaction_id, confirmed: true }))
+  );
+
+  const updateGroup = (index: number, update: Partial<GroupState>) => {
+    setStates(prev => prev.map((state, i) => i === index ? { ...state, ...update } : state));
+  };
+
+  // Every copy other than the kept one, in the groups still confirmed
+  const marks: DuplicateMark[] = props.groups.flatMap((group, i) => states[i].confirmed
+    ? group.transactions
+        .filter(t => t.transaction_id !== states[i].keepId)
+        .map(t => ({ transaction_id: t.transaction_id, duplicate_of: states[i].keepId }))
+    : []);
+
+  return (
+    <div>
+      <Divider style={{ margin: '20px 0' }}>
+        <Text>Possible Duplicates</Text>
+      </Divider>
+
+      <Text size={200} style={{ display: 'block', marginBottom: '10px' }}>
+        Choose the copy to keep in each group.  The other copies will be marked in {props.markedWith}.
+        Nothing is changed until you mark them.
+      </Text>
+
+      {props.groups.map((group, index) => (
+        <div key={group.transactions[0].transaction_id} className={styles.group}>
+          <div className={styles.groupHeader}>
+            <Text weight="semibold">{group.transactions.length} copies of {group.transactions[0].amount}</Text>
+            <Badge appearance="tint" color={states[index].confirmed ? "warning" : "informative"}>
+              {states[index].confirmed ? "Duplicates" : "Not duplicates"}
+            </Badge>
+          </div>
+
+          <RadioGroup
+            value={states[index].keepId}
+            onChange={(_e, data) => updateGroup(index, { keepId: data.value })}
+            disabled={!states[index].confirmed}
+          >
+            {group.transactions.map(transaction => (
+              <Radio
+                key={transaction.transaction_id}
+                value={transaction.transaction_id}
+                label={`${transaction.transaction_id === states[index].keepId ? "Keep" : "Duplicate"}: ${describeCopy(transaction)}`}
+              />
+            ))}
+          </RadioGroup>
+
+          <Button
+            size="small"
+            style={{ marginTop: '8px' }}
+            onClick={() => updateGroup(index, { confirmed: !states[index].confirmed })}
+          >
+            {states[index].confirmed ? "Not duplicates" : "These are duplicates"}
+          </Button>
+        </div>
+      ))}
+
+      <div className={styles.footer}>
+        <Button
+          appearance="primary"
+          onClick={() => props.onApply(marks)}
+          disabled={props.isApplying || marks.length === 0}
+        >
+          Mark {marks.length} duplicates
+        </Button>
+        <Button appearance="subtle" onClick={props.onDiscard} disabled={props.isApplying}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,126 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  makeStyles,
+  Button,
+  Text,
+  Input,
+  Checkbox,
+  Divider,
+  Badge
+} from "@fluentui/react-components";
+import { CategoryProposal } from "../services/categoryDiscovery";
+
+interface NewCategoriesPanelProps {
+  proposals: CategoryProposal[];
+  existingCategories: string[];
+  isApplying: boolean;
+  onApply: (proposals: CategoryProposal[]) => void;
+  onDiscard: () => void;
+}
+
+interface ProposalState {
+  name: string;
+  approved: boolean;
+}
+
+const useStyles = makeStyles({
+  proposal: {
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    padding: "10px",
+    marginBottom: "10px",
+  },
+  proposalHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "6px",
+  },
+  detail: {
+    display: "block",
+    marginBottom: "4px",
+  },
+  footer: {
+    display: "flex",
+    gap: "10px",
+    marginTop: "10px",
+  }
+});
+
+const NewCategoriesPanel: React.FC<NewCategoriesPanelProps> = (props: NewCategoriesPanelProps) => {
+  const styles = useStyles();
+  const [states, setStates] = useState<ProposalState[]>(
+    props.proposals.map(proposal => ({ name: proposal.name, approved: true }))
+  );
+  const existing = new Set(props.existingCategories.map(name => name.toLowerCase()));
+
+  const updateProposal = (index: number, update: Partial<ProposalState>) => {
+    setStates(prev => prev.map((state, i) => i === index ? { ...state, ...update } : state));
+  };
+
+  const approved = props.proposals
+    .map((proposal, i) => ({ ...proposal, name: states[i].name.trim() }))
+    .filter((proposal, i) => states[i].approved && proposal.name);
+  const transactionCount = approved.reduce((sum, p) => sum + p.transactionIds.length, 0);
+
+  return (
+    <div>
+      <Divider style={{ margin: '20px 0' }}>
+        <Text>Suggested Categories</Text>
+      </Divider>
+
+      <Text size={200} style={{ display: 'block', marginBottom: '10px' }}>
+        Approve the categories to add to the Categories table; their transactions will be moved out of the fallback category.
+        Rename any of them first if you like, or use the name of an existing category to move the transactions there instead.
+      </Text>
+
+      {props.proposals.map((proposal, index) => (
+        <div key={proposal.name} className={styles.proposal}>
+          <div className={styles.proposalHeader}>
+            <Checkbox
+              checked={states[index].approved}
+              onChange={(_e, data) => updateProposal(index, { approved: !!data.checked })}
+            />
+            <Input
+              style={{ flexGrow: 1 }}
+              value={states[index].name}
+              onChange={(_e, data) => updateProposal(index, { name: data.value })}
+              disabled={!states[index].approved}
+            />
+            <Badge appearance="tint" color={existing.has(states[index].name.trim().toLowerCase()) ? "informative" : "success"}>
+              {existing.has(states[index].name.trim().toLowerCase()) ? "Existing" : "New"}
+            </Badge>
+          </div>
+          <Text size={200} className={styles.detail}>
+            {proposal.transactionIds.length} transactions
+            {proposal.group ? ` · Group: ${proposal.group}` : ""}
+            {proposal.type ? ` · Type: ${proposal.type}` : ""}
+          </Text>
+          {proposal.reason && (
+            <Text size={200} className={styles.detail}>{proposal.reason}</Text>
+          )}
+          <Text size={200} className={styles.detail}>
+            e.g. {proposal.examples.join("; ")}
+          </Text>
+        </div>
+      ))}
+
+      <div className={styles.footer}>
+        <Button
+          appearance="primary"
+          onClick={() => props.onApply(approved)}
+          disabled={props.isApplying || approved.length === 0}
+        >
+          Add {approved.length} and categorize {transactionCount} transactions
+        </Button>
+        <Button appearance="subtle" onClick={props.onDiscard} disabled={props.isApplying}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NewCategoriesPanel;
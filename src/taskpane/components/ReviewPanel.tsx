@@ -0,0 +1,230 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  makeStyles,
+  Button,
+  Text,
+  Input,
+  Divider,
+  Field,
+  Badge
+} from "@fluentui/react-components";
+import { CheckmarkRegular, DismissRegular } from "@fluentui/react-icons";
+import { ProposedChange } from "../services/aiCategorization";
+
+type ReviewStatus = "pending" | "accepted" | "rejected";
+
+interface ReviewRow {
+  change: ProposedChange;
+  status: ReviewStatus;
+}
+
+interface ReviewPanelProps {
+  changes: ProposedChange[];
+  categories: string[];
+  isApplying: boolean;
+  onApply: (acceptedChanges: ProposedChange[]) => void;
+  onDiscard: () => void;
+}
+
+const useStyles = makeStyles({
+  row: {
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    padding: "10px",
+    marginBottom: "10px",
+  },
+  rowHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: "8px",
+  },
+  detail: {
+    display: "block",
+    marginBottom: "4px",
+  },
+  field: {
+    marginBottom: "8px",
+  },
+  actions: {
+    display: "flex",
+    gap: "8px",
+  },
+  footer: {
+    display: "flex",
+    gap: "10px",
+    marginTop: "10px",
+  }
+});
+
+const STATUS_BADGES: {[key in ReviewStatus]: { label: string; color: "informative" | "success" | "danger" }} = {
+  pending: { label: "Pending", color: "informative" },
+  accepted: { label: "Accepted", color: "success" },
+  rejected: { label: "Rejected", color: "danger" }
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = (props: ReviewPanelProps) => {
+  const styles = useStyles();
+  const [rows, setRows] = useState<ReviewRow[]>(
+    props.changes.map(change => ({ change, status: "pending" }))
+  );
+
+  const updateRow = (index: number, update: Partial<ReviewRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...update } : row));
+  };
+
+  // Editing a suggestion implies accepting the edited version.  A category the user chose themselves
+  // is written as their own: it isn't a low confidence guess or a sign mismatch, so it won't be
+  // highlighted, and it carries no AI confidence or reason and no AI Touched date.
+  const editChange = (index: number, field: 'suggested_category' | 'suggested_description', value: string) => {
+    setRows(prev => prev.map((row, i) => {
+      if (i !== index) return row;
+      const change = { ...row.change, [field]: value };
+      if (field === 'suggested_category') {
+        change.source = 'manual';
+        change.low_confidence = false;
+        change.sign_mismatch = undefined;
+        change.confidence = undefined;
+        change.reason = undefined;
+      }
+      return { change, status: "accepted" };
+    }));
+  };
+
+  const acceptAll = () => {
+    setRows(prev => prev.map(row => row.status === "rejected" ? row : { ...row, status: "accepted" }));
+  };
+
+  const acceptedChanges = rows.filter(row => row.status === "accepted").map(row => row.change);
+
+  return (
+    <div>
+      <Divider style={{ margin: '20px 0' }}>
+        <Text>Review Suggested Changes</Text>
+      </Divider>
+
+      <Text size={200} style={{ display: 'block', marginBottom: '10px' }}>
+        Nothing is written to the Transactions table until you apply the accepted changes.
+      </Text>
+
+      {rows.map((row, index) => (
+        <div key={row.change.transaction_id} className={styles.row}>
+          <div className={styles.rowHeader}>
+            <Text weight="semibold">{row.change.original_description}</Text>
+            <div className={styles.actions}>
+              {row.change.low_confidence && (
+                <Badge appearance="tint" color="warning">Low confidence</Badge>
+              )}
+              {row.change.sign_mismatch && (
+                <Badge appearance="tint" color="warning">Check sign</Badge>
+              )}
+              <Badge appearance="tint" color={STATUS_BADGES[row.status].color}>
+                {STATUS_BADGES[row.status].label}
+              </Badge>
+            </div>
+          </div>
+
+          <Text size={200} className={styles.detail}>
+            Current: {row.change.current_category || "(uncategorized)"}
+            {row.change.current_description ? ` / ${row.change.current_description}` : ""}
+          </Text>
+
+          {row.change.source === 'rule' ? (
+            <Text size={200} className={styles.detail}>
+              Matched rule: {row.change.matched_rule}
+            </Text>
+          ) : row.change.source === 'transfer' ? (
+            <Text size={200} className={styles.detail}>
+              Transfer with: {row.change.matched_transfer?.original_description}
+              {row.change.matched_transfer?.institution ? ` (${row.change.matched_transfer.institution})` : ""}
+            </Text>
+          ) : row.change.source === 'manual' ? (
+            <Text size={200} className={styles.detail}>
+              Category chosen by you
+            </Text>
+          ) : (
+            <Text size={200} className={styles.detail}>
+              Matched reference: {row.change.matched_transaction
+                ? `${row.change.matched_transaction.updated_description} (${row.change.matched_transaction.category})`
+                : "none"}
+            </Text>
+          )}
+
+          {row.change.sign_mismatch && (
+            <Text size={200} className={styles.detail}>
+              {row.change.sign_mismatch}
+            </Text>
+          )}
+
+          {row.change.confidence !== undefined && (
+            <Text size={200} className={styles.detail}>
+              Confidence: {Math.round(row.change.confidence * 100)}%{row.change.reason ? ` - ${row.change.reason}` : ""}
+            </Text>
+          )}
+
+          <Field label="Category" className={styles.field}>
+            <select
+              style={{ width: '100%', padding: '6px' }}
+              value={row.change.suggested_category}
+              onChange={(e) => editChange(index, 'suggested_category', e.target.value)}
+            >
+              {props.categories.includes(row.change.suggested_category) ? null : (
+                <option value={row.change.suggested_category}>{row.change.suggested_category}</option>
+              )}
+              {props.categories.map(category => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </Field>
+
+          <Field label="Description" className={styles.field}>
+            <Input
+              value={row.change.suggested_description}
+              onChange={(_e, data) => editChange(index, 'suggested_description', data.value)}
+            />
+          </Field>
+
+          <div className={styles.actions}>
+            <Button
+              size="small"
+              icon={<CheckmarkRegular />}
+              disabled={row.status === "accepted"}
+              onClick={() => updateRow(index, { status: "accepted" })}
+            >
+              Accept
+            </Button>
+            <Button
+              size="small"
+              icon={<DismissRegular />}
+              disabled={row.status === "rejected"}
+              onClick={() => updateRow(index, { status: "rejected" })}
+            >
+              Reject
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className={styles.footer}>
+        <Button onClick={acceptAll} disabled={props.isApplying}>
+          Accept all
+        </Button>
+        <Button
+          appearance="primary"
+          onClick={() => props.onApply(acceptedChanges)}
+          disabled={props.isApplying || acceptedChanges.length === 0}
+        >
+          Apply {acceptedChanges.length} accepted
+        </Button>
+        <Button appearance="subtle" onClick={props.onDiscard} disabled={props.isApplying}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
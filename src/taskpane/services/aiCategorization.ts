@@ -1,86 +1,249 @@
-import OpenAI from 'openai';
-import { GenerateContentParameters, GoogleGenAI } from '@google/genai';
-import { ChatCompletionCreateParams } from 'openai/resources';
+/* global Excel, console */
+
+import {
+  CompletionRequest,
+  getProvider,
+  ProviderConfig,
+  ProviderError,
+  ProviderErrorKind,
+  ProviderId,
+} from "./providers";
+import { ColumnMapping, DEFAULT_COLUMN_MAPPING, TRANSACTION_FIELDS } from "./columnMapping";
+import { CategorizationRule, describeRule, findMatchingRule, loadRules } from "./rules";
+import { selectReferenceTransactions } from "./referenceSelection";
+import {
+  estimateCost,
+  estimateJsonTokens,
+  estimateOutputTokens,
+  estimateTokens,
+  fitToTokenBudget,
+  getModelLimits,
+  inputTokenBudget,
+} from "./tokenEstimation";
+import {
+  buildEvaluationReport,
+  EvaluationOutcome,
+  EVALUATION_SHEET_NAME,
+  sampleItems,
+  writeEvaluationReport,
+} from "./evaluation";
+import {
+  describeFailures,
+  RowFailure,
+  SuggestedTransaction,
+  SUGGESTIONS_RESPONSE_SCHEMA,
+  validateSuggestions,
+} from "./responseValidation";
+import { findTransferPairs, toDayNumber, transferNote } from "./transferDetection";
+import {
+  DuplicateCandidate,
+  DuplicateGroup,
+  duplicateFlag,
+  findDuplicateGroups,
+} from "./duplicateDetection";
+import {
+  CATEGORY_PROPOSALS_RESPONSE_SCHEMA,
+  CategoryProposal,
+  clusterExamples,
+  clusterTransactions,
+  MIN_TRANSACTIONS_TO_ANALYZE,
+  validateCategoryProposals,
+} from "./categoryDiscovery";
+import {
+  findRecurringCharges,
+  RecurringCandidate,
+  SUBSCRIPTIONS_SHEET_NAME,
+  writeSubscriptionsReport,
+} from "./subscriptions";
+import {
+  CategoryInfo,
+  hasGroupsOrTypes,
+  readCategories,
+  SignMismatchAction,
+  signMismatch,
+} from "./categoryTypes";
+import { RedactionOptions, Redactor } from "./redaction";
+import { recordInteraction } from "./interactionHistory";
+import { RateLimiter, RetryNotice, withRetries } from "./retry";
+import { CellWrites, readColumns, visibleRows } from "./tableAccess";
 
 // API Keys - These should be set by the user at runtime
-let OPENAI_API_KEY = '';
-let GOOGLE_API_KEY = '';
+const API_KEYS: { [id in ProviderId]: string } = {
+  openai: "",
+  gemini: "",
+  anthropic: "",
+  "openai-compatible": "",
+};
 
 // LLM To Use
-let AI_PROVIDER = 'openai'; // Can be 'gemini' or 'openai'
-let GPT_MODEL = 'gpt-4.1-mini'; // Can be any openai model designator
+let AI_PROVIDER: ProviderId = "openai";
+let GPT_MODEL = "gpt-4.1-mini"; // Can be any model designator for the chosen provider
+let COMPATIBLE_BASE_URL = ""; // Endpoint for the OpenAI-compatible provider, e.g. a local Ollama server
 
 // Batch Processing Settings
 let MAX_BATCH_SIZE = 50; // Max number of transactions to categorize in one batch
-let MAX_REFERENCE_TRANSACTIONS = 5000; // Max number of reference transactions to include
+let MAX_REFERENCE_TRANSACTIONS = 5000; // Max number of reference transactions to include, if they fit in the context window
+let CONTEXT_WINDOW = 0; // Model context window in tokens; 0 uses the known value for the model
+let MAX_CONCURRENT_BATCHES = 1; // Max number of batches sent to the AI at once when categorizing everything
+const MAX_REPAIR_ATTEMPTS = 2; // Follow-up requests for transactions missing or malformed in the response
+
+// Retries and Rate Limits
+let MAX_ATTEMPTS = 4; // Attempts per request when it fails with a rate limit, overload or network error
+let rateLimiter = new RateLimiter(0, 0); // Per-minute request and token budgets; 0 means no limit
 
 // Content Settings
 let UPDATE_DESCRIPTIONS = false; // Whether to update transaction descriptions or just categories
 
-// Debugging - API interaction logs
-export interface ApiInteraction {
-  timestamp: string;
-  provider: string;
-  request: any;
-  response?: any;
-  error?: any;
+// What to do with AI suggestions whose confidence is below the threshold
+export type LowConfidenceAction = "fallback" | "highlight";
+let CONFIDENCE_THRESHOLD = 0.5; // 0 to 1; 0 treats every suggestion as confident
+let LOW_CONFIDENCE_ACTION: LowConfidenceAction = "highlight";
+const LOW_CONFIDENCE_FILL = "#FFEB9C"; // Excel's "Neutral" cell style yellow, also used for sign mismatches
+
+// What to do with AI suggestions whose category type (from the Categories table) doesn't suit the sign of the amount
+let SIGN_MISMATCH_ACTION: SignMismatchAction = "highlight";
+
+// Transfer Detection - both sides of a transfer between accounts get this category without asking the AI
+let TRANSFER_CATEGORY = "Transfer"; // "" turns transfer detection off
+let TRANSFER_WINDOW_DAYS = 3; // Max days between the two sides of a transfer
+
+// Duplicate Detection - copies of a transaction delivered twice by the bank feed
+let DUPLICATE_CATEGORY = ""; // Category given to confirmed duplicates; "" only flags them in the Duplicate column
+let DUPLICATE_WINDOW_DAYS = 3; // Max days between two copies of the same transaction
+
+// Privacy - account numbers and other personal details are replaced with placeholders before anything is sent
+let REDACTION: RedactionOptions = { enabled: false, names: [] };
+
+// Workbook Layout - which tables and columns to use
+let COLUMN_MAPPING: ColumnMapping = DEFAULT_COLUMN_MAPPING;
+
+// Undo - the prior values of every row changed by the last run
+// The prior values of the cells a run wrote.  Columns the run didn't write are left undefined, so undo
+// doesn't turn formulas into values or overwrite edits made since.
+interface UndoRecord {
+  transaction_id: string;
+  description?: any;
+  category?: any;
+  aiTouched?: any;
+  ruleTouched?: any;
+  aiConfidence?: any;
+  aiReason?: any;
+  note?: any;
+  duplicate?: any;
+  // Whether the Category cell was highlighted as low confidence
+  highlighted?: boolean;
 }
 
-let lastApiInteraction: ApiInteraction | null = null;
+let lastRunUndo: UndoRecord[] | null = null;
+// Told whenever the last run changes, so the task pane can update when a run started from the ribbon finishes
+const undoListeners = new Set<(canUndo: boolean) => void>();
+
+export function canUndoLastRun(): boolean {
+  return lastRunUndo !== null && lastRunUndo.length > 0;
+}
 
-export function getLastApiInteraction(): ApiInteraction | null {
-  return lastApiInteraction;
+// Call listener whenever there is a new run to undo or the last run has been undone; returns a function
+// that stops the calls
+export function onUndoAvailabilityChange(listener: (canUndo: boolean) => void): () => void {
+  undoListeners.add(listener);
+  return () => {
+    undoListeners.delete(listener);
+  };
 }
 
-// API clients - initialized on-demand when keys are available
-let openai: OpenAI | null = null;
-let genAI: GoogleGenAI | null = null;
+function setLastRunUndo(records: UndoRecord[] | null): void {
+  lastRunUndo = records;
+  undoListeners.forEach((listener) => listener(canUndoLastRun()));
+}
 
 // Function to set API keys and config at runtime
 export function setApiConfig(config: {
   openaiKey?: string;
   googleKey?: string;
-  provider?: 'gemini' | 'openai';
+  anthropicKey?: string;
+  compatibleKey?: string;
+  compatibleBaseUrl?: string;
+  provider?: ProviderId;
   model?: string;
   maxBatchSize?: number;
   maxReferenceTransactions?: number;
+  maxConcurrentBatches?: number;
+  contextWindow?: number;
   updateDescriptions?: boolean;
+  confidenceThreshold?: number;
+  lowConfidenceAction?: LowConfidenceAction;
+  signMismatchAction?: SignMismatchAction;
+  transferCategory?: string;
+  transferWindowDays?: number;
+  duplicateCategory?: string;
+  duplicateWindowDays?: number;
+  redactPii?: boolean;
+  redactNames?: string[];
+  maxAttempts?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  columnMapping?: ColumnMapping;
 }) {
   // Update keys and settings
-  if (config.openaiKey) OPENAI_API_KEY = config.openaiKey;
-  if (config.googleKey) GOOGLE_API_KEY = config.googleKey;
+  if (config.openaiKey !== undefined) API_KEYS["openai"] = config.openaiKey;
+  if (config.googleKey !== undefined) API_KEYS["gemini"] = config.googleKey;
+  if (config.anthropicKey !== undefined) API_KEYS["anthropic"] = config.anthropicKey;
+  if (config.compatibleKey !== undefined) API_KEYS["openai-compatible"] = config.compatibleKey;
+  if (config.compatibleBaseUrl !== undefined) COMPATIBLE_BASE_URL = config.compatibleBaseUrl;
   if (config.provider) AI_PROVIDER = config.provider;
   if (config.model) GPT_MODEL = config.model;
   if (config.maxBatchSize) MAX_BATCH_SIZE = config.maxBatchSize;
   if (config.maxReferenceTransactions) MAX_REFERENCE_TRANSACTIONS = config.maxReferenceTransactions;
+  if (config.maxConcurrentBatches) MAX_CONCURRENT_BATCHES = config.maxConcurrentBatches;
+  if (config.contextWindow !== undefined) CONTEXT_WINDOW = config.contextWindow;
   if (config.updateDescriptions !== undefined) UPDATE_DESCRIPTIONS = config.updateDescriptions;
-  
-  // Reset clients so they'll be re-initialized with new keys when needed
-  openai = null;
-  genAI = null;
-}
-
-// Column Names
-const TRANSACTION_ID_COL_NAME = "Transaction ID";
-const ORIGINAL_DESCRIPTION_COL_NAME = "Full Description";
-const DESCRIPTION_COL_NAME = "Description";
-const CATEGORY_COL_NAME = "Category";
-const DATE_COL_NAME = "Date";
-const AMOUNT_COL_NAME = "Amount";
-const AI_TOUCHED_COL_NAME = "AI Touched";
-const INSTITUTION_COL_NAME = "Institution";
+  if (config.confidenceThreshold !== undefined) CONFIDENCE_THRESHOLD = config.confidenceThreshold;
+  if (config.lowConfidenceAction) LOW_CONFIDENCE_ACTION = config.lowConfidenceAction;
+  if (config.signMismatchAction) SIGN_MISMATCH_ACTION = config.signMismatchAction;
+  if (config.transferCategory !== undefined) TRANSFER_CATEGORY = config.transferCategory;
+  if (config.transferWindowDays !== undefined) TRANSFER_WINDOW_DAYS = config.transferWindowDays;
+  if (config.duplicateCategory !== undefined) DUPLICATE_CATEGORY = config.duplicateCategory;
+  if (config.duplicateWindowDays !== undefined) DUPLICATE_WINDOW_DAYS = config.duplicateWindowDays;
+  if (config.redactPii !== undefined) REDACTION = { ...REDACTION, enabled: config.redactPii };
+  if (config.redactNames !== undefined) REDACTION = { ...REDACTION, names: config.redactNames };
+  if (config.maxAttempts) MAX_ATTEMPTS = config.maxAttempts;
+  // Only start counting afresh when the budgets actually change
+  const requestsPerMinute = config.requestsPerMinute ?? rateLimiter.requestsPerMinute;
+  const tokensPerMinute = config.tokensPerMinute ?? rateLimiter.tokensPerMinute;
+  if (
+    requestsPerMinute !== rateLimiter.requestsPerMinute ||
+    tokensPerMinute !== rateLimiter.tokensPerMinute
+  ) {
+    rateLimiter = new RateLimiter(requestsPerMinute, tokensPerMinute);
+  }
+  if (config.columnMapping) COLUMN_MAPPING = config.columnMapping;
+}
 
 // Fallback Transaction Category
 const FALLBACK_CATEGORY = "To Be Categorized";
 
 // Prompting
-// Shared prompt template for both APIs
-function generateCategorizePrompt(categoryList: string[]): string {
+// The group and type of each category, when the Categories table has them
+function generateCategoryDetailsPrompt(categories: CategoryInfo[]): string {
+  if (!hasGroupsOrTypes(categories)) {
+    return "";
+  }
+  return `
+    Each allowed category belongs to a group and has a type, as follows:
+    ${JSON.stringify(categories.map((c) => ({ category: c.name, group: c.group || null, type: c.type || null })))}
+    Use the groups to understand what each category is for.  Negative amounts are money going out and positive amounts are money coming in.
+    Don't put a positive amount in an Expense category or a negative amount in an Income category, unless a matching reference transaction with an amount of the same sign has that category.
+  `;
+}
+
+// Shared prompt template for all providers
+function generateCategorizePrompt(categories: CategoryInfo[]): string {
   return `
     Act as an API that categorizes and cleans up bank transaction descriptions for for a personal finance app. Respond with only JSON.
 
     Reference the following list of allowed_categories:
-    ${JSON.stringify(categoryList)}
+    ${JSON.stringify(categories.map((c) => c.name))}
+    ${generateCategoryDetailsPrompt(categories)}
 
     You will be given JSON input with a list of uncategorized transactions and a set of previously categorized reference transactions in the following format:
         {
@@ -133,6 +296,9 @@ function generateCategorizePrompt(categoryList: string[]): string {
         
         (4) If you are not confident in the suggested category after using your own knowledge and the similar transactions provided, 
             use the category "${FALLBACK_CATEGORY}".
+            
+            Either way, rate how confident you are in the category as a number from 0 to 1 in the "confidence" field, and say in a few words why you chose it in the "reason" field.
+            Be honest: use 0.9 or above only for a clear match with a reference transaction or a merchant you are sure of, and below 0.5 when you are mostly guessing.
 
         (4) Your response should be a JSON object and no other text.  The response object should be of the form:
         {
@@ -141,13 +307,57 @@ function generateCategorizePrompt(categoryList: string[]): string {
               "transaction_id": "The unique ID previously provided for this transaction",
               "updated_description": "The cleaned up version of the description",
               "category": "A category selected from the allowed_categories list",
-              "matched_transaction_id": "The transaction_id of the matching reference transaction found for this one, or null if no match was found.  If provided, this must be a matching transaction from the reference_transactions list, not the same ID as this transaction from the transactions list."
+              "matched_transaction_id": "The transaction_id of the matching reference transaction found for this one, or null if no match was found.  If provided, this must be a matching transaction from the reference_transactions list, not the same ID as this transaction from the transactions list.",
+              "confidence": "A number from 0 to 1 for how confident you are in the category",
+              "reason": "A short explanation of the category, such as 'Same merchant as a reference transaction' or 'Known grocery chain'"
             }
           ]
         }
   `;
 }
 
+// Prompt for "Suggest new categories": what the fallback transactions have in common that the
+// existing categories don't cover
+function generateNewCategoriesPrompt(categories: CategoryInfo[]): string {
+  const typed = categories.some((c) => c.type);
+  return `
+    Act as an API that helps maintain the list of categories for a personal finance app. Respond with only JSON.
+
+    These are the existing categories${hasGroupsOrTypes(categories) ? ", with their groups and types" : ""}:
+    ${JSON.stringify(hasGroupsOrTypes(categories) ? categories.map((c) => ({ category: c.name, group: c.group || null, type: c.type || null })) : categories.map((c) => c.name))}
+
+    The transactions below could not be given any of those categories, so they were put in "${FALLBACK_CATEGORY}".  They have been
+    grouped by counterparty into clusters, each with an ID, the counterparty, how many transactions it has, their total amount
+    (negative is money going out) and some example descriptions.
+
+    Propose new categories that would cover these clusters, so that fewer transactions end up in "${FALLBACK_CATEGORY}":
+    (1) Only propose a category that is clearly missing from the existing list and would cover a recurring kind of spending or income.
+        Don't propose a category that means the same as an existing one, and don't propose one for a single unusual transaction.
+    (2) Use short names in the same style as the existing categories.
+    (3) ${
+      hasGroupsOrTypes(categories)
+        ? `Give each new category the existing group it fits best${typed ? ", and a type used by the existing categories (such as Expense or Income)" : ""}, or null if none fits.`
+        : "Use null for the group and type."
+    }
+    (4) List the IDs of the clusters each new category would cover.  A cluster can be in at most one new category; leave out
+        clusters that none of them fit.
+    (5) Say in a few words why each category is needed in the "reason" field.
+
+    Your response should be a JSON object and no other text, of the form:
+    {
+      "proposed_categories": [
+        {
+          "name": "The new category name",
+          "group": "An existing group, or null",
+          "type": "The category type, or null",
+          "reason": "Why the category is needed, such as 'Regular pet food and vet bills'",
+          "cluster_ids": ["The IDs of the clusters it covers"]
+        }
+      ]
+    }
+  `;
+}
+
 // Other Parameters
 
 // Transaction interfaces
@@ -159,7 +369,7 @@ interface Transaction {
   institution?: string;
 }
 
-interface CategorizedTransaction {
+export interface CategorizedTransaction {
   transaction_id: string;
   original_description: string;
   updated_description: string;
@@ -169,388 +379,2147 @@ interface CategorizedTransaction {
   institution?: string;
 }
 
-interface SuggestedTransaction {
-  transaction_id: string;
-  updated_description: string;
-  category: string;
-  matched_transaction_id?: string;
-}
+// Build the request for a list of transactions, redacting the descriptions if that is turned on.
+// The redactor is returned so the original values can be put back into the response.
+function buildCompletionRequest(
+  transactionList: Transaction[],
+  categories: CategoryInfo[],
+  categorizedTransactions: CategorizedTransaction[]
+): { request: CompletionRequest; redactor: Redactor } {
+  const redactor = new Redactor(REDACTION);
+  const transactionDict = {
+    transactions: transactionList.map((t) => ({
+      ...t,
+      original_description: redactor.redact(t.original_description),
+    })),
+    reference_transactions: categorizedTransactions.map((t) => ({
+      ...t,
+      original_description: redactor.redact(t.original_description),
+      updated_description: redactor.redact(t.updated_description),
+    })),
+  };
 
-interface AIError {
-  message: string;
-  details: string;
-  source: 'api' | 'client';
-  statusCode?: number;
+  return {
+    request: {
+      systemPrompt: generateCategorizePrompt(categories),
+      payload: transactionDict,
+      responseSchema: { name: "suggested_transactions", schema: SUGGESTIONS_RESPONSE_SCHEMA },
+    },
+    redactor,
+  };
 }
 
+// Send a request to the configured provider and return the response text.  Each attempt waits for room in
+// the per-minute budgets and is recorded in the interaction history; rate limits, overloaded servers and
+// network errors are retried with backoff, reporting each wait to `onRetry`.
+async function sendCompletion(
+  request: CompletionRequest,
+  transactionIds: string[],
+  outputTokens: number,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<string> {
+  const provider = getProvider(AI_PROVIDER);
+  const config: ProviderConfig = {
+    apiKey: API_KEYS[AI_PROVIDER],
+    model: GPT_MODEL,
+    baseUrl: AI_PROVIDER === "openai-compatible" ? COMPATIBLE_BASE_URL : undefined,
+  };
 
-// Function to look up categories and descriptions using Gemini
-export async function lookupDescAndCategoryGemini(
-  transactionList: Transaction[],
-  categoryList: string[],
-  categorizedTransactions: CategorizedTransaction[]
-): Promise<SuggestedTransaction[] | null> {
-  if (!GOOGLE_API_KEY) {
-    throw new Error("Google API key not found. Please set it in the settings panel.");
+  if (provider.requiresApiKey && !config.apiKey) {
+    throw new Error(`${provider.name} API key not found. Please set it in the settings panel.`);
   }
 
-  try {
-    // Initialize the API client if needed
-    if (!genAI) {
-      genAI = new GoogleGenAI({apiKey: GOOGLE_API_KEY});
-    }
+  const requestTokens =
+    estimateTokens(request.systemPrompt) + estimateJsonTokens(request.payload) + outputTokens;
 
-    const transactionDict = {
-      transactions: transactionList,
-      reference_transactions: categorizedTransactions,
+  // One attempt: wait for room in the per-minute budgets, send, and record the interaction whatever happens
+  const sendRequest = async () => {
+    await rateLimiter.acquire(requestTokens, (delayMs, budget) =>
+      onRetry?.({ provider: provider.name, reason: budget, delayMs })
+    );
+
+    let requestForDebug: any = { model: config.model, payload: request.payload };
+    const interaction = {
+      timestamp: new Date().toISOString(),
+      provider: provider.name,
+      model: config.model,
+      transactionIds,
     };
+    const startTime = Date.now();
 
-    // Get the shared prompt
-    const prompt = generateCategorizePrompt(categoryList);
-    
-  const geminiRequest: GenerateContentParameters = {
-    model: GPT_MODEL,
-    contents: [
-      { role: "model", parts: [{text: prompt}]},
-      { role: "user", parts: [{ text: JSON.stringify(transactionDict) }] }
-    ],
-  };
+    try {
+      const response = await provider.complete(config, request);
+      requestForDebug = response.requestForDebug;
 
-  const requestForDebug = {...geminiRequest, contents: [{...geminiRequest.contents[0], parts: [{ text: transactionDict}]}]};
-  try {
-      const response = await genAI.models.generateContent(geminiRequest);
-  
-      const text = response.text;
-      
-      // Extract JSON from the response 
-      const jsonStart = text.indexOf("{");
-      const jsonEnd = text.lastIndexOf("}") + 1; 
-      const jsonText = text.substring(jsonStart, jsonEnd);
-      
       // Record API interaction
-      lastApiInteraction = {
-        timestamp: new Date().toISOString(),
-        provider: 'Gemini',
+      recordInteraction({
+        ...interaction,
+        latencyMs: Date.now() - startTime,
+        usage: response.usage,
+        success: true,
         request: requestForDebug,
-        response: text
-      };
-      
-      // Parse the JSON response
-      const parsedResponse = JSON.parse(jsonText);
-      return parsedResponse.suggested_transactions;
+        response: response.text,
+      });
+      return response.text;
     } catch (error) {
       // Record API error
-      lastApiInteraction = {
-        timestamp: new Date().toISOString(),
-        provider: 'Gemini',
+      recordInteraction({
+        ...interaction,
+        latencyMs: Date.now() - startTime,
+        success: false,
         request: requestForDebug,
-        response: null,
-        error: error instanceof Error ? { message: error.message, stack: error.stack } : error
-      };
+        error: error instanceof Error ? { message: error.message, stack: error.stack } : error,
+      });
+      console.error(`Error using ${provider.name} API:`, error);
       throw error;
     }
+  };
+
+  // Errors are normalized so they say whether they are worth retrying; the last one is thrown
+  // with its kind (retryable, auth, quota) to be captured in the main function
+  return withRetries(sendRequest, (error) => provider.normalizeError(error), {
+    maxAttempts: MAX_ATTEMPTS,
+    onRetry,
+  });
+}
+
+// Function to look up categories and descriptions using the configured provider.
+// The response is validated, and every transaction sent comes back either as a suggestion or as a failure.
+export async function lookupDescAndCategory(
+  transactionList: Transaction[],
+  categories: CategoryInfo[],
+  categorizedTransactions: CategorizedTransaction[],
+  onRetry?: (notice: RetryNotice) => void
+): Promise<{ suggestions: SuggestedTransaction[]; failures: RowFailure[] }> {
+  const provider = getProvider(AI_PROVIDER);
+  const { request, redactor } = buildCompletionRequest(
+    transactionList,
+    categories,
+    categorizedTransactions
+  );
+  const transactionIds = transactionList.map((t) => String(t.transaction_id));
+  const responseText = await sendCompletion(
+    request,
+    transactionIds,
+    estimateOutputTokens(transactionList.length),
+    onRetry
+  );
+
+  const requestedIds = transactionList.map((t) => t.transaction_id);
+
+  // A response that isn't JSON fails every row, so they are all re-requested rather than failing the run
+  let parsedResponse: any;
+  try {
+    parsedResponse = provider.parseResponse(responseText);
   } catch (error) {
-    console.error("Error using Gemini API:", error);
-    
-    // Throw detailed error to be captured in the main function
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorDetails = error instanceof Error && error.stack ? error.stack : "";
-    
-    const enhancedError = new Error(`Gemini API Error: ${errorMessage}`);
-    enhancedError.stack = errorDetails;
-    throw enhancedError;
+    console.warn(`Could not parse ${provider.name} response:`, error);
+    const reason = `Response could not be parsed: ${error instanceof Error ? error.message : String(error)}`;
+    return {
+      suggestions: [],
+      failures: requestedIds.map((id) => ({ transaction_id: id, reason })),
+    };
   }
+
+  const validated = validateSuggestions(
+    parsedResponse,
+    requestedIds,
+    new Set(categorizedTransactions.map((t) => String(t.transaction_id)))
+  );
+
+  // Put back anything that was redacted before it reaches the workbook
+  return {
+    ...validated,
+    suggestions: validated.suggestions.map((suggestion) => ({
+      ...suggestion,
+      updated_description: redactor.restore(suggestion.updated_description),
+      reason: redactor.restore(suggestion.reason),
+    })),
+  };
 }
 
-// Function to look up categories and descriptions using OpenAI
-export async function lookupDescAndCategoryOpenAI(
-  transactionList: Transaction[],
+// Result of a categorization run, returned to the task pane
+export interface CategorizationResult {
+  success: boolean;
+  message: string;
+  errorDetails?: string;
+}
+
+// A suggested change to a single transaction row, held for review before being written
+export interface ProposedChange {
+  transaction_id: string;
+  original_description: string;
+  current_description: string;
+  current_category: string;
+  suggested_description: string;
+  suggested_category: string;
+  // Whether the suggestion came from the AI, from a rule in the Rules table or from transfer detection, or
+  // is a category the user chose themselves while reviewing
+  source: "ai" | "rule" | "transfer" | "manual";
+  matched_transaction?: CategorizedTransaction;
+  matched_rule?: string;
+  // The other side of a transfer pair
+  matched_transfer?: { transaction_id: string; original_description: string; institution?: string };
+  // Added to the Note column when written
+  note?: string;
+  // AI suggestions only
+  confidence?: number;
+  reason?: string;
+  // Below the confidence threshold; highlighted when written unless the fallback category was used instead
+  low_confidence?: boolean;
+  // Why the category type doesn't suit the sign of the amount; highlighted when written like low confidence
+  sign_mismatch?: string;
+}
+
+export interface SuggestionResult extends CategorizationResult {
+  changes: ProposedChange[];
+  categories: string[];
+  // Transactions the AI still hadn't returned a valid suggestion for after the follow-up requests
+  failures: RowFailure[];
+  // Rows left out for having no Transaction ID
+  rowsWithoutId?: number;
+}
+
+interface ColumnIndices {
+  idColIndex: number;
+  origDescColIndex: number;
+  descColIndex: number;
+  categoryColIndex: number;
+  aiTouchedColIndex: number;
+  ruleTouchedColIndex: number;
+  institutionColIndex: number;
+  amountColIndex: number;
+  dateColIndex: number;
+  aiConfidenceColIndex: number;
+  aiReasonColIndex: number;
+  noteColIndex: number;
+  duplicateColIndex: number;
+}
+
+// Find the index of a mapped column; unmapped (empty) column names are never found
+function columnIndex(headers: any[], columnName: string): number {
+  return columnName ? headers.indexOf(columnName) : -1;
+}
+
+// Find column indices from the Transactions table header row, using the configured column mapping
+function findColumnIndices(headers: any[]): ColumnIndices {
+  const mapped = COLUMN_MAPPING.columns;
+  const columns: ColumnIndices = {
+    idColIndex: columnIndex(headers, mapped.transactionId),
+    origDescColIndex: columnIndex(headers, mapped.originalDescription),
+    descColIndex: columnIndex(headers, mapped.description),
+    categoryColIndex: columnIndex(headers, mapped.category),
+    aiTouchedColIndex: columnIndex(headers, mapped.aiTouched),
+    ruleTouchedColIndex: columnIndex(headers, mapped.ruleTouched),
+    institutionColIndex: columnIndex(headers, mapped.institution),
+    amountColIndex: columnIndex(headers, mapped.amount),
+    dateColIndex: columnIndex(headers, mapped.date),
+    aiConfidenceColIndex: columnIndex(headers, mapped.aiConfidence),
+    aiReasonColIndex: columnIndex(headers, mapped.aiReason),
+    noteColIndex: columnIndex(headers, mapped.note),
+    duplicateColIndex: columnIndex(headers, mapped.duplicate),
+  };
+
+  const missing = TRANSACTION_FIELDS.filter(
+    (f) => f.required && columnIndex(headers, mapped[f.field]) === -1
+  ).map((f) => `${f.label} ("${mapped[f.field]}")`);
+  if (missing.length > 0) {
+    throw new Error(
+      `Required columns not found in ${COLUMN_MAPPING.transactionsTable} table: ${missing.join(", ")}. Check the column mapping in settings.`
+    );
+  }
+
+  return columns;
+}
+
+// Changes are written back to rows by Transaction ID, so rows without one can't be found again to write
+// to or undo.  They are left out of every run.
+function hasTransactionId(values: any[], columns: ColumnIndices): boolean {
+  return String(values[columns.idColIndex] ?? "").trim() !== "";
+}
+
+// A mapped column with repeated values (one that isn't really an ID) would send writes and undo to the
+// wrong rows, so nothing is run until the mapping is fixed
+function checkTransactionIds(rows: any[][], columns: ColumnIndices): void {
+  const seen = new Set<string>();
+  const repeated = new Set<string>();
+  for (const row of rows) {
+    if (!row[columns.origDescColIndex] || !hasTransactionId(row, columns)) continue;
+    const id = String(row[columns.idColIndex]).trim();
+    if (seen.has(id)) {
+      repeated.add(id);
+    } else {
+      seen.add(id);
+    }
+  }
+
+  if (repeated.size > 0) {
+    throw new Error(
+      `The "${COLUMN_MAPPING.columns.transactionId}" column of the ${COLUMN_MAPPING.transactionsTable} table can't be used to find transactions: ${repeated.size} IDs are used by more than one transaction (e.g. "${repeated.values().next().value}"). Check the column mapping in settings.`
+    );
+  }
+}
+
+function missingIdMessage(rowsWithoutId: number): string {
+  return rowsWithoutId > 0
+    ? `; ${rowsWithoutId} transactions were skipped because they have no Transaction ID`
+    : "";
+}
+
+// Map each Transaction ID to its row index within the table body, so that rows can be
+// found again even if the table has been sorted or filtered since they were read
+function buildRowIndexById(rows: any[][], columns: ColumnIndices): { [key: string]: number } {
+  checkTransactionIds(rows, columns);
+  const rowIndexById: { [key: string]: number } = {};
+  rows.forEach((row, rowIndex) => {
+    if (hasTransactionId(row, columns)) {
+      rowIndexById[row[columns.idColIndex]] = rowIndex;
+    }
+  });
+  return rowIndexById;
+}
+
+// The Transactions table's body, with only the mapped columns read
+interface TransactionRows {
+  headers: any[];
+  columns: ColumnIndices;
+  dataBodyRange: Excel.Range;
+  // Worksheet row of the first row of the body
+  firstRowIndex: number;
+  rows: any[][];
+}
+
+// Read the mapped columns of the Transactions table in bulk.  Other columns (e.g. Tiller's own formulas)
+// are never loaded, which keeps large tables within Excel for the web's request size limits.
+async function readTransactionRows(
+  context: Excel.RequestContext,
+  transactionsTable: Excel.Table
+): Promise<TransactionRows> {
+  const headerRange = transactionsTable.getHeaderRowRange().load("values");
+  const dataBodyRange = transactionsTable.getDataBodyRange().load(["rowIndex", "rowCount"]);
+  await context.sync();
+  const headers = headerRange.values[0];
+  const columns = findColumnIndices(headers);
+  const rows = await readColumns(
+    context,
+    dataBodyRange,
+    dataBodyRange.rowCount,
+    headers.length,
+    Object.values(columns)
+  );
+  return { headers, columns, dataBodyRange, firstRowIndex: dataBodyRange.rowIndex, rows };
+}
+
+// Convert to Excel numeric date (days since 1900-01-01)
+// Excel stores dates as days since 1900-01-01 with the decimal portion representing time
+function currentExcelDate(): number {
+  const date = new Date();
+  return 25569 + date.getTime() / (24 * 60 * 60 * 1000);
+}
+
+// What to do about a provider error, by kind
+const PROVIDER_ERROR_HINTS: { [kind in ProviderErrorKind]: string } = {
+  retryable:
+    "The provider is busy or unreachable; try again in a minute, or lower the request budgets in Settings",
+  auth: "Check the API key in Settings",
+  quota: "The account's quota or credit has run out; check your plan or billing with the provider",
+  other: "",
+};
+
+function errorResult(functionName: string, error: unknown): CategorizationResult {
+  console.error(`Error in ${functionName}:`, error);
+  // Capture detailed error information
+  let errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+  if (error instanceof ProviderError) {
+    if (error.retryable && error.attempts && error.attempts > 1) {
+      errorMessage += ` (gave up after ${error.attempts} attempts)`;
+    }
+    if (PROVIDER_ERROR_HINTS[error.kind]) {
+      errorMessage += `. ${PROVIDER_ERROR_HINTS[error.kind]}`;
+    }
+  }
+  const errorStack = error instanceof Error && error.stack ? error.stack : "";
+  const errorDetails = `${errorMessage}\n\n${errorStack}`;
+
+  return {
+    success: false,
+    message: errorMessage,
+    errorDetails: errorDetails,
+  };
+}
+
+// Everything read from the workbook before asking the AI for suggestions
+interface PreparedRun {
+  columns: ColumnIndices;
+  categoryList: string[];
+  // The same categories with their group and type, if the Categories table has them
+  categories: CategoryInfo[];
+  // Changes from rules in the Rules table and from transfer detection, which never need the AI
+  ruleChanges: ProposedChange[];
+  transferChanges: ProposedChange[];
+  // Uncategorized transactions to send to the AI, in table order
+  uncategorizedTransactions: Transaction[];
+  idToRowValues: { [key: string]: any[] };
+  categorizedTransactions: CategorizedTransaction[];
+  // The Transactions table as read for the run; not set when the transactions come from elsewhere
+  table?: TransactionRows;
+  // Rows that would have been categorized but were skipped for having no Transaction ID
+  rowsWithoutId: number;
+}
+
+// Load the allowed categories (with their groups and types) from the Categories table, and the rules from the optional Rules table
+async function loadCategoriesAndRules(
+  context: Excel.RequestContext
+): Promise<{ categoryList: string[]; categories: CategoryInfo[]; rules: CategorizationRule[] }> {
+  // Get the Categories table
+  const categoriesTable = context.workbook.tables.getItem(COLUMN_MAPPING.categoriesTable);
+  if (!categoriesTable) {
+    throw new Error(`${COLUMN_MAPPING.categoriesTable} table not found in the workbook`);
+  }
+
+  const categoryColRange = categoriesTable.getDataBodyRange().load("values");
+  const categoryHeaderRange = categoriesTable.getHeaderRowRange().load("values");
+  await context.sync();
+
+  // Process categories, falling back to the first column if the mapped one isn't there
+  const categoryValues = categoryColRange.values || [];
+  const categoryHeaders = categoryHeaderRange.values[0];
+  const categoryNameColIndex = Math.max(
+    columnIndex(categoryHeaders, COLUMN_MAPPING.categoriesColumn),
+    0
+  );
+
+  const categories = readCategories(
+    categoryValues,
+    categoryNameColIndex,
+    columnIndex(categoryHeaders, COLUMN_MAPPING.categoryGroupColumn),
+    columnIndex(categoryHeaders, COLUMN_MAPPING.categoryTypeColumn)
+  );
+  const categoryList = categories.map((c) => c.name);
+
+  // Load the optional Rules table; rules pointing at unknown categories are ignored
+  const { rules: allRules, warnings: ruleWarnings } = await loadRules(
+    context,
+    COLUMN_MAPPING.rulesTable
+  );
+  ruleWarnings.forEach((warning) => console.warn(warning));
+  const rules = allRules.filter((rule) => {
+    if (!categoryList.includes(rule.category)) {
+      console.warn(
+        `${describeRule(rule)} ignored: category "${rule.category}" is not in the ${COLUMN_MAPPING.categoriesTable} table`
+      );
+      return false;
+    }
+    return true;
+  });
+
+  return { categoryList, categories, rules };
+}
+
+function rowToTransaction(
+  values: any[],
+  transactionId: string,
+  columns: ColumnIndices
+): Transaction {
+  return {
+    transaction_id: transactionId,
+    original_description: values[columns.origDescColIndex],
+    amount: parseFloat(values[columns.amountColIndex] || "0"),
+    date: values[columns.dateColIndex],
+    institution:
+      columns.institutionColIndex !== -1 ? values[columns.institutionColIndex] : undefined,
+  };
+}
+
+function rowToCategorizedTransaction(row: any[], columns: ColumnIndices): CategorizedTransaction {
+  const {
+    idColIndex,
+    origDescColIndex,
+    descColIndex,
+    categoryColIndex,
+    amountColIndex,
+    dateColIndex,
+    institutionColIndex,
+  } = columns;
+  return {
+    transaction_id: row[idColIndex],
+    original_description: row[origDescColIndex],
+    updated_description: row[descColIndex] || row[origDescColIndex],
+    category: row[categoryColIndex],
+    amount: parseFloat(row[amountColIndex] || "0"),
+    date: row[dateColIndex],
+    institution: institutionColIndex !== -1 ? row[institutionColIndex] : undefined,
+  };
+}
+
+// Label both sides of each transfer pair found among the uncategorized rows, if transfer detection is on
+function findTransferChanges(
+  candidates: { transaction: Transaction; values: any[] }[],
   categoryList: string[],
-  categorizedTransactions: CategorizedTransaction[]
-): Promise<SuggestedTransaction[] | null> {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not found. Please set it in the settings panel.");
+  columns: ColumnIndices
+): ProposedChange[] {
+  if (!TRANSFER_CATEGORY) {
+    return [];
+  }
+  if (!categoryList.includes(TRANSFER_CATEGORY)) {
+    console.warn(
+      `Transfer detection skipped: category "${TRANSFER_CATEGORY}" is not in the ${COLUMN_MAPPING.categoriesTable} table`
+    );
+    return [];
   }
 
-  try {
-    // Initialize the OpenAI client if needed
-    if (!openai) {
-      openai = new OpenAI({
-        apiKey: OPENAI_API_KEY,
-        dangerouslyAllowBrowser: true // Required for browser environments
+  const valuesById = new Map(candidates.map((c) => [c.transaction.transaction_id, c.values]));
+  const changes: ProposedChange[] = [];
+  for (const pair of findTransferPairs(
+    candidates.map((c) => c.transaction),
+    TRANSFER_WINDOW_DAYS
+  )) {
+    for (const [side, other] of [
+      [pair.outgoing, pair.incoming],
+      [pair.incoming, pair.outgoing],
+    ]) {
+      const values = valuesById.get(side.transaction_id)!;
+      const currentDescription = values[columns.descColIndex] || "";
+      changes.push({
+        transaction_id: side.transaction_id,
+        original_description: side.original_description,
+        current_description: currentDescription,
+        current_category: values[columns.categoryColIndex] || "",
+        suggested_description: currentDescription,
+        suggested_category: TRANSFER_CATEGORY,
+        source: "transfer",
+        matched_transfer: {
+          transaction_id: other.transaction_id,
+          original_description: other.original_description,
+          institution: other.institution,
+        },
+        note: transferNote(other.transaction_id),
       });
     }
+  }
+  return changes;
+}
 
-  const transactionDict = {
-    transactions: transactionList,
-    reference_transactions: categorizedTransactions,
+// Which rows a run looks at.  By default that is every visible row without a category.
+export interface RunScope {
+  // Only rows in the current selection
+  selectionOnly?: boolean;
+  // Only rows dated within this range (inclusive), as ISO dates such as "2025-04-01"; either end can be left open
+  dateFrom?: string;
+  dateTo?: string;
+  // Also rows the AI categorized before (per the AI Touched column) and rows in the fallback category
+  recategorize?: boolean;
+  // With recategorize, also rows categorized by hand or by a rule
+  overwriteManual?: boolean;
+}
+
+// Options for a single-batch run
+export interface RunOptions {
+  // Called whenever a request waits to be retried or for the per-minute budgets
+  onRetry?: (notice: RetryNotice) => void;
+  scope?: RunScope;
+}
+
+// Who set a row's category, as far as the table can tell.  A category stamped by the AI is taken to be
+// the AI's unless a rule stamped it later.
+function categorySetBy(
+  values: any[],
+  columns: ColumnIndices
+): "none" | "fallback" | "ai" | "other" {
+  const category = values[columns.categoryColIndex];
+  if (!category) return "none";
+  if (category === FALLBACK_CATEGORY) return "fallback";
+  const aiTouched = columns.aiTouchedColIndex !== -1 ? values[columns.aiTouchedColIndex] : "";
+  const ruleTouched = columns.ruleTouchedColIndex !== -1 ? values[columns.ruleTouchedColIndex] : "";
+  if (
+    aiTouched &&
+    !(typeof ruleTouched === "number" && typeof aiTouched === "number" && ruleTouched > aiTouched)
+  ) {
+    return "ai";
+  }
+  return "other";
+}
+
+// Whether a row's current category may be replaced in this scope
+function mayCategorize(values: any[], columns: ColumnIndices, scope: RunScope): boolean {
+  const setBy = categorySetBy(values, columns);
+  if (setBy === "none") return true;
+  if (!scope.recategorize) return false;
+  return setBy !== "other" || scope.overwriteManual === true;
+}
+
+// The worksheet rows of the current selection, which has to be on the same sheet as the Transactions table
+async function loadSelectedRows(
+  context: Excel.RequestContext,
+  transactionsTable: Excel.Table
+): Promise<{ first: number; last: number }> {
+  const selected = context.workbook.getSelectedRange().load(["rowIndex", "rowCount"]);
+  const selectedSheet = selected.worksheet.load("name");
+  const tableSheet = transactionsTable.worksheet.load("name");
+  await context.sync();
+  if (selectedSheet.name !== tableSheet.name) {
+    throw new Error(`Select some rows of the ${COLUMN_MAPPING.transactionsTable} table first`);
+  }
+  return { first: selected.rowIndex, last: selected.rowIndex + selected.rowCount - 1 };
+}
+
+// Read the categories, rules and transactions needed for a run.  At most `maxTransactions`
+// uncategorized transactions are collected for the AI; rule matches and transfer pairs are not limited.
+async function prepareRun(
+  context: Excel.RequestContext,
+  maxTransactions: number,
+  scope: RunScope = {}
+): Promise<PreparedRun> {
+  // Get the Transactions table
+  const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+  if (!transactionsTable) {
+    throw new Error(`${COLUMN_MAPPING.transactionsTable} table not found in the workbook`);
+  }
+
+  // Read the mapped columns of every row
+  const table = await readTransactionRows(context, transactionsTable);
+  const { columns, dataBodyRange, firstRowIndex, rows } = table;
+  const {
+    idColIndex,
+    origDescColIndex,
+    descColIndex,
+    categoryColIndex,
+    aiTouchedColIndex,
+    institutionColIndex,
+    dateColIndex,
+    duplicateColIndex,
+  } = columns;
+
+  // Don't require AI Touched column to be present, but log if it's missing
+  if (aiTouchedColIndex === -1) {
+    console.warn("AI Touched column not found in transactions table");
+  }
+
+  // Don't require Institution column to be present, but log if it's missing
+  if (institutionColIndex === -1) {
+    console.warn("Institution column not found in transactions table");
+  }
+
+  const { categoryList, categories, rules } = await loadCategoriesAndRules(context);
+
+  checkTransactionIds(rows, columns);
+
+  // Rows hidden by a filter are left alone
+  const visible = await visibleRows(context, dataBodyRange, rows.length, firstRowIndex);
+
+  const selection = scope.selectionOnly ? await loadSelectedRows(context, transactionsTable) : null;
+  const dateFrom = scope.dateFrom ? toDayNumber(scope.dateFrom) : null;
+  const dateTo = scope.dateTo ? toDayNumber(scope.dateTo) : null;
+  const inScope = (rowIndex: number, values: any[]) => {
+    if (selection && (rowIndex < selection.first || rowIndex > selection.last)) return false;
+    if (dateFrom === null && dateTo === null) return true;
+    const day = dateColIndex !== -1 ? toDayNumber(values[dateColIndex]) : null;
+    return (
+      day !== null && (dateFrom === null || day >= dateFrom) && (dateTo === null || day <= dateTo)
+    );
   };
 
-  // Get the shared prompt
-  const prompt = generateCategorizePrompt(categoryList);
-  const openAiRequest: ChatCompletionCreateParams = {
-    model: GPT_MODEL,
-    seed: 1,
-    response_format: { type: "json_object" },
-    messages: [
-      {
-        role: "system",
-        content: prompt
-      },
-      {
-        role: "user",
-        content: JSON.stringify(transactionDict),
+  // Find the rows to categorize (with an original description, and no category unless the scope allows
+  // replacing it), leaving out copies flagged as duplicates so they aren't categorized and counted twice
+  const candidates: { transaction: Transaction; values: any[] }[] = [];
+  const ruleChanges: ProposedChange[] = [];
+  let rowsWithoutId = 0;
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    if (!visible[rowIndex]) continue;
+    const values = rows[rowIndex];
+    const origDesc = values[origDescColIndex];
+    const flaggedDuplicate = duplicateColIndex !== -1 && values[duplicateColIndex];
+
+    if (
+      origDesc &&
+      !flaggedDuplicate &&
+      mayCategorize(values, columns, scope) &&
+      inScope(firstRowIndex + rowIndex, values)
+    ) {
+      if (!hasTransactionId(values, columns)) {
+        rowsWithoutId++;
+        continue;
+      }
+      const transactionId = values[idColIndex];
+      const transaction = rowToTransaction(values, transactionId, columns);
+
+      // Rules are applied first and don't count towards the batch size
+      const rule = findMatchingRule(transaction, rules);
+      if (rule) {
+        const currentDescription = values[descColIndex] || "";
+        ruleChanges.push({
+          transaction_id: transactionId,
+          original_description: origDesc,
+          current_description: currentDescription,
+          current_category: values[categoryColIndex] || "",
+          suggested_description: rule.description || currentDescription,
+          suggested_category: rule.category,
+          source: "rule",
+          matched_rule: describeRule(rule),
+        });
+        continue;
+      }
+
+      candidates.push({ transaction, values });
+    }
+  }
+
+  // Transfer pairs come next, and don't count towards the batch size either
+  const transferChanges = findTransferChanges(candidates, categoryList, columns);
+  const pairedIds = new Set(transferChanges.map((c) => c.transaction_id));
+
+  const uncategorizedTransactions: Transaction[] = [];
+  const idToRowValues: { [key: string]: any[] } = {};
+  for (const { transaction, values } of candidates) {
+    if (pairedIds.has(transaction.transaction_id)) continue;
+    // Limit batch size
+    if (uncategorizedTransactions.length >= maxTransactions) break;
+    uncategorizedTransactions.push(transaction);
+    // Keep the current values so the suggestions can be compared against them
+    idToRowValues[transaction.transaction_id] = values;
+  }
+
+  // Process categorized transactions, only needed if there is anything to send to the AI
+  const categorizedTransactions: CategorizedTransaction[] = [];
+
+  if (uncategorizedTransactions.length > 0) {
+    // Rows being re-categorized aren't references for themselves
+    const candidateIds = new Set(candidates.map((c) => String(c.transaction.transaction_id)));
+    for (const row of rows) {
+      if (
+        row &&
+        row[origDescColIndex] &&
+        row[categoryColIndex] &&
+        !candidateIds.has(String(row[idColIndex]))
+      ) {
+        categorizedTransactions.push(rowToCategorizedTransaction(row, columns));
       }
-    ]
+    }
+  }
+
+  return {
+    columns,
+    categoryList,
+    categories,
+    ruleChanges,
+    transferChanges,
+    uncategorizedTransactions,
+    idToRowValues,
+    categorizedTransactions,
+    table,
+    rowsWithoutId,
   };
-  const requestForDebug = {...openAiRequest, messages: [openAiRequest.messages[0], {...openAiRequest.messages[1], content: transactionDict}]}
-  try {
-      
-      const completion = await openai.chat.completions.create(openAiRequest);
+}
+
+// The reference transactions to send with a batch, and the estimated size of the request
+interface PackedBatch {
+  references: CategorizedTransaction[];
+  inputTokens: number;
+  outputTokens: number;
+  // Reference transactions left out because they wouldn't fit in the context window
+  trimmedReferences: number;
+  // Whether the prompt and transactions alone are already too big for the context window
+  overflows: boolean;
+}
+
+// Choose the reference transactions most similar to this batch (and the most recent after that),
+// then keep as many of them as fit in the model's context window alongside the prompt and the response
+function packBatch(run: PreparedRun, batch: Transaction[]): PackedBatch {
+  const candidates = selectReferenceTransactions(
+    batch,
+    run.categorizedTransactions,
+    MAX_REFERENCE_TRANSACTIONS
+  );
+  const limits = getModelLimits(GPT_MODEL, CONTEXT_WINDOW);
+  const outputTokens = estimateOutputTokens(batch.length);
+  const fixedTokens =
+    estimateTokens(generateCategorizePrompt(run.categories)) +
+    estimateJsonTokens({ transactions: batch, reference_transactions: [] });
+  const budget = inputTokenBudget(limits, outputTokens) - fixedTokens;
+  const fitted = fitToTokenBudget(candidates, Math.max(0, budget));
+
+  return {
+    references: fitted.items,
+    inputTokens: fixedTokens + fitted.tokens,
+    outputTokens,
+    trimmedReferences: candidates.length - fitted.items.length,
+    overflows: budget < 0,
+  };
+}
+
+// Ask the AI for suggestions for one batch of transactions and turn them into proposed changes.
+// Transactions missing from the response or with malformed suggestions are re-requested in follow-up calls.
+async function suggestBatch(
+  run: PreparedRun,
+  batch: Transaction[],
+  onRetry?: (notice: RetryNotice) => void
+): Promise<{ changes: ProposedChange[]; failures: RowFailure[] }> {
+  const { descColIndex, origDescColIndex, categoryColIndex, amountColIndex } = run.columns;
+
+  // Limit the number of reference transactions to avoid too large requests
+  const packed = packBatch(run, batch);
+  if (packed.trimmedReferences > 0) {
+    console.info(
+      `Left out ${packed.trimmedReferences} reference transactions to fit the ${GPT_MODEL} context window`
+    );
+  }
+  const limitedReferenceTransactions = packed.references;
+
+  // Call AI service to get suggestions, then re-request whatever didn't come back valid
+  const suggestedTransactions: SuggestedTransaction[] = [];
+  let pending = batch;
+  let failures: RowFailure[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+    const result = await lookupDescAndCategory(
+      pending,
+      run.categories,
+      limitedReferenceTransactions,
+      onRetry
+    );
+    suggestedTransactions.push(...result.suggestions);
+    failures = result.failures;
+    const failedIds = new Set(failures.map((f) => f.transaction_id));
+    pending = pending.filter((t) => failedIds.has(String(t.transaction_id)));
+  }
+
+  // Turn suggestions into proposed changes against the current row values
+  const changes: ProposedChange[] = [];
+
+  for (const suggestion of suggestedTransactions) {
+    const values = run.idToRowValues[suggestion.transaction_id];
 
-      const response = completion.choices[0].message.content;
-      if (!response) {
-        throw new Error("No response from OpenAI API");
+    if (values) {
+      // Validate category
+      let category = suggestion.category;
+      if (!run.categoryList.includes(category)) {
+        category = FALLBACK_CATEGORY;
       }
-      
-      // Record API interaction
-      lastApiInteraction = {
-        timestamp: new Date().toISOString(),
-        provider: 'OpenAI',
-        request: requestForDebug,
-        response: response
-      };
-      
-      const parsedResponse = JSON.parse(response);
-      return parsedResponse.suggested_transactions;
-    } catch (error) {
-      // Record API error
-      lastApiInteraction = {
-        timestamp: new Date().toISOString(),
-        provider: 'OpenAI',
-        request: requestForDebug,
-        response: null,
-        error: error instanceof Error ? { message: error.message, stack: error.stack } : error
+
+      // Unsure suggestions either fall back or are flagged so they can be highlighted when written
+      const lowConfidence =
+        suggestion.confidence < CONFIDENCE_THRESHOLD && category !== FALLBACK_CATEGORY;
+      if (lowConfidence && LOW_CONFIDENCE_ACTION === "fallback") {
+        category = FALLBACK_CATEGORY;
+      }
+
+      // Categories whose type doesn't suit the sign of the amount are treated the same way
+      const matchedTransaction = suggestion.matched_transaction_id
+        ? run.categorizedTransactions.find(
+            (t) => String(t.transaction_id) === suggestion.matched_transaction_id
+          )
+        : undefined;
+      const mismatch =
+        SIGN_MISMATCH_ACTION !== "off" && category !== FALLBACK_CATEGORY
+          ? signMismatch(
+              run.categories.find((c) => c.name === category),
+              parseFloat(values[amountColIndex]),
+              matchedTransaction
+            )
+          : null;
+      if (mismatch && SIGN_MISMATCH_ACTION === "fallback") {
+        category = FALLBACK_CATEGORY;
+      }
+
+      const currentDescription = values[descColIndex] || "";
+
+      changes.push({
+        transaction_id: suggestion.transaction_id,
+        original_description: values[origDescColIndex],
+        current_description: currentDescription,
+        current_category: values[categoryColIndex] || "",
+        // Only propose a new description if the setting is enabled
+        suggested_description: UPDATE_DESCRIPTIONS
+          ? suggestion.updated_description
+          : currentDescription,
+        suggested_category: category,
+        source: "ai",
+        matched_transaction: matchedTransaction,
+        confidence: suggestion.confidence,
+        reason: suggestion.reason,
+        low_confidence: lowConfidence,
+        sign_mismatch: mismatch || undefined,
+      });
+    }
+  }
+
+  // Attach descriptions so failures can be recognised in the task pane
+  const descriptionsById = new Map(
+    batch.map((t) => [String(t.transaction_id), t.original_description])
+  );
+  failures = failures.map((f) => ({
+    ...f,
+    original_description: descriptionsById.get(f.transaction_id),
+  }));
+
+  return { changes, failures };
+}
+
+function suggestionMessage(
+  changeCount: number,
+  ruleChangeCount: number,
+  transferChangeCount: number
+): string {
+  let message =
+    changeCount > 0 ? `${changeCount} suggested changes` : "No transactions needed updating";
+  const sources: string[] = [];
+  if (ruleChangeCount > 0) {
+    sources.push(`${ruleChangeCount} from rules`);
+  }
+  if (transferChangeCount > 0) {
+    sources.push(`${transferChangeCount} transfers`);
+  }
+  if (sources.length > 0) {
+    message += ` (${sources.join(", ")})`;
+  }
+  return message;
+}
+
+function failureMessage(failures: RowFailure[]): string {
+  return failures.length > 0 ? `; ${failures.length} transactions could not be categorized` : "";
+}
+
+// Ask the AI provider for suggestions for one batch without writing anything to the workbook.
+// Rows matching a rule in the Rules table are suggested from the rule, and both sides of a transfer between
+// accounts get the transfer category; neither is sent to the AI.
+export async function getCategorizationSuggestions(
+  context: Excel.RequestContext,
+  options: RunOptions = {}
+): Promise<SuggestionResult> {
+  try {
+    const run = await prepareRun(context, MAX_BATCH_SIZE, options.scope);
+    const presetChanges = [...run.ruleChanges, ...run.transferChanges];
+
+    if (run.uncategorizedTransactions.length === 0) {
+      return {
+        success: true,
+        message:
+          (presetChanges.length > 0
+            ? suggestionMessage(
+                presetChanges.length,
+                run.ruleChanges.length,
+                run.transferChanges.length
+              )
+            : "No uncategorized transactions found") + missingIdMessage(run.rowsWithoutId),
+        changes: presetChanges,
+        categories: run.categoryList,
+        failures: [],
+        rowsWithoutId: run.rowsWithoutId,
       };
-      throw error;
     }
+
+    const batchResult = await suggestBatch(run, run.uncategorizedTransactions, options.onRetry);
+    const changes = [...presetChanges, ...batchResult.changes];
+
+    return {
+      success: true,
+      message:
+        suggestionMessage(changes.length, run.ruleChanges.length, run.transferChanges.length) +
+        failureMessage(batchResult.failures) +
+        missingIdMessage(run.rowsWithoutId),
+      errorDetails:
+        batchResult.failures.length > 0 ? describeFailures(batchResult.failures) : undefined,
+      changes: changes,
+      categories: run.categoryList,
+      failures: batchResult.failures,
+      rowsWithoutId: run.rowsWithoutId,
+    };
   } catch (error) {
-    console.error("Error using OpenAI API:", error);
-    
-    // Throw detailed error to be captured in the main function
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorDetails = error instanceof Error && error.stack ? error.stack : "";
-    
-    const enhancedError = new Error(`OpenAI API Error: ${errorMessage}`);
-    enhancedError.stack = errorDetails;
-    throw enhancedError;
+    return {
+      ...errorResult("getCategorizationSuggestions", error),
+      changes: [],
+      categories: [],
+      failures: [],
+    };
+  }
+}
+
+export interface BatchProgress {
+  completedBatches: number;
+  totalBatches: number;
+  processedTransactions: number;
+  totalTransactions: number;
+}
+
+export interface BatchRunOptions extends RunOptions {
+  // Write each batch as soon as it finishes; otherwise collect every suggestion for review
+  writeChanges: boolean;
+  onProgress?: (progress: BatchProgress) => void;
+  // Checked before each batch is started; batches already sent are still finished and written
+  isCancelled?: () => boolean;
+}
+
+function splitIntoBatches(transactions: Transaction[]): Transaction[][] {
+  const batches: Transaction[][] = [];
+  for (let i = 0; i < transactions.length; i += MAX_BATCH_SIZE) {
+    batches.push(transactions.slice(i, i + MAX_BATCH_SIZE));
   }
+  return batches;
 }
 
-// Main function to categorize transactions
-export async function categorizeUncategorizedTransactions(context: Excel.RequestContext) {
+// Categorize every uncategorized row, splitting them into batches of the configured size and
+// sending up to the configured number of batches to the AI at once
+export async function categorizeAllUncategorizedTransactions(
+  context: Excel.RequestContext,
+  options: BatchRunOptions
+): Promise<SuggestionResult> {
   try {
-    // Get the Transactions table
-    const transactionsTable = context.workbook.tables.getItem("Transactions");    
-    if (!transactionsTable) {
-      throw new Error("Transactions table not found in the workbook");
-    }
-    
-    // Get the Categories table
-    const categoriesTable = context.workbook.tables.getItem("Categories");    
-    if (!categoriesTable) {
-      throw new Error("Categories table not found in the workbook");
-    }
-    
-    // Get headers
-    const headerRange = transactionsTable.getHeaderRowRange().load("values");
-    await context.sync();
-    const headers = headerRange.values[0];
-    
-    // Find column indices
-    const idColIndex = headers.indexOf(TRANSACTION_ID_COL_NAME);
-    const origDescColIndex = headers.indexOf(ORIGINAL_DESCRIPTION_COL_NAME);
-    const descColIndex = headers.indexOf(DESCRIPTION_COL_NAME);
-    const categoryColIndex = headers.indexOf(CATEGORY_COL_NAME);
-    const aiTouchedColIndex = headers.indexOf(AI_TOUCHED_COL_NAME);
-    const institutionColIndex = headers.indexOf(INSTITUTION_COL_NAME);
-    const amountColIndex = headers.indexOf(AMOUNT_COL_NAME);
-    const dateColIndex = headers.indexOf(DATE_COL_NAME);
-    
-    if (idColIndex === -1 || origDescColIndex === -1 || descColIndex === -1 || categoryColIndex === -1) {
-      throw new Error("Required columns not found in Transactions table");
-    }
-    
-    // Don't require AI Touched column to be present, but log if it's missing
-    if (aiTouchedColIndex === -1) {
-      console.warn("AI Touched column not found in Transactions table");
-    }
-    
-    // Don't require Institution column to be present, but log if it's missing
-    if (institutionColIndex === -1) {
-      console.warn("Institution column not found in Transactions table");
-    }
-    
-    // Get visible rows data along with cell addresses
-    const visibleRangeRows = transactionsTable.getDataBodyRange().getVisibleView().load(["rows"]);
-    await context.sync();
-    const rowRanges = (visibleRangeRows.rows.items.map(vr => vr.getRange().load(["values"])));
-    await context.sync();
-    
-    // Find uncategorized transactions (with original description but no category)
-    const uncategorizedTransactions: Transaction[] = [];
-    const idToRowRange: {[key: string]: Excel.Range} = {};
-    
-    for (const [i, rowRange] of rowRanges.entries()) {
-      const values = rowRange.values[0];
-      const origDesc = values[origDescColIndex];
-      const category = values[categoryColIndex];
-      
-      if (origDesc && !category) {
-        const amount = parseFloat(values[amountColIndex] || "0");
-        const date = values[dateColIndex];
-        
-        const transactionId = values[idColIndex] || `row-${i}`;
-        uncategorizedTransactions.push({
-          transaction_id: transactionId,
-          original_description: origDesc,
-          amount: amount,
-          date: date,
-          institution: institutionColIndex !== -1 ? values[institutionColIndex] : undefined
-        });
-        // Store cell addresses for this row (we'll use these to update the correct cells)
-        idToRowRange[transactionId] = rowRange;
-        
-        // Limit batch size
-        if (uncategorizedTransactions.length >= MAX_BATCH_SIZE) {
-          break;
+    const run = await prepareRun(context, Number.MAX_SAFE_INTEGER, options.scope);
+    const batches = splitIntoBatches(run.uncategorizedTransactions);
+
+    const progress: BatchProgress = {
+      completedBatches: 0,
+      totalBatches: batches.length,
+      processedTransactions: 0,
+      totalTransactions: run.uncategorizedTransactions.length,
+    };
+    options.onProgress?.({ ...progress });
+
+    const allChanges: ProposedChange[] = [];
+    const undoRecords: UndoRecord[] = [];
+    const batchErrors: string[] = [];
+    const failures: RowFailure[] = [];
+    let updatedCount = 0;
+    let failedBatches = 0;
+    let presetWriteFailed = false;
+
+    // The table as read for the run is reused for each batch's write unless its rows have moved since (the user
+    // can sort, filter or insert rows while the run goes on).  The prior values kept for undo stay right, as each
+    // transaction is written by one batch at most.
+    let table =
+      options.writeChanges && run.table
+        ? { ...run.table, rowIndexById: buildRowIndexById(run.table.rows, run.table.columns) }
+        : undefined;
+
+    // Writes go through a single chain so batches finishing together don't interleave syncs.  Each write
+    // catches its own error, so one failed write doesn't stop the later batches being written.
+    let writeQueue: Promise<void> = Promise.resolve();
+    const handleChanges = (changes: ProposedChange[], batchNumber: number | null) => {
+      allChanges.push(...changes);
+      if (!options.writeChanges || changes.length === 0) return writeQueue;
+      writeQueue = writeQueue.then(async () => {
+        try {
+          if (table) {
+            table = await refreshIfMoved(context, table);
+          }
+          const written = await writeChanges(context, changes, table);
+          updatedCount += written.updatedCount;
+          undoRecords.push(...written.undoRecords);
+          // Keep undo up to date so a cancelled or failed run can still be undone
+          setLastRunUndo(undoRecords);
+        } catch (error) {
+          const label = batchNumber === null ? "Rules and transfers" : `Batch ${batchNumber + 1}`;
+          console.error(`Error writing ${label.toLowerCase()}:`, error);
+          batchErrors.push(
+            `${label}: Couldn't write the changes: ${error instanceof Error ? error.message : String(error)}`
+          );
+          if (batchNumber === null) {
+            presetWriteFailed = true;
+          } else {
+            failedBatches++;
+          }
+        }
+      });
+      return writeQueue;
+    };
+
+    await handleChanges([...run.ruleChanges, ...run.transferChanges], null);
+
+    let nextBatch = 0;
+    const worker = async () => {
+      while (nextBatch < batches.length && !options.isCancelled?.()) {
+        const batchNumber = nextBatch++;
+        const batch = batches[batchNumber];
+        try {
+          const batchResult = await suggestBatch(run, batch, options.onRetry);
+          failures.push(...batchResult.failures);
+          await handleChanges(batchResult.changes, batchNumber);
+        } catch (error) {
+          console.error(`Error in batch ${batchNumber + 1}:`, error);
+          batchErrors.push(
+            `Batch ${batchNumber + 1}: ${error instanceof Error ? error.message : String(error)}`
+          );
+          failedBatches++;
         }
+        progress.completedBatches++;
+        progress.processedTransactions += batch.length;
+        options.onProgress?.({ ...progress });
       }
+    };
+
+    const workerCount = Math.max(1, Math.min(MAX_CONCURRENT_BATCHES, batches.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    await writeQueue;
+
+    const cancelled = progress.completedBatches < batches.length;
+    let message = options.writeChanges
+      ? updatedCount > 0
+        ? `Updated ${updatedCount} transactions`
+        : "No transactions needed updating"
+      : suggestionMessage(allChanges.length, run.ruleChanges.length, run.transferChanges.length);
+    if (batches.length === 0 && run.ruleChanges.length === 0 && run.transferChanges.length === 0) {
+      message = "No uncategorized transactions found";
     }
-    
-    if (uncategorizedTransactions.length === 0) {
-      return { success: true, message: "No uncategorized transactions found" };
-    }
-    
-    // Load multiple ranges in parallel
-    const allCategorizedRange = transactionsTable.getDataBodyRange().load("values");
-    const categoryColRange = categoriesTable.getDataBodyRange().load("values");
-    
-    // Load all data with a single sync call
-    await context.sync();
-    
-    // Process categorized transactions
-    const allRows = allCategorizedRange.values || [];
-    const categorizedTransactions: CategorizedTransaction[] = [];
-    
-    // Only process rows if we have data
-    if (allRows && allRows.length > 0) {
-      for (const row of allRows) {
-        if (row && row[origDescColIndex] && row[categoryColIndex]) {
-          categorizedTransactions.push({
-            transaction_id: row[idColIndex],
-            original_description: row[origDescColIndex],
-            updated_description: row[descColIndex] || row[origDescColIndex],
-            category: row[categoryColIndex],
-            amount: parseFloat(row[headers.indexOf(AMOUNT_COL_NAME)] || "0"),
-            date: row[headers.indexOf(DATE_COL_NAME)],
-            institution: institutionColIndex !== -1 ? row[institutionColIndex] : undefined
-          });
-        }
+    if (cancelled) {
+      message += ` (cancelled after ${progress.completedBatches} of ${batches.length} batches)`;
+    }
+    if (presetWriteFailed) {
+      message += "; the rule and transfer changes couldn't be written";
+    }
+    if (failedBatches > 0) {
+      message += `; ${failedBatches} of ${batches.length} batches failed`;
+    }
+    message += failureMessage(failures) + missingIdMessage(run.rowsWithoutId);
+
+    const errorDetails = [...batchErrors];
+    if (failures.length > 0) {
+      errorDetails.push(describeFailures(failures));
+    }
+
+    return {
+      // Only a failure if every batch failed (or there were no batches and the rule and transfer changes failed)
+      success: batchErrors.length === 0 || failedBatches < progress.completedBatches,
+      message: message,
+      errorDetails: errorDetails.length > 0 ? errorDetails.join("\n\n") : undefined,
+      changes: allChanges,
+      categories: run.categoryList,
+      failures,
+      rowsWithoutId: run.rowsWithoutId,
+    };
+  } catch (error) {
+    return {
+      ...errorResult("categorizeAllUncategorizedTransactions", error),
+      changes: [],
+      categories: [],
+      failures: [],
+    };
+  }
+}
+
+// Estimated size and cost of the requests a run would send
+export interface RunEstimate {
+  transactions: number;
+  batches: number;
+  inputTokens: number;
+  outputTokens: number;
+  // US dollars, or null if the model's prices aren't known
+  cost: number | null;
+  trimmedReferences: number;
+}
+
+export interface EstimateResult extends CategorizationResult {
+  model: string;
+  contextWindow: number;
+  // "AI Auto-Categorize" sends the first batch; "Categorize everything" sends them all
+  nextBatch: RunEstimate | null;
+  everything: RunEstimate | null;
+  warnings: string[];
+}
+
+// Estimate the tokens and cost of the next run without calling the AI.  Follow-up requests for
+// malformed responses and any reasoning tokens the model uses are not included.
+export async function estimateRun(
+  context: Excel.RequestContext,
+  scope: RunScope = {}
+): Promise<EstimateResult> {
+  const limits = getModelLimits(GPT_MODEL, CONTEXT_WINDOW);
+  const result: EstimateResult = {
+    success: true,
+    message: "",
+    model: GPT_MODEL,
+    contextWindow: limits.contextWindow,
+    nextBatch: null,
+    everything: null,
+    warnings: [],
+  };
+
+  try {
+    const run = await prepareRun(context, Number.MAX_SAFE_INTEGER, scope);
+    const batches = splitIntoBatches(run.uncategorizedTransactions);
+    if (batches.length === 0) {
+      result.message = "No uncategorized transactions need the AI";
+      return result;
+    }
+
+    const estimates = batches.map((batch) => {
+      const packed = packBatch(run, batch);
+      if (packed.overflows && result.warnings.length === 0) {
+        result.warnings.push(
+          `A batch of ${batch.length} transactions doesn't fit in the ${limits.contextWindow.toLocaleString()} token context window. Lower Max Batch Size.`
+        );
       }
+      return {
+        transactions: batch.length,
+        batches: 1,
+        inputTokens: packed.inputTokens,
+        outputTokens: packed.outputTokens,
+        cost: estimateCost(limits, packed.inputTokens, packed.outputTokens),
+        trimmedReferences: packed.trimmedReferences,
+      };
+    });
+
+    if (estimates[0].outputTokens > limits.maxOutputTokens) {
+      result.warnings.push(
+        `The response for a full batch may be longer than ${GPT_MODEL} can return. Lower Max Batch Size.`
+      );
     }
-    
-    // Limit the number of reference transactions to avoid too large requests
-    // Sort by most recent first and take up to the configured maximum
-    const limitedReferenceTransactions = categorizedTransactions
-      .slice(0, MAX_REFERENCE_TRANSACTIONS);
-    
-    // Process categories
-    const categoryValues = categoryColRange.values || [];
-    
-    const categoryList: string[] = categoryValues && categoryValues.length > 0 
-      ? categoryValues.map(row => row && row[0]).filter(Boolean)
-      : [];
-    
-    // Call AI service to get suggestions
-    let suggestedTransactions: SuggestedTransaction[] | null;
-    
-    if (AI_PROVIDER === 'gemini') {
-      suggestedTransactions = await lookupDescAndCategoryGemini(
-        uncategorizedTransactions,
-        categoryList,
-        limitedReferenceTransactions
+    if (estimates[0].trimmedReferences > 0) {
+      result.warnings.push(
+        `${estimates[0].trimmedReferences.toLocaleString()} reference transactions are left out of each batch to fit the context window.`
       );
+    }
+
+    result.nextBatch = estimates[0];
+    result.everything = estimates.reduce((total, estimate) => ({
+      transactions: total.transactions + estimate.transactions,
+      batches: total.batches + 1,
+      inputTokens: total.inputTokens + estimate.inputTokens,
+      outputTokens: total.outputTokens + estimate.outputTokens,
+      cost: total.cost === null || estimate.cost === null ? null : total.cost + estimate.cost,
+      trimmedReferences: Math.max(total.trimmedReferences, estimate.trimmedReferences),
+    }));
+    result.message = `${run.uncategorizedTransactions.length} transactions in ${batches.length} batches`;
+    return result;
+  } catch (error) {
+    return { ...result, ...errorResult("estimateRun", error) };
+  }
+}
+
+// Exactly what the next "AI Auto-Categorize" would send to the AI provider, after redaction
+export interface RequestPreview extends CategorizationResult {
+  request: CompletionRequest | null;
+  redactionEnabled: boolean;
+  redactedCount: number;
+}
+
+// Build the request for the next batch without sending it, so it can be checked before anything leaves the workbook
+export async function previewNextRequest(
+  context: Excel.RequestContext,
+  scope: RunScope = {}
+): Promise<RequestPreview> {
+  const result: RequestPreview = {
+    success: true,
+    message: "",
+    request: null,
+    redactionEnabled: REDACTION.enabled,
+    redactedCount: 0,
+  };
+
+  try {
+    const run = await prepareRun(context, MAX_BATCH_SIZE, scope);
+    if (run.uncategorizedTransactions.length === 0) {
+      result.message = "No uncategorized transactions need the AI";
+      return result;
+    }
+
+    const packed = packBatch(run, run.uncategorizedTransactions);
+    const { request, redactor } = buildCompletionRequest(
+      run.uncategorizedTransactions,
+      run.categories,
+      packed.references
+    );
+    result.request = request;
+    result.redactedCount = redactor.redactedCount;
+    result.message = `${run.uncategorizedTransactions.length} transactions and ${packed.references.length} reference transactions would be sent`;
+    return result;
+  } catch (error) {
+    return { ...result, ...errorResult("previewNextRequest", error) };
+  }
+}
+
+export interface EvaluationOptions {
+  // How many already-categorized transactions to hold out and categorize
+  sampleSize: number;
+  onProgress?: (progress: BatchProgress) => void;
+  onRetry?: (notice: RetryNotice) => void;
+  isCancelled?: () => boolean;
+}
+
+export interface EvaluationResult extends CategorizationResult {
+  accuracy?: number;
+}
+
+// Backtest the current settings: hold out a sample of already-categorized rows, categorize them with
+// the rest as references (rules first, then the AI, exactly as a normal run would) and compare the
+// suggestions with the real categories.  Nothing is written to the Transactions table; the results
+// go to a report sheet.
+export async function evaluateAccuracy(
+  context: Excel.RequestContext,
+  options: EvaluationOptions
+): Promise<EvaluationResult> {
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, rows } = await readTransactionRows(context, transactionsTable);
+    const { categoryList, categories, rules } = await loadCategoriesAndRules(context);
+
+    // Only rows with a real category from the Categories table can be scored
+    const labelled = rows
+      .filter((values) => hasTransactionId(values, columns))
+      .map((values) => ({ values, transactionId: String(values[columns.idColIndex]) }))
+      .filter(({ values }) => {
+        const category = values[columns.categoryColIndex];
+        return (
+          values[columns.origDescColIndex] &&
+          category &&
+          category !== FALLBACK_CATEGORY &&
+          categoryList.includes(category)
+        );
+      });
+    if (labelled.length < 2) {
+      return { success: false, message: "Not enough categorized transactions to evaluate" };
+    }
+
+    // Always leave at least one row behind as a reference
+    const sample = sampleItems(labelled, Math.min(options.sampleSize, labelled.length - 1));
+    const heldOutIds = new Set(sample.map((row) => row.transactionId));
+    const expectedById = new Map(
+      sample.map((row) => [row.transactionId, row.values[columns.categoryColIndex] as string])
+    );
+
+    const run: PreparedRun = {
+      columns,
+      categoryList,
+      categories,
+      ruleChanges: [],
+      transferChanges: [],
+      uncategorizedTransactions: [],
+      idToRowValues: {},
+      categorizedTransactions: labelled
+        .filter((row) => !heldOutIds.has(row.transactionId))
+        .map((row) => rowToCategorizedTransaction(row.values, columns)),
+      rowsWithoutId: 0,
+    };
+
+    const outcomes: EvaluationOutcome[] = [];
+    for (const row of sample) {
+      const transaction = rowToTransaction(row.values, row.transactionId, columns);
+      const rule = findMatchingRule(transaction, rules);
+      if (rule) {
+        outcomes.push({
+          transaction_id: row.transactionId,
+          original_description: transaction.original_description,
+          expected: expectedById.get(row.transactionId)!,
+          predicted: rule.category,
+          source: "rule",
+          reason: describeRule(rule),
+        });
+      } else {
+        run.uncategorizedTransactions.push(transaction);
+        run.idToRowValues[row.transactionId] = row.values;
+      }
+    }
+
+    const batches = splitIntoBatches(run.uncategorizedTransactions);
+    const progress: BatchProgress = {
+      completedBatches: 0,
+      totalBatches: batches.length,
+      processedTransactions: 0,
+      totalTransactions: run.uncategorizedTransactions.length,
+    };
+    options.onProgress?.({ ...progress });
+
+    for (const batch of batches) {
+      if (options.isCancelled?.()) break;
+
+      let changes: ProposedChange[] = [];
+      let failures: RowFailure[];
+      try {
+        ({ changes, failures } = await suggestBatch(run, batch, options.onRetry));
+      } catch (error) {
+        // Score the whole batch as unanswered rather than abandoning the evaluation
+        const reason = error instanceof Error ? error.message : String(error);
+        failures = batch.map((t) => ({ transaction_id: String(t.transaction_id), reason }));
+      }
+
+      for (const change of changes) {
+        outcomes.push({
+          transaction_id: change.transaction_id,
+          original_description: change.original_description,
+          expected: expectedById.get(change.transaction_id)!,
+          predicted: change.suggested_category,
+          source: "ai",
+          confidence: change.confidence,
+          reason: change.reason,
+        });
+      }
+      for (const failure of failures) {
+        outcomes.push({
+          transaction_id: failure.transaction_id,
+          original_description: run.idToRowValues[failure.transaction_id][columns.origDescColIndex],
+          expected: expectedById.get(failure.transaction_id)!,
+          predicted: null,
+          source: "failed",
+          reason: failure.reason,
+        });
+      }
+
+      progress.completedBatches++;
+      progress.processedTransactions += batch.length;
+      options.onProgress?.({ ...progress });
+    }
+
+    const cancelled = progress.completedBatches < batches.length;
+    const report = buildEvaluationReport(outcomes);
+    await writeEvaluationReport(context, report, [
+      ["Evaluated", new Date().toLocaleString()],
+      ["Provider", getProvider(AI_PROVIDER).name],
+      ["Model", GPT_MODEL],
+      ["Reference transactions available", run.categorizedTransactions.length],
+      ["Max reference transactions", MAX_REFERENCE_TRANSACTIONS],
+      ["Max batch size", MAX_BATCH_SIZE],
+      ["Update descriptions", UPDATE_DESCRIPTIONS ? "Yes" : "No"],
+      [
+        "Confidence threshold",
+        CONFIDENCE_THRESHOLD > 0
+          ? `${Math.round(CONFIDENCE_THRESHOLD * 100)}% (${LOW_CONFIDENCE_ACTION})`
+          : "Off",
+      ],
+      ["Cancelled early", cancelled ? "Yes" : "No"],
+    ]);
+
+    let message = `Accuracy ${(report.accuracy * 100).toFixed(1)}% (${report.correct} of ${report.total} correct). See the ${EVALUATION_SHEET_NAME} sheet.`;
+    if (cancelled) {
+      message = `Cancelled after ${progress.completedBatches} of ${batches.length} batches. ${message}`;
+    }
+    return { success: true, message, accuracy: report.accuracy };
+  } catch (error) {
+    return errorResult("evaluateAccuracy", error);
+  }
+}
+
+// A transaction that isn't a row of the Transactions table, such as the arguments of the AICATEGORY custom function
+export interface StandaloneTransaction {
+  description: string;
+  amount?: number;
+  institution?: string;
+}
+
+// The category suggested for a standalone transaction, or why there isn't one
+export interface CategorySuggestion {
+  category?: string;
+  failure?: string;
+}
+
+// Standalone transactions are turned into rows with this layout so they go through the same batch code as table rows
+const STANDALONE_COLUMNS: ColumnIndices = {
+  idColIndex: 0,
+  origDescColIndex: 1,
+  descColIndex: -1,
+  categoryColIndex: -1,
+  aiTouchedColIndex: -1,
+  ruleTouchedColIndex: -1,
+  institutionColIndex: 3,
+  amountColIndex: 2,
+  dateColIndex: -1,
+  aiConfidenceColIndex: -1,
+  aiReasonColIndex: -1,
+  noteColIndex: -1,
+  duplicateColIndex: -1,
+};
+
+// Categorized rows of the Transactions table, if there is one, for use as references.  Workbooks that
+// aren't laid out like a Tiller sheet simply get no references.
+async function loadReferenceTransactions(
+  context: Excel.RequestContext
+): Promise<CategorizedTransaction[]> {
+  const transactionsTable = context.workbook.tables.getItemOrNullObject(
+    COLUMN_MAPPING.transactionsTable
+  );
+  await context.sync();
+  if (transactionsTable.isNullObject) {
+    return [];
+  }
+
+  let table: TransactionRows;
+  try {
+    table = await readTransactionRows(context, transactionsTable);
+  } catch (error) {
+    console.warn("Not using the Transactions table for references:", error);
+    return [];
+  }
+  const { columns, rows } = table;
+  return rows
+    .filter((row) => row[columns.origDescColIndex] && row[columns.categoryColIndex])
+    .map((row) => rowToCategorizedTransaction(row, columns));
+}
+
+// Suggest a category for each of a list of transactions from outside the Transactions table, in the
+// same order.  Rules are applied first, then the rest are sent to the AI in batches with the categorized
+// rows of the Transactions table as references.  Nothing is written to the workbook.
+export async function suggestCategories(
+  context: Excel.RequestContext,
+  transactions: StandaloneTransaction[]
+): Promise<CategorySuggestion[]> {
+  const { categoryList, categories, rules } = await loadCategoriesAndRules(context);
+  const run: PreparedRun = {
+    columns: STANDALONE_COLUMNS,
+    categoryList,
+    categories,
+    ruleChanges: [],
+    transferChanges: [],
+    uncategorizedTransactions: [],
+    idToRowValues: {},
+    categorizedTransactions: await loadReferenceTransactions(context),
+    rowsWithoutId: 0,
+  };
+
+  const results: CategorySuggestion[] = transactions.map(() => ({}));
+  transactions.forEach((t, index) => {
+    const id = `standalone-${index}`;
+    const values = [id, t.description, t.amount ?? "", t.institution];
+    const transaction = rowToTransaction(values, id, STANDALONE_COLUMNS);
+
+    const rule = findMatchingRule(transaction, rules);
+    if (rule) {
+      results[index].category = rule.category;
     } else {
-      suggestedTransactions = await lookupDescAndCategoryOpenAI(
-        uncategorizedTransactions,
-        categoryList,
-        limitedReferenceTransactions
+      run.uncategorizedTransactions.push(transaction);
+      run.idToRowValues[transaction.transaction_id] = values;
+    }
+  });
+
+  const indexById = (id: string) => Number(id.slice("standalone-".length));
+  for (const batch of splitIntoBatches(run.uncategorizedTransactions)) {
+    const { changes, failures } = await suggestBatch(run, batch);
+    changes.forEach(
+      (change) => (results[indexById(change.transaction_id)].category = change.suggested_category)
+    );
+    failures.forEach(
+      (failure) => (results[indexById(failure.transaction_id)].failure = failure.reason)
+    );
+  }
+
+  return results;
+}
+
+// The Transactions table with each Transaction ID's row, for writing to
+interface IndexedTransactionRows extends TransactionRows {
+  rowIndexById: { [key: string]: number };
+}
+
+async function readIndexedTransactionRows(
+  context: Excel.RequestContext
+): Promise<IndexedTransactionRows> {
+  const table = await readTransactionRows(
+    context,
+    context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable)
+  );
+  return { ...table, rowIndexById: buildRowIndexById(table.rows, table.columns) };
+}
+
+// The table as read earlier if its headers and Transaction IDs are still where they were, or read afresh if not.
+// Only the IDs are read to check, which is much less than reading the table again.
+async function refreshIfMoved(
+  context: Excel.RequestContext,
+  table: IndexedTransactionRows
+): Promise<IndexedTransactionRows> {
+  const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+  const headerRange = transactionsTable.getHeaderRowRange().load("values");
+  const dataBodyRange = transactionsTable.getDataBodyRange().load(["rowIndex", "rowCount"]);
+  await context.sync();
+
+  const { idColIndex } = table.columns;
+  const sameShape =
+    dataBodyRange.rowIndex === table.firstRowIndex &&
+    dataBodyRange.rowCount === table.rows.length &&
+    headerRange.values[0].length === table.headers.length &&
+    headerRange.values[0].every((header, index) => header === table.headers[index]);
+  if (sameShape) {
+    const ids = await readColumns(
+      context,
+      dataBodyRange,
+      dataBodyRange.rowCount,
+      table.headers.length,
+      [idColIndex]
+    );
+    if (ids.every((row, index) => row[idColIndex] === table.rows[index][idColIndex])) {
+      return table;
+    }
+  }
+  return readIndexedTransactionRows(context);
+}
+
+// Write changes to the Transactions table, finding each row by Transaction ID, and return what was needed to undo them.
+// The table is read first unless it is passed in, as "Categorize everything" does to read it only once per run.
+async function writeChanges(
+  context: Excel.RequestContext,
+  changes: ProposedChange[],
+  table?: IndexedTransactionRows
+): Promise<{ updatedCount: number; undoRecords: UndoRecord[] }> {
+  const { columns, dataBodyRange, rows, rowIndexById } =
+    table || (await readIndexedTransactionRows(context));
+  const {
+    descColIndex,
+    categoryColIndex,
+    aiTouchedColIndex,
+    ruleTouchedColIndex,
+    aiConfidenceColIndex,
+    aiReasonColIndex,
+    noteColIndex,
+  } = columns;
+  const touchedDate = currentExcelDate();
+  const undoRecords: UndoRecord[] = [];
+  // Values are written together at the end, as blocks of consecutive rows
+  const writes = new CellWrites();
+
+  let updatedCount = 0;
+
+  for (const change of changes) {
+    const rowIndex = rowIndexById[change.transaction_id];
+    if (rowIndex === undefined) {
+      console.warn(
+        `Transaction ${change.transaction_id} not found in ${COLUMN_MAPPING.transactionsTable} table`
       );
+      continue;
     }
-    
-    if (!suggestedTransactions) {
-      return { success: false, message: "Failed to get suggestions from AI provider" };
+
+    // Remember the exact prior values so this run can be undone
+    const priorValues = rows[rowIndex];
+    // The fallback category is already a signal to look again, so it isn't highlighted as well
+    const highlight =
+      (change.low_confidence === true || !!change.sign_mismatch) &&
+      change.suggested_category !== FALLBACK_CATEGORY;
+    const undoRecord: UndoRecord = {
+      transaction_id: change.transaction_id,
+      highlighted: highlight,
+    };
+    undoRecords.push(undoRecord);
+
+    // Only update description if it was changed
+    if (change.suggested_description !== change.current_description) {
+      undoRecord.description = priorValues[descColIndex];
+      writes.set(rowIndex, descColIndex, change.suggested_description);
     }
-    
-    // Process suggestions and update cells directly
-    let updatedCount = 0;
-        
-    for (const suggestion of suggestedTransactions) {
-      if (!suggestion || !suggestion.transaction_id) continue;
-      
-      const rowRange = idToRowRange[suggestion.transaction_id];
-      
-      if (rowRange) {
-        // Validate category
-        let category = suggestion.category;
-        if (!categoryList.includes(category)) {
-          category = FALLBACK_CATEGORY;
-        }
-        
-        // Create individual cell updates for this row
-        
-        // Only update description if the setting is enabled
-        if (UPDATE_DESCRIPTIONS) {
-          rowRange.getCell(0,descColIndex).values = [[suggestion.updated_description]];
-        }
-        
-        // Always update category
-        rowRange.getCell(0,categoryColIndex).values = [[category]];
-        
-        // Always update AI Touched timestamp with Excel's numeric date value
-        if (aiTouchedColIndex !== -1) {
-          // Convert to Excel numeric date (days since 1900-01-01)
-          // Excel stores dates as days since 1900-01-01 with the decimal portion representing time
-          const date = new Date();
-          const excelDate = 25569 + (date.getTime() / (24 * 60 * 60 * 1000));
-          
-          rowRange.getCell(0,aiTouchedColIndex).values = [[excelDate]];
-        }
-        
-        updatedCount++;
+
+    // Always update category
+    undoRecord.category = priorValues[categoryColIndex];
+    writes.set(rowIndex, categoryColIndex, change.suggested_category);
+    if (highlight) {
+      writes.fill(rowIndex, categoryColIndex, LOW_CONFIDENCE_FILL);
+    }
+
+    // Record why the AI chose the category, if the table has somewhere to put it
+    if (change.confidence !== undefined && aiConfidenceColIndex !== -1) {
+      undoRecord.aiConfidence = priorValues[aiConfidenceColIndex];
+      writes.set(rowIndex, aiConfidenceColIndex, change.confidence);
+    }
+    if (change.reason !== undefined && aiReasonColIndex !== -1) {
+      undoRecord.aiReason = priorValues[aiReasonColIndex];
+      writes.set(rowIndex, aiReasonColIndex, change.reason);
+    }
+
+    // Link the two sides of a transfer, keeping any note that was already there
+    if (change.note && noteColIndex !== -1) {
+      const priorNote = String(priorValues[noteColIndex] ?? "").trim();
+      undoRecord.note = priorValues[noteColIndex];
+      writes.set(rowIndex, noteColIndex, priorNote ? `${priorNote}; ${change.note}` : change.note);
+    }
+
+    // Always update the AI Touched (or Rule Touched, for rule matches and transfers) timestamp with Excel's numeric date value
+    if (change.source === "ai" && aiTouchedColIndex !== -1) {
+      undoRecord.aiTouched = priorValues[aiTouchedColIndex];
+      writes.set(rowIndex, aiTouchedColIndex, touchedDate);
+    } else if (change.source === "manual") {
+      // A category the user chose isn't stamped, and anything an earlier AI run left is cleared so the
+      // row isn't taken for the AI's
+      if (aiTouchedColIndex !== -1 && priorValues[aiTouchedColIndex] !== "") {
+        undoRecord.aiTouched = priorValues[aiTouchedColIndex];
+        writes.set(rowIndex, aiTouchedColIndex, "");
+      }
+      if (aiConfidenceColIndex !== -1 && priorValues[aiConfidenceColIndex] !== "") {
+        undoRecord.aiConfidence = priorValues[aiConfidenceColIndex];
+        writes.set(rowIndex, aiConfidenceColIndex, "");
       }
+      if (aiReasonColIndex !== -1 && priorValues[aiReasonColIndex] !== "") {
+        undoRecord.aiReason = priorValues[aiReasonColIndex];
+        writes.set(rowIndex, aiReasonColIndex, "");
+      }
+    } else if (change.source !== "ai" && ruleTouchedColIndex !== -1) {
+      undoRecord.ruleTouched = priorValues[ruleTouchedColIndex];
+      writes.set(rowIndex, ruleTouchedColIndex, touchedDate);
     }
-    await context.sync();
-    
-    // Apply all updates
+
+    updatedCount++;
+  }
+  await writes.write(context, dataBodyRange);
+
+  return { updatedCount, undoRecords };
+}
+
+// Write (previously reviewed) changes to the Transactions table
+export async function applyCategorizationChanges(
+  context: Excel.RequestContext,
+  changes: ProposedChange[]
+): Promise<CategorizationResult> {
+  try {
+    const { updatedCount, undoRecords } = await writeChanges(context, changes);
+
     if (updatedCount > 0) {
-      // Apply each cell update directly using cell addresses
+      setLastRunUndo(undoRecords);
       return { success: true, message: `Updated ${updatedCount} transactions` };
     } else {
       return { success: true, message: `No transactions needed updating` };
     }
   } catch (error) {
-    console.error("Error in categorizeUncategorizedTransactions:", error);
-    // Capture detailed error information
-    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-    const errorStack = error instanceof Error && error.stack ? error.stack : "";
-    const errorDetails = `${errorMessage}\n\n${errorStack}`;
-    
-    return { 
-      success: false, 
-      message: errorMessage,
-      errorDetails: errorDetails
+    return errorResult("applyCategorizationChanges", error);
+  }
+}
+
+// Main function to categorize transactions, writing every suggestion without review
+export async function categorizeUncategorizedTransactions(
+  context: Excel.RequestContext,
+  options: RunOptions = {}
+): Promise<CategorizationResult> {
+  const suggestions = await getCategorizationSuggestions(context, options);
+  if (!suggestions.success || suggestions.changes.length === 0) {
+    const { success, message, errorDetails } = suggestions;
+    return { success, message, errorDetails };
+  }
+
+  const result = await applyCategorizationChanges(context, suggestions.changes);
+  if (result.success && (suggestions.failures.length > 0 || suggestions.rowsWithoutId)) {
+    return {
+      ...result,
+      message:
+        result.message +
+        failureMessage(suggestions.failures) +
+        missingIdMessage(suggestions.rowsWithoutId ?? 0),
+      errorDetails: suggestions.errorDetails,
+    };
+  }
+  return result;
+}
+
+// A transaction as shown when confirming duplicates
+export interface DuplicateTransaction extends DuplicateCandidate {
+  description: string;
+  category: string;
+}
+
+export interface DuplicateSearchResult extends CategorizationResult {
+  groups: DuplicateGroup<DuplicateTransaction>[];
+}
+
+// A confirmed duplicate, and the copy of it that is kept
+export interface DuplicateMark {
+  transaction_id: string;
+  duplicate_of: string;
+}
+
+// Look for transactions delivered more than once (see duplicateDetection) anywhere in the Transactions table,
+// without changing anything.  Rows already flagged or given the duplicate category are left out.
+export async function findDuplicates(
+  context: Excel.RequestContext
+): Promise<DuplicateSearchResult> {
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, rows } = await readTransactionRows(context, transactionsTable);
+    const {
+      idColIndex,
+      origDescColIndex,
+      descColIndex,
+      categoryColIndex,
+      amountColIndex,
+      dateColIndex,
+      duplicateColIndex,
+    } = columns;
+    if (amountColIndex === -1 || dateColIndex === -1) {
+      return {
+        success: false,
+        message: `Finding duplicates needs the Amount and Date columns of the ${COLUMN_MAPPING.transactionsTable} table. Check the column mapping in settings.`,
+        groups: [],
+      };
+    }
+
+    const transactions: DuplicateTransaction[] = [];
+    rows.forEach((values) => {
+      const category = values[categoryColIndex] || "";
+      if (!values[origDescColIndex] || (duplicateColIndex !== -1 && values[duplicateColIndex]))
+        return;
+      if (DUPLICATE_CATEGORY && category === DUPLICATE_CATEGORY) return;
+      if (!hasTransactionId(values, columns)) return;
+      transactions.push({
+        ...rowToTransaction(values, values[idColIndex], columns),
+        description: values[descColIndex] || "",
+        category,
+      });
+    });
+
+    const groups = findDuplicateGroups(transactions, DUPLICATE_WINDOW_DAYS);
+    const copies = groups.reduce((sum, g) => sum + g.transactions.length - 1, 0);
+    return {
+      success: true,
+      message:
+        groups.length > 0
+          ? `Found ${groups.length} possible duplicates (${copies} extra copies)`
+          : "No duplicate transactions found",
+      groups,
     };
+  } catch (error) {
+    return { ...errorResult("findDuplicates", error), groups: [] };
+  }
+}
+
+// Mark confirmed duplicates: each gets a note in the Duplicate column naming the copy that is kept, and the
+// duplicate category if one is set, so they drop out of categorization and totals.  Can be undone like a run.
+export async function markDuplicates(
+  context: Excel.RequestContext,
+  marks: DuplicateMark[]
+): Promise<CategorizationResult> {
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, dataBodyRange, rows } = await readTransactionRows(context, transactionsTable);
+    const { categoryColIndex, duplicateColIndex } = columns;
+    if (duplicateColIndex === -1 && !DUPLICATE_CATEGORY) {
+      return {
+        success: false,
+        message: `Add a "${COLUMN_MAPPING.columns.duplicate || "Duplicate"}" column to the ${COLUMN_MAPPING.transactionsTable} table or choose a duplicate category in settings, so duplicates can be marked`,
+      };
+    }
+    if (DUPLICATE_CATEGORY) {
+      const { categoryList } = await loadCategoriesAndRules(context);
+      if (!categoryList.includes(DUPLICATE_CATEGORY)) {
+        return {
+          success: false,
+          message: `The duplicate category "${DUPLICATE_CATEGORY}" is not in the ${COLUMN_MAPPING.categoriesTable} table`,
+        };
+      }
+    }
+
+    const rowIndexById = buildRowIndexById(rows, columns);
+    const undoRecords: UndoRecord[] = [];
+    const writes = new CellWrites();
+    for (const mark of marks) {
+      const rowIndex = rowIndexById[mark.transaction_id];
+      if (rowIndex === undefined) {
+        console.warn(
+          `Transaction ${mark.transaction_id} not found in ${COLUMN_MAPPING.transactionsTable} table`
+        );
+        continue;
+      }
+
+      const priorValues = rows[rowIndex];
+      const undoRecord: UndoRecord = { transaction_id: mark.transaction_id };
+      undoRecords.push(undoRecord);
+
+      if (duplicateColIndex !== -1) {
+        undoRecord.duplicate = priorValues[duplicateColIndex];
+        writes.set(rowIndex, duplicateColIndex, duplicateFlag(mark.duplicate_of));
+      }
+      if (DUPLICATE_CATEGORY) {
+        undoRecord.category = priorValues[categoryColIndex];
+        writes.set(rowIndex, categoryColIndex, DUPLICATE_CATEGORY);
+      }
+    }
+    await writes.write(context, dataBodyRange);
+
+    if (undoRecords.length === 0) {
+      return { success: true, message: "No transactions needed marking" };
+    }
+    setLastRunUndo(undoRecords);
+    return { success: true, message: `Marked ${undoRecords.length} duplicate transactions` };
+  } catch (error) {
+    return errorResult("markDuplicates", error);
   }
-}
\ No newline at end of file
+}
+
+// Write the Subscriptions report: recurring charges found in the whole transaction history.  Transfers
+// between accounts and rows marked as duplicates are left out, so neither shows up as a subscription.
+export async function findSubscriptions(
+  context: Excel.RequestContext
+): Promise<CategorizationResult> {
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, rows } = await readTransactionRows(context, transactionsTable);
+    const {
+      idColIndex,
+      origDescColIndex,
+      descColIndex,
+      categoryColIndex,
+      amountColIndex,
+      dateColIndex,
+      duplicateColIndex,
+    } = columns;
+    if (amountColIndex === -1 || dateColIndex === -1) {
+      return {
+        success: false,
+        message: `Finding subscriptions needs the Amount and Date columns of the ${COLUMN_MAPPING.transactionsTable} table. Check the column mapping in settings.`,
+      };
+    }
+
+    const transactions: RecurringCandidate[] = [];
+    rows.forEach((values) => {
+      const category = values[categoryColIndex] || "";
+      if (duplicateColIndex !== -1 && values[duplicateColIndex]) return;
+      if (
+        (TRANSFER_CATEGORY && category === TRANSFER_CATEGORY) ||
+        (DUPLICATE_CATEGORY && category === DUPLICATE_CATEGORY)
+      )
+        return;
+      if (!hasTransactionId(values, columns)) return;
+      transactions.push({
+        ...rowToTransaction(values, values[idColIndex], columns),
+        original_description: values[origDescColIndex] || "",
+        description: values[descColIndex] || "",
+        category,
+      });
+    });
+
+    const today = toDayNumber(new Date().toISOString().slice(0, 10))!;
+    const charges = findRecurringCharges(transactions, today);
+    if (charges.length === 0) {
+      return { success: true, message: "No recurring charges found" };
+    }
+    await writeSubscriptionsReport(context, charges);
+
+    const active = charges.filter((c) => !c.lapsed).length;
+    return {
+      success: true,
+      message: `Found ${charges.length} recurring charges (${active} still expected). See the ${SUBSCRIPTIONS_SHEET_NAME} sheet.`,
+    };
+  } catch (error) {
+    return errorResult("findSubscriptions", error);
+  }
+}
+
+// New categories suggested by the AI, waiting for the user to approve
+export interface NewCategoriesResult extends CategorizationResult {
+  proposals: CategoryProposal[];
+  // The existing categories, so the user can see when a renamed proposal matches one
+  categories: string[];
+}
+
+// Ask the AI which categories are missing from the Categories table, judging by the transactions that ended up
+// in the fallback category.  Nothing is written to the workbook; see applyNewCategories.
+export async function suggestNewCategories(
+  context: Excel.RequestContext,
+  options: { onRetry?: (notice: RetryNotice) => void } = {}
+): Promise<NewCategoriesResult> {
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, rows } = await readTransactionRows(context, transactionsTable);
+    const { idColIndex, origDescColIndex, categoryColIndex, duplicateColIndex } = columns;
+    const fallbackTransactions: Transaction[] = [];
+    rows.forEach((values) => {
+      if (values[categoryColIndex] !== FALLBACK_CATEGORY || !values[origDescColIndex]) return;
+      if (duplicateColIndex !== -1 && values[duplicateColIndex]) return;
+      if (!hasTransactionId(values, columns)) return;
+      fallbackTransactions.push(rowToTransaction(values, values[idColIndex], columns));
+    });
+    if (fallbackTransactions.length < MIN_TRANSACTIONS_TO_ANALYZE) {
+      return {
+        success: true,
+        message: `Only ${fallbackTransactions.length} transactions are in "${FALLBACK_CATEGORY}", too few to suggest new categories`,
+        proposals: [],
+        categories: [],
+      };
+    }
+
+    const { categoryList, categories } = await loadCategoriesAndRules(context);
+    const clusters = clusterTransactions(fallbackTransactions);
+    const redactor = new Redactor(REDACTION);
+    const request: CompletionRequest = {
+      systemPrompt: generateNewCategoriesPrompt(categories),
+      payload: {
+        clusters: clusters.map((cluster) => ({
+          cluster_id: cluster.cluster_id,
+          counterparty: redactor.redact(cluster.counterparty),
+          transaction_count: cluster.transactions.length,
+          total_amount:
+            Math.round(cluster.transactions.reduce((sum, t) => sum + (t.amount || 0), 0) * 100) /
+            100,
+          examples: clusterExamples(cluster).map((example) => redactor.redact(example)),
+        })),
+      },
+      responseSchema: { name: "proposed_categories", schema: CATEGORY_PROPOSALS_RESPONSE_SCHEMA },
+    };
+
+    const clusteredIds = clusters.flatMap((cluster) =>
+      cluster.transactions.map((t) => String(t.transaction_id))
+    );
+    const responseText = await sendCompletion(
+      request,
+      clusteredIds,
+      estimateOutputTokens(clusters.length),
+      options.onRetry
+    );
+    const { proposals, warnings } = validateCategoryProposals(
+      getProvider(AI_PROVIDER).parseResponse(responseText),
+      clusters,
+      categoryList
+    );
+    warnings.forEach((warning) => console.warn(`Proposed category ignored: ${warning}`));
+
+    const restored = proposals.map((proposal) => ({
+      ...proposal,
+      name: redactor.restore(proposal.name),
+      group: redactor.restore(proposal.group),
+      reason: redactor.restore(proposal.reason),
+    }));
+    const covered = restored.reduce((sum, p) => sum + p.transactionIds.length, 0);
+    return {
+      success: true,
+      message:
+        restored.length > 0
+          ? `Suggested ${restored.length} new categories covering ${covered} of the ${fallbackTransactions.length} transactions in "${FALLBACK_CATEGORY}"`
+          : `No new categories suggested for the ${fallbackTransactions.length} transactions in "${FALLBACK_CATEGORY}"`,
+      proposals: restored,
+      categories: categoryList,
+    };
+  } catch (error) {
+    return { ...errorResult("suggestNewCategories", error), proposals: [], categories: [] };
+  }
+}
+
+// Add approved categories to the Categories table (with their group and type, if the table has those columns)
+// and give them to the transactions they cover.  A name that is already a category isn't added again, but its
+// transactions still get it.  Only transactions still in the fallback category are changed.  Undo puts the
+// transactions back; the new categories stay in the table.
+export async function applyNewCategories(
+  context: Excel.RequestContext,
+  proposals: CategoryProposal[]
+): Promise<CategorizationResult> {
+  try {
+    const categoriesTable = context.workbook.tables.getItem(COLUMN_MAPPING.categoriesTable);
+    const categoryHeaderRange = categoriesTable.getHeaderRowRange().load("values");
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, dataBodyRange, rows } = await readTransactionRows(context, transactionsTable);
+
+    const { categoryList } = await loadCategoriesAndRules(context);
+    const existingByName = new Map(categoryList.map((name) => [String(name).toLowerCase(), name]));
+    const categoryHeaders = categoryHeaderRange.values[0];
+    const nameColIndex = Math.max(columnIndex(categoryHeaders, COLUMN_MAPPING.categoriesColumn), 0);
+    const groupColIndex = columnIndex(categoryHeaders, COLUMN_MAPPING.categoryGroupColumn);
+    const typeColIndex = columnIndex(categoryHeaders, COLUMN_MAPPING.categoryTypeColumn);
+
+    const newRows: any[][] = [];
+    const categoryByTransaction = new Map<string, string>();
+    for (const proposal of proposals) {
+      const name = proposal.name.trim();
+      if (!name) continue;
+      let category = existingByName.get(name.toLowerCase());
+      if (!category) {
+        category = name;
+        existingByName.set(name.toLowerCase(), name);
+        const row = categoryHeaders.map(() => "");
+        row[nameColIndex] = name;
+        if (groupColIndex !== -1) row[groupColIndex] = proposal.group || "";
+        if (typeColIndex !== -1) row[typeColIndex] = proposal.type || "";
+        newRows.push(row);
+      }
+      proposal.transactionIds.forEach((id) => categoryByTransaction.set(id, category!));
+    }
+    if (newRows.length > 0) {
+      categoriesTable.rows.add(undefined, newRows);
+    }
+
+    const { categoryColIndex } = columns;
+    const rowIndexById = buildRowIndexById(rows, columns);
+    const undoRecords: UndoRecord[] = [];
+    const writes = new CellWrites();
+    categoryByTransaction.forEach((category, transactionId) => {
+      const rowIndex = rowIndexById[transactionId];
+      if (rowIndex === undefined) {
+        console.warn(
+          `Transaction ${transactionId} not found in ${COLUMN_MAPPING.transactionsTable} table`
+        );
+        return;
+      }
+      const priorValues = rows[rowIndex];
+      // Categorized by hand since the suggestions were made
+      if (priorValues[categoryColIndex] !== FALLBACK_CATEGORY) return;
+      undoRecords.push({ transaction_id: transactionId, category: priorValues[categoryColIndex] });
+      writes.set(rowIndex, categoryColIndex, category);
+    });
+    await writes.write(context, dataBodyRange);
+
+    if (undoRecords.length > 0) {
+      setLastRunUndo(undoRecords);
+    }
+    return {
+      success: true,
+      message: `Added ${newRows.length} categories and categorized ${undoRecords.length} transactions`,
+    };
+  } catch (error) {
+    return errorResult("applyNewCategories", error);
+  }
+}
+
+// Put back the prior values of the cells the last run wrote (of the Category, Description, AI Touched, Rule Touched,
+// AI Confidence, AI Reason, Note and Duplicate columns), and remove any low confidence highlighting it added.
+// Rows are found by Transaction ID, so this still works after the table has been sorted or filtered.
+export async function undoLastRun(context: Excel.RequestContext): Promise<CategorizationResult> {
+  if (!lastRunUndo || lastRunUndo.length === 0) {
+    return { success: false, message: "There is no categorization run to undo" };
+  }
+
+  try {
+    const transactionsTable = context.workbook.tables.getItem(COLUMN_MAPPING.transactionsTable);
+    const { columns, dataBodyRange, rows } = await readTransactionRows(context, transactionsTable);
+    const {
+      descColIndex,
+      categoryColIndex,
+      aiTouchedColIndex,
+      ruleTouchedColIndex,
+      aiConfidenceColIndex,
+      aiReasonColIndex,
+      noteColIndex,
+      duplicateColIndex,
+    } = columns;
+    const rowIndexById = buildRowIndexById(rows, columns);
+    const writes = new CellWrites();
+
+    let restoredCount = 0;
+    const missingIds: string[] = [];
+
+    for (const record of lastRunUndo) {
+      const rowIndex = rowIndexById[record.transaction_id];
+      if (rowIndex === undefined) {
+        missingIds.push(record.transaction_id);
+        continue;
+      }
+
+      if (record.description !== undefined) {
+        writes.set(rowIndex, descColIndex, record.description);
+      }
+      if (record.category !== undefined) {
+        writes.set(rowIndex, categoryColIndex, record.category);
+      }
+      if (record.highlighted) {
+        writes.fill(rowIndex, categoryColIndex, null);
+      }
+      if (aiTouchedColIndex !== -1 && record.aiTouched !== undefined) {
+        writes.set(rowIndex, aiTouchedColIndex, record.aiTouched);
+      }
+      if (ruleTouchedColIndex !== -1 && record.ruleTouched !== undefined) {
+        writes.set(rowIndex, ruleTouchedColIndex, record.ruleTouched);
+      }
+      if (aiConfidenceColIndex !== -1 && record.aiConfidence !== undefined) {
+        writes.set(rowIndex, aiConfidenceColIndex, record.aiConfidence);
+      }
+      if (aiReasonColIndex !== -1 && record.aiReason !== undefined) {
+        writes.set(rowIndex, aiReasonColIndex, record.aiReason);
+      }
+      if (noteColIndex !== -1 && record.note !== undefined) {
+        writes.set(rowIndex, noteColIndex, record.note);
+      }
+      if (duplicateColIndex !== -1 && record.duplicate !== undefined) {
+        writes.set(rowIndex, duplicateColIndex, record.duplicate);
+      }
+      restoredCount++;
+    }
+    await writes.write(context, dataBodyRange);
+
+    setLastRunUndo(null);
+
+    if (missingIds.length > 0) {
+      return {
+        success: true,
+        message: `Restored ${restoredCount} transactions; ${missingIds.length} could not be found`,
+        errorDetails: `Transaction IDs not found in ${COLUMN_MAPPING.transactionsTable} table:\n${missingIds.join("\n")}`,
+      };
+    }
+    return { success: true, message: `Restored ${restoredCount} transactions` };
+  } catch (error) {
+    return errorResult("undoLastRun", error);
+  }
+}
@@ -0,0 +1,155 @@
+// New category suggestions - when many transactions end up in the fallback category, the Categories
+// list is probably missing something.  The fallback transactions are grouped by counterparty, and the
+// AI is asked which new categories would cover the groups.
+
+import { counterpartyOf } from "./referenceSelection";
+
+export interface DiscoveryCandidate {
+  transaction_id: string;
+  original_description: string;
+  amount?: number;
+}
+
+// Fallback transactions with the same counterparty, sent to the AI as one item
+export interface TransactionCluster<T extends DiscoveryCandidate> {
+  cluster_id: string;
+  counterparty: string;
+  transactions: T[];
+}
+
+// A new category the AI proposed, with the transactions it would cover
+export interface CategoryProposal {
+  name: string;
+  group?: string;
+  type?: string;
+  reason: string;
+  transactionIds: string[];
+  // A few of the descriptions it would cover, to show the user
+  examples: string[];
+}
+
+// Fewer fallback transactions than this aren't worth a new category
+export const MIN_TRANSACTIONS_TO_ANALYZE = 5;
+// The largest clusters are sent; the rest are too rare to justify a category of their own
+export const MAX_CLUSTERS = 100;
+const MAX_EXAMPLES = 3;
+
+// Group transactions by counterparty (ignoring payment-method words, as the categorization prompt does),
+// largest groups first.  Transactions whose description has no significant words are left out.
+export function clusterTransactions<T extends DiscoveryCandidate>(
+  transactions: T[],
+  maxClusters: number = MAX_CLUSTERS
+): TransactionCluster<T>[] {
+  const byCounterparty = new Map<string, T[]>();
+  for (const transaction of transactions) {
+    const counterparty = counterpartyOf(transaction.original_description);
+    if (!counterparty) continue;
+    if (!byCounterparty.has(counterparty)) byCounterparty.set(counterparty, []);
+    byCounterparty.get(counterparty)!.push(transaction);
+  }
+
+  return [...byCounterparty.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .slice(0, maxClusters)
+    .map(([counterparty, members], index) => ({
+      cluster_id: `c${index + 1}`,
+      counterparty,
+      transactions: members,
+    }));
+}
+
+// Different descriptions from the cluster, for the AI and for the user
+export function clusterExamples<T extends DiscoveryCandidate>(
+  cluster: TransactionCluster<T>,
+  limit: number = MAX_EXAMPLES
+): string[] {
+  return [...new Set(cluster.transactions.map((t) => String(t.original_description)))].slice(
+    0,
+    limit
+  );
+}
+
+// JSON schema of the response, used for providers' native structured output features
+export const CATEGORY_PROPOSALS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    proposed_categories: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          group: { type: ["string", "null"] },
+          type: { type: ["string", "null"] },
+          reason: { type: "string" },
+          cluster_ids: { type: "array", items: { type: "string" } },
+        },
+        required: ["name", "group", "type", "reason", "cluster_ids"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["proposed_categories"],
+  additionalProperties: false,
+};
+
+function optionalText(value: any): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Turn the AI's response into proposals, dropping any that name an existing category (ignoring case) or
+// repeat an earlier proposal, and any cluster IDs that weren't sent or were already claimed.  Why each
+// proposal was dropped is returned as a warning.
+export function validateCategoryProposals<T extends DiscoveryCandidate>(
+  parsed: any,
+  clusters: TransactionCluster<T>[],
+  existingCategories: string[]
+): { proposals: CategoryProposal[]; warnings: string[] } {
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.proposed_categories)) {
+    return { proposals: [], warnings: ["Response did not contain a proposed_categories list"] };
+  }
+
+  const clustersById = new Map(clusters.map((cluster) => [cluster.cluster_id, cluster]));
+  const takenNames = new Set(existingCategories.map((name) => name.toLowerCase()));
+  const claimed = new Set<string>();
+  const proposals: CategoryProposal[] = [];
+  const warnings: string[] = [];
+
+  for (const item of parsed.proposed_categories) {
+    const name = optionalText(item?.name);
+    if (!name) {
+      warnings.push("A proposal had no name");
+      continue;
+    }
+    if (takenNames.has(name.toLowerCase())) {
+      warnings.push(`"${name}" is already a category`);
+      continue;
+    }
+
+    const ids: string[] = Array.isArray(item.cluster_ids) ? item.cluster_ids.map(String) : [];
+    const covered = ids
+      .filter((id) => clustersById.has(id) && !claimed.has(id))
+      .map((id) => clustersById.get(id)!);
+    if (covered.length === 0) {
+      warnings.push(`"${name}" didn't cover any of the transactions sent`);
+      continue;
+    }
+
+    covered.forEach((cluster) => claimed.add(cluster.cluster_id));
+    takenNames.add(name.toLowerCase());
+    proposals.push({
+      name,
+      group: optionalText(item.group),
+      type: optionalText(item.type),
+      reason: optionalText(item.reason) || "",
+      transactionIds: covered.flatMap((cluster) =>
+        cluster.transactions.map((t) => String(t.transaction_id))
+      ),
+      examples: covered.flatMap((cluster) => clusterExamples(cluster)).slice(0, MAX_EXAMPLES),
+    });
+  }
+
+  // Proposals covering the most transactions first
+  proposals.sort((a, b) => b.transactionIds.length - a.transactionIds.length);
+  return { proposals, warnings };
+}
@@ -0,0 +1,67 @@
+// Category groups and types - the optional Group and Type columns of the Categories table (as in a
+// Tiller workbook), and the check that a suggested category suits the sign of the amount.
+
+export interface CategoryInfo {
+  name: string;
+  group?: string;
+  // Income, Expense or Transfer in a Tiller workbook; anything else isn't checked
+  type?: string;
+}
+
+// What to do with AI suggestions whose category type doesn't suit the sign of the amount
+export type SignMismatchAction = "highlight" | "fallback" | "off";
+
+// Read the categories from the Categories table values.  Column indexes of -1 mean the column isn't there.
+export function readCategories(
+  rows: any[][],
+  nameColIndex: number,
+  groupColIndex: number,
+  typeColIndex: number
+): CategoryInfo[] {
+  const cell = (row: any[], index: number) =>
+    index !== -1 && row[index] ? String(row[index]).trim() : undefined;
+  return rows
+    .filter((row) => row && row[nameColIndex])
+    .map((row) => ({
+      name: row[nameColIndex],
+      group: cell(row, groupColIndex),
+      type: cell(row, typeColIndex),
+    }));
+}
+
+// Whether any category has a group or type worth telling the AI about
+export function hasGroupsOrTypes(categories: CategoryInfo[]): boolean {
+  return categories.some((c) => c.group || c.type);
+}
+
+// Why a category doesn't suit an amount, or null if it does (or can't be checked): money coming in
+// shouldn't be put in an Expense category, nor money going out in an Income category.
+// A matched reference transaction in the same category with an amount of the same sign justifies it,
+// e.g. a refund matched to an earlier refund from the same shop.
+export function signMismatch(
+  category: CategoryInfo | undefined,
+  amount: number,
+  matchedReference?: { category: string; amount: number }
+): string | null {
+  if (!category || !category.type || !isFinite(amount) || amount === 0) {
+    return null;
+  }
+
+  const type = category.type.toLowerCase();
+  let mismatch: string | null = null;
+  if (type === "expense" && amount > 0) {
+    mismatch = `Money coming in, but "${category.name}" is an Expense category`;
+  } else if (type === "income" && amount < 0) {
+    mismatch = `Money going out, but "${category.name}" is an Income category`;
+  }
+
+  if (
+    mismatch &&
+    matchedReference &&
+    matchedReference.category === category.name &&
+    Math.sign(matchedReference.amount) === Math.sign(amount)
+  ) {
+    return null;
+  }
+  return mismatch;
+}
@@ -0,0 +1,268 @@
+/* global Excel */
+
+// Logical fields of a transaction row, each of which can be mapped to any column
+export type TransactionField =
+  | "transactionId"
+  | "originalDescription"
+  | "description"
+  | "category"
+  | "date"
+  | "amount"
+  | "aiTouched"
+  | "ruleTouched"
+  | "institution"
+  | "aiConfidence"
+  | "aiReason"
+  | "note"
+  | "duplicate";
+
+// Which tables and columns hold the transactions and categories in this workbook.
+// A column name of "" means an optional field isn't present.
+export interface ColumnMapping {
+  transactionsTable: string;
+  categoriesTable: string;
+  categoriesColumn: string;
+  // Optional Group and Type columns of the Categories table
+  categoryGroupColumn: string;
+  categoryTypeColumn: string;
+  rulesTable: string;
+  columns: { [field in TransactionField]: string };
+}
+
+export interface TransactionFieldInfo {
+  field: TransactionField;
+  label: string;
+  required: boolean;
+  // Header names to look for when auto-detecting, most likely first
+  candidates: string[];
+}
+
+export const TRANSACTION_FIELDS: TransactionFieldInfo[] = [
+  {
+    field: "transactionId",
+    label: "Transaction ID",
+    required: true,
+    candidates: ["Transaction ID", "Txn ID", "ID"],
+  },
+  {
+    field: "originalDescription",
+    label: "Original description",
+    required: true,
+    candidates: [
+      "Full Description",
+      "Original Description",
+      "Bank Description",
+      "Raw Description",
+      "Memo",
+    ],
+  },
+  {
+    field: "description",
+    label: "Description",
+    required: true,
+    candidates: ["Description", "Clean Description", "Payee", "Name"],
+  },
+  { field: "category", label: "Category", required: true, candidates: ["Category"] },
+  {
+    field: "date",
+    label: "Date",
+    required: false,
+    candidates: ["Date", "Transaction Date", "Posted Date", "Posting Date"],
+  },
+  {
+    field: "amount",
+    label: "Amount",
+    required: false,
+    candidates: ["Amount", "Transaction Amount", "Value"],
+  },
+  {
+    field: "aiTouched",
+    label: "AI Touched",
+    required: false,
+    candidates: ["AI Touched", "AI Updated"],
+  },
+  {
+    field: "ruleTouched",
+    label: "Rule Touched",
+    required: false,
+    candidates: ["Rule Touched", "Rule Applied"],
+  },
+  {
+    field: "institution",
+    label: "Institution",
+    required: false,
+    candidates: ["Institution", "Bank", "Account Name", "Account"],
+  },
+  {
+    field: "aiConfidence",
+    label: "AI Confidence",
+    required: false,
+    candidates: ["AI Confidence", "Confidence"],
+  },
+  { field: "aiReason", label: "AI Reason", required: false, candidates: ["AI Reason", "Reason"] },
+  { field: "note", label: "Note", required: false, candidates: ["Note", "Notes", "Transfer Note"] },
+  {
+    field: "duplicate",
+    label: "Duplicate flag",
+    required: false,
+    candidates: ["Duplicate", "Duplicate Of", "Possible Duplicate"],
+  },
+];
+
+const CATEGORY_NAME_CANDIDATES = ["Category", "Categories", "Name"];
+const CATEGORY_GROUP_CANDIDATES = ["Group", "Category Group"];
+const CATEGORY_TYPE_CANDIDATES = ["Type", "Category Type"];
+
+// The layout of a Tiller workbook
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  transactionsTable: "Transactions",
+  categoriesTable: "Categories",
+  categoriesColumn: "Category",
+  categoryGroupColumn: "Group",
+  categoryTypeColumn: "Type",
+  rulesTable: "Rules",
+  columns: {
+    transactionId: "Transaction ID",
+    originalDescription: "Full Description",
+    description: "Description",
+    category: "Category",
+    date: "Date",
+    amount: "Amount",
+    aiTouched: "AI Touched",
+    ruleTouched: "Rule Touched",
+    institution: "Institution",
+    aiConfidence: "AI Confidence",
+    aiReason: "AI Reason",
+    note: "Note",
+    duplicate: "Duplicate",
+  },
+};
+
+export interface WorkbookTable {
+  name: string;
+  headers: string[];
+}
+
+// Compare header names ignoring case, whitespace and punctuation
+function normalizeHeader(header: string): string {
+  return String(header)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// The words of a header, split at spaces, punctuation and changes of case ("TxnID" is "txn id")
+function headerWords(header: string): string[] {
+  return String(header)
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word);
+}
+
+// Candidates too generic to find inside a longer header: "ID" would match "Paid By" or "Valid" as
+// letters and "Card ID" as a word, and "Name" would match "Account Name"
+const EXACT_ONLY_CANDIDATES = new Set(["id", "name", "value", "account", "bank", "reason"]);
+
+// Whether the candidate's words appear together, in order, among the header's words
+function containsWords(header: string[], candidate: string[]): boolean {
+  for (let start = 0; start + candidate.length <= header.length; start++) {
+    if (candidate.every((word, i) => header[start + i] === word)) return true;
+  }
+  return false;
+}
+
+// Pick the best header for each field.  Exact (normalized) matches win over partial ones, which have to
+// match whole words, and each header is used for at most one field.
+export function detectColumns(headers: string[]): { [field in TransactionField]: string } {
+  const columns = { ...DEFAULT_COLUMN_MAPPING.columns };
+  const unassigned = new Set<TransactionField>(TRANSACTION_FIELDS.map((f) => f.field));
+  const usedHeaders = new Set<string>();
+
+  const assign = (matches: (header: string, candidate: string) => boolean) => {
+    for (const fieldInfo of TRANSACTION_FIELDS) {
+      if (!unassigned.has(fieldInfo.field)) continue;
+      for (const candidate of fieldInfo.candidates) {
+        const index = headers.findIndex(
+          (h, i) => !usedHeaders.has(headers[i]) && matches(h, candidate)
+        );
+        if (index !== -1) {
+          columns[fieldInfo.field] = headers[index];
+          usedHeaders.add(headers[index]);
+          unassigned.delete(fieldInfo.field);
+          break;
+        }
+      }
+    }
+  };
+
+  assign((h, candidate) => normalizeHeader(h) === normalizeHeader(candidate));
+  assign(
+    (h, candidate) =>
+      !EXACT_ONLY_CANDIDATES.has(normalizeHeader(candidate)) &&
+      containsWords(headerWords(h), headerWords(candidate))
+  );
+
+  unassigned.forEach((field) => {
+    columns[field] = "";
+  });
+  return columns;
+}
+
+function findHeader(headers: string[], candidates: string[]): string | undefined {
+  const normalizedCandidates = candidates.map(normalizeHeader);
+  return headers.find((h) => normalizedCandidates.includes(normalizeHeader(h)));
+}
+
+// Guess the whole mapping from the tables in the workbook
+export function detectColumnMapping(tables: WorkbookTable[]): ColumnMapping {
+  const byName = (name: string) => tables.find((t) => t.name.toLowerCase() === name.toLowerCase());
+
+  // Prefer tables with the Tiller names, otherwise look for tables with likely headers
+  const transactionsTable =
+    byName(DEFAULT_COLUMN_MAPPING.transactionsTable) ||
+    tables.find((t) => {
+      const columns = detectColumns(t.headers);
+      return columns.originalDescription && columns.category;
+    });
+  const categoriesTable =
+    byName(DEFAULT_COLUMN_MAPPING.categoriesTable) ||
+    tables.find((t) => t !== transactionsTable && findHeader(t.headers, CATEGORY_NAME_CANDIDATES));
+
+  return {
+    transactionsTable: transactionsTable
+      ? transactionsTable.name
+      : DEFAULT_COLUMN_MAPPING.transactionsTable,
+    categoriesTable: categoriesTable
+      ? categoriesTable.name
+      : DEFAULT_COLUMN_MAPPING.categoriesTable,
+    categoriesColumn: categoriesTable
+      ? findHeader(categoriesTable.headers, CATEGORY_NAME_CANDIDATES) ||
+        categoriesTable.headers[0] ||
+        ""
+      : DEFAULT_COLUMN_MAPPING.categoriesColumn,
+    categoryGroupColumn: categoriesTable
+      ? findHeader(categoriesTable.headers, CATEGORY_GROUP_CANDIDATES) || ""
+      : DEFAULT_COLUMN_MAPPING.categoryGroupColumn,
+    categoryTypeColumn: categoriesTable
+      ? findHeader(categoriesTable.headers, CATEGORY_TYPE_CANDIDATES) || ""
+      : DEFAULT_COLUMN_MAPPING.categoryTypeColumn,
+    rulesTable: (byName(DEFAULT_COLUMN_MAPPING.rulesTable) || { name: "" }).name,
+    columns: transactionsTable
+      ? detectColumns(transactionsTable.headers)
+      : { ...DEFAULT_COLUMN_MAPPING.columns },
+  };
+}
+
+// Read the name and header row of every table in the workbook
+export async function getWorkbookTables(context: Excel.RequestContext): Promise<WorkbookTable[]> {
+  const tables = context.workbook.tables.load("items/name");
+  await context.sync();
+
+  const headerRanges = tables.items.map((table) => table.getHeaderRowRange().load("values"));
+  await context.sync();
+
+  return tables.items.map((table, i) => ({
+    name: table.name,
+    headers: headerRanges[i].values[0].map(String),
+  }));
+}
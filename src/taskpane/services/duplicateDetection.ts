@@ -0,0 +1,141 @@
+// Duplicate detection - finding transactions a bank feed delivered more than once, e.g. once while
+// pending and again once posted, with a slightly different description or date.
+
+import { normalizeDescription } from "./referenceSelection";
+import { toDayNumber } from "./transferDetection";
+
+export interface DuplicateCandidate {
+  transaction_id: string;
+  original_description: string;
+  amount?: number;
+  date?: any;
+  institution?: string;
+  // Already-categorized copies are the ones kept
+  category?: string;
+}
+
+export interface DuplicateGroup<T extends DuplicateCandidate> {
+  // Every copy, in date order
+  transactions: T[];
+  // The copy suggested to keep; the others would be marked as duplicates of it
+  keep: T;
+}
+
+// Descriptions count as the same when at least this share of the shorter one's words are in the other
+export const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+function normalizeInstitution(institution: string | undefined): string {
+  return String(institution || "")
+    .trim()
+    .toLowerCase();
+}
+
+// Share of the words of the shorter description that are also in the longer one, so a description
+// truncated while pending still matches the posted one.  Descriptions with no significant words
+// (only numbers, say) have to match exactly.
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeDescription(a));
+  const tokensB = new Set(normalizeDescription(b));
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    const plainA = String(a || "")
+      .trim()
+      .toLowerCase();
+    return plainA !== "" &&
+      plainA ===
+        String(b || "")
+          .trim()
+          .toLowerCase()
+      ? 1
+      : 0;
+  }
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / Math.min(tokensA.size, tokensB.size);
+}
+
+// Which copy to keep: one that is already categorized, otherwise the latest (the posted copy of a pending
+// transaction), otherwise the first in table order
+function chooseKeeper<T extends DuplicateCandidate>(transactions: T[]): T {
+  const categorized = transactions.find((t) => t.category);
+  if (categorized) {
+    return categorized;
+  }
+  return transactions.reduce((latest, t) =>
+    (toDayNumber(t.date) ?? 0) > (toDayNumber(latest.date) ?? 0) ? t : latest
+  );
+}
+
+// Group transactions with the same amount (to the cent), at the same institution when both are known,
+// dated within `windowDays` of each other and with similar descriptions.  Copies are grouped transitively,
+// so three deliveries of the same transaction make one group.  Transactions without an amount or date are
+// never grouped.  Groups are in the table order of their first transaction.
+export function findDuplicateGroups<T extends DuplicateCandidate>(
+  transactions: T[],
+  windowDays: number,
+  minSimilarity: number = MIN_DESCRIPTION_SIMILARITY
+): DuplicateGroup<T>[] {
+  // Only transactions with the same amount can be duplicates, so compare within those groups
+  const byCents = new Map<number, { transaction: T; day: number; order: number }[]>();
+  transactions.forEach((transaction, order) => {
+    const day = toDayNumber(transaction.date);
+    const amount = transaction.amount;
+    if (day === null || amount === undefined || !isFinite(amount) || amount === 0) return;
+    const cents = Math.round(amount * 100);
+    if (!byCents.has(cents)) byCents.set(cents, []);
+    byCents.get(cents)!.push({ transaction, day, order });
+  });
+
+  // Union-find over table order, so each group ends up keyed by its first transaction
+  const parent = transactions.map((_t, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  for (const group of byCents.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = group[i];
+        const b = group[j];
+        if (Math.abs(a.day - b.day) > windowDays) continue;
+        const institutionA = normalizeInstitution(a.transaction.institution);
+        const institutionB = normalizeInstitution(b.transaction.institution);
+        if (institutionA && institutionB && institutionA !== institutionB) continue;
+        if (
+          descriptionSimilarity(
+            a.transaction.original_description,
+            b.transaction.original_description
+          ) < minSimilarity
+        )
+          continue;
+        union(a.order, b.order);
+      }
+    }
+  }
+
+  const members = new Map<number, T[]>();
+  transactions.forEach((transaction, i) => {
+    const root = find(i);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(transaction);
+  });
+
+  const groups: DuplicateGroup<T>[] = [];
+  for (const [, group] of [...members.entries()].sort((a, b) => a[0] - b[0])) {
+    if (group.length < 2) continue;
+    const byDate = [...group].sort(
+      (a, b) => (toDayNumber(a.date) ?? 0) - (toDayNumber(b.date) ?? 0)
+    );
+    groups.push({ transactions: byDate, keep: chooseKeeper(byDate) });
+  }
+  return groups;
+}
+
+// The text written to the duplicate flag column of a copy, pointing at the copy that was kept
+export function duplicateFlag(keptTransactionId: string): string {
+  return `Duplicate of ${keptTransactionId}`;
+}
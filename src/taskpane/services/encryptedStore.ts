@@ -0,0 +1,113 @@
+/* global crypto, indexedDB, btoa, atob, TextEncoder, TextDecoder, IDBDatabase, IDBRequest, CryptoKey */
+
+// Encryption for secrets kept in the add-in's local storage.  The AES key is made on this machine the first
+// time it's needed and kept in IndexedDB as a non-extractable CryptoKey: the add-in can use it, but it can't
+// be read out, so the stored values are useless if they are copied off the machine or read from disk.
+
+const DATABASE_NAME = "aiCategorizer";
+const KEY_STORE_NAME = "encryptionKeys";
+const ENCRYPTION_KEY_ID = "localStore";
+// AES-GCM's recommended IV length, in bytes
+const IV_LENGTH = 12;
+
+// How an encrypted value is stored
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+export function isEncryptedValue(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof value.iv === "string" &&
+    typeof value.data === "string"
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string) {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+  return requestResult(request);
+}
+
+// This machine's key, made the first time it's needed
+export async function getEncryptionKey(): Promise<CryptoKey> {
+  if (typeof indexedDB === "undefined" || typeof crypto === "undefined" || !crypto.subtle) {
+    throw new Error("This version of Office can't encrypt stored values");
+  }
+  const database = await openDatabase();
+  try {
+    const readKey = () =>
+      requestResult(
+        database.transaction(KEY_STORE_NAME).objectStore(KEY_STORE_NAME).get(ENCRYPTION_KEY_ID)
+      );
+    const existing = await readKey();
+    if (existing) {
+      return existing as CryptoKey;
+    }
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    try {
+      // add rather than put, so a key made at the same time by another part of the add-in isn't replaced
+      await requestResult(
+        database
+          .transaction(KEY_STORE_NAME, "readwrite")
+          .objectStore(KEY_STORE_NAME)
+          .add(key, ENCRYPTION_KEY_ID)
+      );
+      return key;
+    } catch {
+      return (await readKey()) as CryptoKey;
+    }
+  } finally {
+    database.close();
+  }
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  const value: EncryptedValue = { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  return JSON.stringify(value);
+}
+
+// Fails if the value was encrypted with another key or has been tampered with
+export async function decryptText(key: CryptoKey, stored: string): Promise<string> {
+  const value = JSON.parse(stored);
+  if (!isEncryptedValue(value)) {
+    throw new Error("Stored value is not encrypted");
+  }
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  );
+  return new TextDecoder().decode(data);
+}
@@ -0,0 +1,210 @@
+/* global Excel */
+
+// Scoring for "Evaluate accuracy": already-categorized rows are put through the categorization
+// pipeline as if they were uncategorized, and the suggestions compared with the real categories.
+
+import { replaceSheet, writeBlock } from "./reportSheet";
+
+// What happened to one held-out transaction
+export interface EvaluationOutcome {
+  transaction_id: string;
+  original_description: string;
+  expected: string;
+  // null when the AI gave no usable suggestion
+  predicted: string | null;
+  source: "ai" | "rule" | "failed";
+  confidence?: number;
+  reason?: string;
+}
+
+export interface CategoryStats {
+  category: string;
+  // Held-out transactions that really are in this category
+  count: number;
+  correct: number;
+  // Held-out transactions that were suggested this category, rightly or wrongly
+  predictedCount: number;
+}
+
+export interface EvaluationReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  ruleMatched: number;
+  failed: number;
+  categoryStats: CategoryStats[];
+  // counts[i][j] is how many transactions in categories[i] were suggested categories[j]
+  confusion: { categories: string[]; counts: number[][] };
+  worstMisses: EvaluationOutcome[];
+}
+
+export const EVALUATION_SHEET_NAME = "AI Evaluation";
+const NO_SUGGESTION = "(no suggestion)";
+const MAX_WORST_MISSES = 25;
+// Fixed so that runs with different models or settings are scored on the same transactions
+const SAMPLE_SEED = 20250423;
+
+// Small seeded PRNG (mulberry32), so the sample is the same from run to run
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pick count items at random, always the same ones for the same list
+export function sampleItems<T>(items: T[], count: number, seed: number = SAMPLE_SEED): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  const sampleSize = Math.min(count, shuffled.length);
+  // Partial Fisher-Yates shuffle; only the first sampleSize positions are needed
+  for (let i = 0; i < sampleSize; i++) {
+    const j = i + Math.floor(random() * (shuffled.length - i));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, sampleSize);
+}
+
+function isCorrect(outcome: EvaluationOutcome): boolean {
+  return outcome.predicted === outcome.expected;
+}
+
+export function buildEvaluationReport(outcomes: EvaluationOutcome[]): EvaluationReport {
+  const statsByCategory = new Map<string, CategoryStats>();
+  const statsFor = (category: string) => {
+    let stats = statsByCategory.get(category);
+    if (!stats) {
+      stats = { category, count: 0, correct: 0, predictedCount: 0 };
+      statsByCategory.set(category, stats);
+    }
+    return stats;
+  };
+
+  for (const outcome of outcomes) {
+    const expected = statsFor(outcome.expected);
+    expected.count++;
+    if (isCorrect(outcome)) expected.correct++;
+    if (outcome.predicted !== null) statsFor(outcome.predicted).predictedCount++;
+  }
+
+  // Most common categories first; ones that were only ever suggested go last
+  const categoryStats = Array.from(statsByCategory.values()).sort(
+    (a, b) =>
+      b.count - a.count ||
+      b.predictedCount - a.predictedCount ||
+      a.category.localeCompare(b.category)
+  );
+
+  const categories = categoryStats.map((s) => s.category);
+  if (outcomes.some((o) => o.predicted === null)) {
+    categories.push(NO_SUGGESTION);
+  }
+  const positions = new Map(categories.map((category, index) => [category, index]));
+  const counts = categories.map(() => categories.map(() => 0));
+  for (const outcome of outcomes) {
+    counts[positions.get(outcome.expected)!][positions.get(outcome.predicted ?? NO_SUGGESTION)!]++;
+  }
+
+  // The misses the AI was most sure of are the most worrying, so they come first
+  const worstMisses = outcomes
+    .filter((o) => !isCorrect(o))
+    .sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1))
+    .slice(0, MAX_WORST_MISSES);
+
+  const correct = outcomes.filter(isCorrect).length;
+  return {
+    total: outcomes.length,
+    correct,
+    accuracy: outcomes.length > 0 ? correct / outcomes.length : 0,
+    ruleMatched: outcomes.filter((o) => o.source === "rule").length,
+    failed: outcomes.filter((o) => o.source === "failed").length,
+    categoryStats,
+    confusion: { categories, counts },
+    worstMisses,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | string {
+  return denominator > 0 ? numerator / denominator : "";
+}
+
+// Write the report to its own sheet, replacing the one from any previous evaluation
+export async function writeEvaluationReport(
+  context: Excel.RequestContext,
+  report: EvaluationReport,
+  details: [string, string | number][]
+): Promise<void> {
+  const sheet = await replaceSheet(context, EVALUATION_SHEET_NAME);
+
+  const summary: any[][] = [
+    ["Measure", "Value"],
+    ...details,
+    ["Transactions evaluated", report.total],
+    ["Correct", report.correct],
+    ["Accuracy", report.accuracy],
+    ["Categorized by rules", report.ruleMatched],
+    ["No usable suggestion", report.failed],
+  ];
+  let row = writeBlock(sheet, 0, "Summary", summary);
+  sheet.getRangeByIndexes(1 + summary.findIndex((r) => r[0] === "Accuracy"), 1, 1, 1).numberFormat =
+    [["0.0%"]];
+
+  const categoryStart = row;
+  row = writeBlock(sheet, row, "By category", [
+    ["Category", "Transactions", "Correct", "Recall", "Times suggested", "Precision"],
+    ...report.categoryStats.map((s) => [
+      s.category,
+      s.count,
+      s.correct,
+      ratio(s.correct, s.count),
+      s.predictedCount,
+      ratio(s.correct, s.predictedCount),
+    ]),
+  ]);
+  if (report.categoryStats.length > 0) {
+    sheet.getRangeByIndexes(categoryStart + 2, 3, report.categoryStats.length, 1).numberFormat =
+      report.categoryStats.map(() => ["0%"]);
+    sheet.getRangeByIndexes(categoryStart + 2, 5, report.categoryStats.length, 1).numberFormat =
+      report.categoryStats.map(() => ["0%"]);
+  }
+
+  const { categories, counts } = report.confusion;
+  row = writeBlock(
+    sheet,
+    row,
+    "Confusion matrix (rows are the real category, columns the suggested one)",
+    [
+      ["", ...categories],
+      ...categories.map((category, i) => [category, ...counts[i].map((count) => count || "")]),
+    ]
+  );
+
+  writeBlock(sheet, row, "Worst misses (most confident first)", [
+    [
+      "Transaction ID",
+      "Full Description",
+      "Real Category",
+      "Suggested Category",
+      "Source",
+      "Confidence",
+      "Reason",
+    ],
+    ...report.worstMisses.map((o) => [
+      o.transaction_id,
+      o.original_description,
+      o.expected,
+      o.predicted ?? NO_SUGGESTION,
+      o.source,
+      o.confidence ?? "",
+      o.reason ?? "",
+    ]),
+  ]);
+
+  sheet.getUsedRange().format.autofitColumns();
+  sheet.activate();
+  await context.sync();
+}
@@ -0,0 +1,142 @@
+/* global console */
+
+// API interaction history - a rolling log of the requests sent to AI providers and what came back,
+// kept in the add-in's local storage so the Debug panel still has it after the workbook is reopened.
+
+import { TokenUsage } from "./providers";
+import { getLocalItem, removeLocalItem, setLocalItem } from "./localStore";
+
+export interface ApiInteraction {
+  id: string;
+  timestamp: string;
+  provider: string;
+  model: string;
+  // Time from sending the request to getting the response (or error)
+  latencyMs: number;
+  usage?: TokenUsage;
+  success: boolean;
+  // The transactions the request asked about
+  transactionIds: string[];
+  request: any;
+  response?: any;
+  error?: any;
+  // Set when the request and response were dropped to keep the stored history within its size limit
+  truncated?: boolean;
+}
+
+const HISTORY_STORAGE_KEY = "autocat.apiHistory";
+export const MAX_HISTORY_ENTRIES = 100;
+// Local storage is usually limited to about 5MB, and requests with thousands of reference transactions are big
+const MAX_STORED_CHARS = 2000000;
+
+// Newest first
+let history: ApiInteraction[] = [];
+let nextId = 1;
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${nextId++}`;
+}
+
+// Keep the newest entries that fit: entries over the size limit keep their details (provider, timing,
+// usage, transaction IDs) but lose their request and response.
+function capHistory(entries: ApiInteraction[]): ApiInteraction[] {
+  const capped: ApiInteraction[] = [];
+  let size = 0;
+  for (const entry of entries.slice(0, MAX_HISTORY_ENTRIES)) {
+    let kept = entry;
+    let entrySize = JSON.stringify(kept).length;
+    if (size + entrySize > MAX_STORED_CHARS && !entry.truncated) {
+      kept = { ...entry, request: undefined, response: undefined, truncated: true };
+      entrySize = JSON.stringify(kept).length;
+    }
+    if (size + entrySize > MAX_STORED_CHARS) {
+      break;
+    }
+    capped.push(kept);
+    size += entrySize;
+  }
+  return capped;
+}
+
+// Read once, when first needed
+let loading: Promise<void> | null = null;
+
+async function readStoredHistory(): Promise<void> {
+  try {
+    const stored = await getLocalItem(HISTORY_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) {
+      // Keep any interactions recorded while the stored ones were being read
+      const ids = new Set(history.map((entry) => entry.id));
+      history = capHistory([
+        ...history,
+        ...parsed.filter((entry: ApiInteraction) => !ids.has(entry.id)),
+      ]);
+    }
+  } catch (error) {
+    console.warn("Could not load the API interaction history:", error);
+  }
+}
+
+export async function loadInteractionHistory(): Promise<ApiInteraction[]> {
+  if (!loading) {
+    loading = readStoredHistory();
+  }
+  await loading;
+  return history;
+}
+
+async function saveHistory(): Promise<void> {
+  // Otherwise an interaction recorded before the stored history was read would replace it
+  await loadInteractionHistory();
+  try {
+    await setLocalItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    // The history is only for debugging, so failing to store it shouldn't fail a run
+    console.warn("Could not store the API interaction history:", error);
+  }
+}
+
+export function recordInteraction(interaction: Omit<ApiInteraction, "id">): ApiInteraction {
+  const entry: ApiInteraction = { id: newId(), ...interaction };
+  history = capHistory([entry, ...history]);
+  void saveHistory();
+  return entry;
+}
+
+// Newest first
+export function getInteractionHistory(): ApiInteraction[] {
+  return history;
+}
+
+export async function clearInteractionHistory(): Promise<void> {
+  history = [];
+  loading = Promise.resolve();
+  try {
+    await removeLocalItem(HISTORY_STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not clear the stored API interaction history:", error);
+  }
+}
+
+// Entries mentioning every word of the query anywhere: provider, model, transaction IDs, the
+// request, the response or the error.  Ignores case.
+export function searchInteractions(entries: ApiInteraction[], query: string): ApiInteraction[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return entries;
+  }
+  return entries.filter((entry) => {
+    const text = JSON.stringify(entry).toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+// The history as a JSON document, oldest first, for saving to a file
+export function exportInteractionHistory(entries: ApiInteraction[] = history): string {
+  return JSON.stringify(
+    { exported: new Date().toISOString(), interactions: [...entries].reverse() },
+    null,
+    2
+  );
+}
@@ -0,0 +1,25 @@
+/* global OfficeRuntime, window */
+
+// The add-in's local storage on this machine: OfficeRuntime storage where the host has it (shared with
+// the custom functions), the browser's otherwise.  Nothing stored here travels with the workbook.
+
+export async function getLocalItem(key: string): Promise<string | null> {
+  if (typeof OfficeRuntime !== "undefined" && OfficeRuntime.storage) {
+    return OfficeRuntime.storage.getItem(key);
+  }
+  return window.localStorage.getItem(key);
+}
+
+export async function setLocalItem(key: string, value: string): Promise<void> {
+  if (typeof OfficeRuntime !== "undefined" && OfficeRuntime.storage) {
+    return OfficeRuntime.storage.setItem(key, value);
+  }
+  window.localStorage.setItem(key, value);
+}
+
+export async function removeLocalItem(key: string): Promise<void> {
+  if (typeof OfficeRuntime !== "undefined" && OfficeRuntime.storage) {
+    return OfficeRuntime.storage.removeItem(key);
+  }
+  window.localStorage.removeItem(key);
+}
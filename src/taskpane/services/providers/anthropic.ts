@@ -0,0 +1,96 @@
+import {
+  AIProvider,
+  CompletionRequest,
+  CompletionResponse,
+  ProviderConfig,
+  ModelOption,
+} from "./types";
+import { extractJson, fetchJson, toProviderError } from "./common";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+const MAX_OUTPUT_TOKENS = 8192;
+
+function anthropicHeaders(apiKey: string): { [key: string]: string } {
+  return {
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+    // Required for calling the API straight from the task pane
+    "anthropic-dangerous-direct-browser-access": "true",
+    "Content-Type": "application/json",
+  };
+}
+
+export const anthropicProvider: AIProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  requiresApiKey: true,
+
+  async complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse> {
+    const anthropicRequest: { [key: string]: any } = {
+      model: config.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system: request.systemPrompt,
+      messages: [{ role: "user", content: JSON.stringify(request.payload) }],
+    };
+    if (request.responseSchema) {
+      // Anthropic's structured output is a forced tool call whose input follows the schema
+      anthropicRequest.tools = [
+        {
+          name: request.responseSchema.name,
+          description: "Return the result",
+          input_schema: request.responseSchema.schema,
+        },
+      ];
+      anthropicRequest.tool_choice = { type: "tool", name: request.responseSchema.name };
+    }
+    const requestForDebug = {
+      ...anthropicRequest,
+      messages: [{ ...anthropicRequest.messages[0], content: request.payload }],
+    };
+
+    const data = await fetchJson("Anthropic", `${ANTHROPIC_API_URL}/messages`, {
+      method: "POST",
+      headers: anthropicHeaders(config.apiKey),
+      body: JSON.stringify(anthropicRequest),
+    });
+
+    const usage = data.usage
+      ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+      : undefined;
+
+    const toolUse = (data.content || []).find((block: any) => block.type === "tool_use");
+    if (toolUse) {
+      return { text: JSON.stringify(toolUse.input), requestForDebug, usage };
+    }
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+    if (!text) {
+      throw new Error("No response from Anthropic API");
+    }
+    return { text, requestForDebug, usage };
+  },
+
+  parseResponse(text: string): any {
+    return extractJson(text);
+  },
+
+  async listModels(config: ProviderConfig): Promise<ModelOption[]> {
+    const data = await fetchJson("Anthropic", `${ANTHROPIC_API_URL}/models`, {
+      method: "GET",
+      headers: anthropicHeaders(config.apiKey),
+    });
+
+    return data.data.map((model: any) => ({
+      id: model.id,
+      name: model.display_name || model.id,
+    }));
+  },
+
+  normalizeError(error: unknown) {
+    return toProviderError("Anthropic", error);
+  },
+};
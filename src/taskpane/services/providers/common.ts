@@ -0,0 +1,62 @@
+/* global fetch, RequestInit */
+
+import { ProviderError } from "./types";
+
+// Pull the JSON object out of a response that may be wrapped in markdown code fences or other text
+export function extractJson(text: string): any {
+  const jsonStart = text.indexOf("{");
+  const jsonEnd = text.lastIndexOf("}") + 1;
+  if (jsonStart === -1 || jsonEnd === 0) {
+    throw new Error("No JSON object found in the response");
+  }
+  return JSON.parse(text.substring(jsonStart, jsonEnd));
+}
+
+// Milliseconds to wait from a Retry-After header, which is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : Math.max(0, time - Date.now());
+}
+
+// Wrap any thrown value in a ProviderError, keeping the original stack for the error details
+export function toProviderError(
+  provider: string,
+  error: unknown,
+  statusCode?: number,
+  retryAfterMs?: number,
+  errorCode?: string
+): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const providerError = new ProviderError(provider, message, statusCode, retryAfterMs, errorCode);
+  if (error instanceof Error && error.stack) {
+    providerError.stack = error.stack;
+  }
+  return providerError;
+}
+
+// Fetch a JSON endpoint, turning non-OK responses into a ProviderError with the response body
+export async function fetchJson(provider: string, url: string, init: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    throw new ProviderError(
+      provider,
+      `(${response.status}): ${responseText}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  return JSON.parse(responseText);
+}
@@ -0,0 +1,117 @@
+import { GenerateContentParameters, GoogleGenAI, Schema, Type } from "@google/genai";
+import {
+  AIProvider,
+  CompletionRequest,
+  CompletionResponse,
+  ProviderConfig,
+  ModelOption,
+} from "./types";
+import { extractJson, fetchJson, parseRetryAfter, toProviderError } from "./common";
+
+// Client is re-created whenever the key changes
+let genAI: GoogleGenAI | null = null;
+let genAIKey = "";
+
+function getClient(apiKey: string): GoogleGenAI {
+  if (!genAI || genAIKey !== apiKey) {
+    genAI = new GoogleGenAI({ apiKey });
+    genAIKey = apiKey;
+  }
+  return genAI;
+}
+
+// Gemini takes an OpenAPI-style schema rather than JSON schema, so convert the subset we use
+function toGeminiSchema(schema: any): Schema {
+  let type = schema.type;
+  let nullable = false;
+  if (Array.isArray(type)) {
+    nullable = type.includes("null");
+    type = type.find((t: string) => t !== "null");
+  }
+  const result: Schema = { type: String(type).toUpperCase() as Type };
+  if (nullable) result.nullable = true;
+  if (schema.properties) {
+    result.properties = {};
+    for (const [name, property] of Object.entries(schema.properties)) {
+      result.properties[name] = toGeminiSchema(property);
+    }
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  return result;
+}
+
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  name: "Gemini",
+  requiresApiKey: true,
+
+  async complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse> {
+    const geminiRequest: GenerateContentParameters = {
+      model: config.model,
+      contents: [
+        { role: "model", parts: [{ text: request.systemPrompt }] },
+        { role: "user", parts: [{ text: JSON.stringify(request.payload) }] },
+      ],
+    };
+    if (request.responseSchema) {
+      geminiRequest.config = {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.responseSchema.schema),
+      };
+    }
+    const requestForDebug = {
+      ...geminiRequest,
+      contents: [{ ...geminiRequest.contents[0], parts: [{ text: request.payload }] }],
+    };
+
+    const response = await getClient(config.apiKey).models.generateContent(geminiRequest);
+    const usage = response.usageMetadata
+      ? {
+          inputTokens: response.usageMetadata.promptTokenCount || 0,
+          outputTokens: response.usageMetadata.candidatesTokenCount || 0,
+        }
+      : undefined;
+    return { text: response.text, requestForDebug, usage };
+  },
+
+  parseResponse(text: string): any {
+    // Gemini often wraps the JSON in a markdown code block
+    return extractJson(text);
+  },
+
+  async listModels(config: ProviderConfig): Promise<ModelOption[]> {
+    // Use the Google AI models.list API endpoint
+    const data = await fetchJson(
+      "Google AI",
+      "https://generativelanguage.googleapis.com/v1/models?key=" + config.apiKey,
+      {
+        method: "GET",
+      }
+    );
+
+    // Filter for Gemini models and format them
+    return data.models
+      .filter((model: any) => model.name.includes("gemini"))
+      .map((model: any) => {
+        const modelId = model.name.split("/").pop();
+        return {
+          id: modelId,
+          name: modelId.replace("gemini-", "Gemini ").replace("-", " "),
+        };
+      });
+  },
+
+  normalizeError(error: unknown) {
+    // The client only reports the status inside the message, along with any suggested retry delay ("retryDelay":"30s")
+    const statusMatch = error instanceof Error ? error.message.match(/got status: (\d+)/) : null;
+    const delayMatch =
+      error instanceof Error ? error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) : null;
+    return toProviderError(
+      "Gemini",
+      error,
+      statusMatch ? parseInt(statusMatch[1]) : undefined,
+      delayMatch ? parseRetryAfter(delayMatch[1]) : undefined
+    );
+  },
+};
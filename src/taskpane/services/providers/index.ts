@@ -0,0 +1,21 @@
+import { AIProvider, ProviderId } from "./types";
+import { openAIProvider, openAICompatibleProvider } from "./openai";
+import { geminiProvider } from "./gemini";
+import { anthropicProvider } from "./anthropic";
+
+export * from "./types";
+
+const PROVIDERS: { [id in ProviderId]: AIProvider } = {
+  openai: openAIProvider,
+  gemini: geminiProvider,
+  anthropic: anthropicProvider,
+  "openai-compatible": openAICompatibleProvider,
+};
+
+export function getProvider(id: ProviderId): AIProvider {
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${id}`);
+  }
+  return provider;
+}
@@ -0,0 +1,185 @@
+import OpenAI from "openai";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/resources";
+import {
+  AIProvider,
+  CompletionRequest,
+  CompletionResponse,
+  ProviderConfig,
+  ProviderError,
+  ModelOption,
+} from "./types";
+import { extractJson, fetchJson, parseRetryAfter, toProviderError } from "./common";
+
+// Client is re-created whenever the key or endpoint changes
+let client: OpenAI | null = null;
+let clientKey = "";
+
+function getOpenAIClient(apiKey: string, baseUrl?: string): OpenAI {
+  const key = `${apiKey}|${baseUrl || ""}`;
+  if (!client || clientKey !== key) {
+    client = new OpenAI({
+      // The SDK insists on a key, but local servers usually don't need one
+      apiKey: apiKey || "not-needed",
+      baseURL: baseUrl || undefined,
+      dangerouslyAllowBrowser: true, // Required for browser environments
+      // Retries are handled by the categorization service, so they can be shown and counted
+      maxRetries: 0,
+    });
+    clientKey = key;
+  }
+  return client;
+}
+
+// Chat completion shared by OpenAI and OpenAI-compatible endpoints
+async function completeChat(
+  config: ProviderConfig,
+  request: CompletionRequest,
+  extraParams: Partial<ChatCompletionCreateParamsNonStreaming>
+): Promise<CompletionResponse> {
+  const openAiRequest: ChatCompletionCreateParamsNonStreaming = {
+    model: config.model,
+    ...extraParams,
+    messages: [
+      {
+        role: "system",
+        content: request.systemPrompt,
+      },
+      {
+        role: "user",
+        content: JSON.stringify(request.payload),
+      },
+    ],
+  } as ChatCompletionCreateParamsNonStreaming;
+  const requestForDebug = {
+    ...openAiRequest,
+    messages: [
+      openAiRequest.messages[0],
+      { ...openAiRequest.messages[1], content: request.payload },
+    ],
+  };
+
+  const completion = await getOpenAIClient(config.apiKey, config.baseUrl).chat.completions.create(
+    openAiRequest
+  );
+
+  const text = completion.choices[0].message.content;
+  if (!text) {
+    throw new Error("No response from API");
+  }
+  const usage = completion.usage
+    ? {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+      }
+    : undefined;
+  return { text, requestForDebug, usage };
+}
+
+// The SDK's errors carry the response status, headers and error code; anything else (a network failure
+// before the SDK got a response, say) has only its message
+function normalizeOpenAIError(provider: string, error: unknown): ProviderError {
+  if (error instanceof OpenAI.APIError) {
+    return toProviderError(
+      provider,
+      error,
+      error.status,
+      parseRetryAfter(error.headers?.["retry-after"]),
+      error.code ?? undefined
+    );
+  }
+  return toProviderError(provider, error);
+}
+
+export const openAIProvider: AIProvider = {
+  id: "openai",
+  name: "OpenAI",
+  requiresApiKey: true,
+
+  complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse> {
+    return completeChat(config, request, {
+      seed: 1,
+      response_format: request.responseSchema
+        ? {
+            type: "json_schema",
+            json_schema: {
+              name: request.responseSchema.name,
+              schema: request.responseSchema.schema,
+              strict: true,
+            },
+          }
+        : { type: "json_object" },
+    });
+  },
+
+  parseResponse(text: string): any {
+    // JSON and structured output modes guarantee a bare JSON object
+    return JSON.parse(text);
+  },
+
+  async listModels(config: ProviderConfig): Promise<ModelOption[]> {
+    const data = await fetchJson("OpenAI", "https://api.openai.com/v1/models", {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    // Filter for chat models only and format them
+    return data.data
+      .filter((model: any) => model.id.includes("gpt") && !model.id.includes("instruct"))
+      .map((model: any) => ({
+        id: model.id,
+        name: model.id,
+      }));
+  },
+
+  normalizeError(error: unknown) {
+    return normalizeOpenAIError("OpenAI", error);
+  },
+};
+
+export const openAICompatibleProvider: AIProvider = {
+  id: "openai-compatible",
+  name: "OpenAI-compatible",
+  requiresApiKey: false,
+
+  complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse> {
+    if (!config.baseUrl) {
+      throw new Error("Base URL not set. Please set it in the settings panel.");
+    }
+    // Not every server supports JSON mode, so rely on the prompt and extract the JSON instead
+    return completeChat(config, request, {});
+  },
+
+  parseResponse(text: string): any {
+    return extractJson(text);
+  },
+
+  async listModels(config: ProviderConfig): Promise<ModelOption[]> {
+    if (!config.baseUrl) {
+      throw new Error("Base URL not set");
+    }
+    const headers: { [key: string]: string } = { "Content-Type": "application/json" };
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+    const data = await fetchJson(
+      "OpenAI-compatible",
+      `${config.baseUrl.replace(/\/+$/, "")}/models`,
+      {
+        method: "GET",
+        headers,
+      }
+    );
+
+    return (data.data || []).map((model: any) => ({
+      id: model.id,
+      name: model.id,
+    }));
+  },
+
+  normalizeError(error: unknown) {
+    return normalizeOpenAIError("OpenAI-compatible", error);
+  },
+};
@@ -0,0 +1,135 @@
+export type ProviderId = "openai" | "gemini" | "anthropic" | "openai-compatible";
+
+// Connection details for one provider, taken from the settings
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;
+  // Only used by providers with a configurable endpoint
+  baseUrl?: string;
+}
+
+// A prompt plus the JSON payload to send with it
+export interface CompletionRequest {
+  systemPrompt: string;
+  payload: any;
+  // JSON schema the response must follow, for providers with native structured output
+  responseSchema?: { name: string; schema: any };
+}
+
+// Tokens used by one request, as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  // The request as sent, with the payload left as an object so it's readable in the Debug panel
+  requestForDebug: any;
+  // Not every provider (or local server) reports usage
+  usage?: TokenUsage;
+}
+
+export interface ModelOption {
+  id: string;
+  name: string;
+}
+
+// An AI service that can categorize transactions
+export interface AIProvider {
+  id: ProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  // Send the prompt and payload and return the raw text of the response
+  complete(config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse>;
+  // Extract the JSON object from the response text
+  parseResponse(text: string): any;
+  listModels(config: ProviderConfig): Promise<ModelOption[]>;
+  // Turn whatever the provider's client threw into a ProviderError
+  normalizeError(error: unknown): ProviderError;
+}
+
+// What kind of failure a provider error is: worth retrying (rate limits, overloaded or unavailable
+// servers, network problems), a bad or missing API key, an exhausted quota or credit, or anything else
+export type ProviderErrorKind = "retryable" | "auth" | "quota" | "other";
+
+// Work out the kind of an error from its HTTP status, falling back to the message when there isn't one.
+// An exhausted quota or credit balance is only recognised from the provider's own error code (OpenAI's
+// insufficient_quota, Anthropic's 400 about the credit balance): Gemini's ordinary per-minute rate limit
+// also says "exceeded your current quota", and comes with a delay to wait before retrying.
+export function classifyProviderError(
+  message: string,
+  statusCode?: number,
+  retryAfterMs?: number,
+  errorCode?: string
+): ProviderErrorKind {
+  const text = message.toLowerCase();
+  if (statusCode === 429 && retryAfterMs !== undefined) {
+    return "retryable";
+  }
+  if (
+    errorCode === "insufficient_quota" ||
+    /\binsufficient_quota\b/.test(text) ||
+    (statusCode === 400 && /credit balance/.test(text))
+  ) {
+    return "quota";
+  }
+  if (
+    statusCode === 401 ||
+    statusCode === 403 ||
+    /invalid api key|api key not valid|incorrect api key|unauthorized|permission denied/.test(text)
+  ) {
+    return "auth";
+  }
+  if (statusCode === 402) {
+    return "quota";
+  }
+  if (
+    statusCode === 408 ||
+    statusCode === 409 ||
+    statusCode === 429 ||
+    (statusCode !== undefined && statusCode >= 500)
+  ) {
+    return "retryable";
+  }
+  if (
+    statusCode === undefined &&
+    /\b(429|500|502|503|504|529)\b|rate limit|too many requests|overloaded|unavailable|timed? ?out|network|failed to fetch|fetch failed|econnreset|socket hang up/.test(
+      text
+    )
+  ) {
+    return "retryable";
+  }
+  return "other";
+}
+
+// An error from a provider, with the HTTP status when there was one
+export class ProviderError extends Error {
+  provider: string;
+  statusCode?: number;
+  kind: ProviderErrorKind;
+  // How long the provider asked us to wait before retrying (from a Retry-After header or similar)
+  retryAfterMs?: number;
+  // How many attempts were made before giving up
+  attempts?: number;
+
+  // `errorCode` is the provider's own code for the error, when its client reports one separately from the message
+  constructor(
+    provider: string,
+    message: string,
+    statusCode?: number,
+    retryAfterMs?: number,
+    errorCode?: string
+  ) {
+    super(`${provider} API Error: ${message}`);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.statusCode = statusCode;
+    this.kind = classifyProviderError(message, statusCode, retryAfterMs, errorCode);
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.kind === "retryable";
+  }
+}
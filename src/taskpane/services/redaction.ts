@@ -0,0 +1,97 @@
+// PII redaction - replacing account and card numbers, phone numbers, email addresses and chosen
+// personal names in descriptions with placeholder tokens before they are sent to an AI provider,
+// and putting the original values back into what comes back.
+
+export interface RedactionOptions {
+  enabled: boolean;
+  // Names to redact wherever they appear as whole words, ignoring case
+  names: string[];
+}
+
+type RedactionKind = "EMAIL" | "PHONE" | "CARD" | "ACCOUNT" | "NAME";
+
+// Checked in this order, so that e.g. the digits of a phone number aren't taken for an account number
+const PATTERNS: { kind: RedactionKind; pattern: RegExp }[] = [
+  { kind: "EMAIL", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { kind: "PHONE", pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  // Full card numbers in groups of four, masked numbers such as "XXXXXX1234", "x1234" or "*1234", and "ending in 1234"
+  {
+    kind: "CARD",
+    pattern: /\b\d{4}(?:[\s-]\d{4}){3}\b|(?:\bx+|\*+)\s?\d{4,}\b|\bending(?:\s+in)?\s+\d{4,}\b/gi,
+  },
+  // "Acct 123456", "Account #1234" and any other long run of digits
+  { kind: "ACCOUNT", pattern: /\b(?:acct|account)\s*#?\s*\d{4,}\b|\b\d{6,}\b/gi },
+];
+
+const TOKEN_PATTERN = /\[(EMAIL|PHONE|CARD|ACCOUNT|NAME)_(\d+)\]/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Redacts text for one request.  The same value always gets the same token, e.g. "[ACCOUNT_1]",
+// so the AI can still see that two descriptions share an account number.
+export class Redactor {
+  private tokensByValue = new Map<string, string>();
+  private valuesByToken = new Map<string, string>();
+  private counts: { [kind in RedactionKind]?: number } = {};
+  private patterns: { kind: RedactionKind; pattern: RegExp }[];
+
+  constructor(private options: RedactionOptions) {
+    const names = options.names
+      .map((name) => name.trim())
+      .filter(Boolean)
+      // Longest first, so "Alice Bobson" is redacted as one name rather than "Alice" and "Bobson"
+      .sort((a, b) => b.length - a.length);
+    this.patterns =
+      names.length > 0
+        ? [
+            ...PATTERNS,
+            {
+              kind: "NAME",
+              pattern: new RegExp(`\\b(?:${names.map(escapeRegExp).join("|")})\\b`, "gi"),
+            },
+          ]
+        : PATTERNS;
+  }
+
+  // How many different values have been replaced so far
+  get redactedCount(): number {
+    return this.valuesByToken.size;
+  }
+
+  private tokenFor(kind: RedactionKind, value: string): string {
+    // Names are matched ignoring case, so "ALICE" and "Alice" are the same person
+    const key = `${kind}:${kind === "NAME" ? value.toLowerCase() : value}`;
+    let token = this.tokensByValue.get(key);
+    if (!token) {
+      this.counts[kind] = (this.counts[kind] || 0) + 1;
+      token = `[${kind}_${this.counts[kind]}]`;
+      this.tokensByValue.set(key, token);
+      this.valuesByToken.set(token, value);
+    }
+    return token;
+  }
+
+  redact<T>(text: T): T {
+    if (!this.options.enabled || typeof text !== "string" || !text) {
+      return text;
+    }
+    let redacted: string = text;
+    for (const { kind, pattern } of this.patterns) {
+      redacted = redacted.replace(pattern, (match) => this.tokenFor(kind, match));
+    }
+    return redacted as unknown as T;
+  }
+
+  // Put the original values back in place of any tokens this redactor produced
+  restore<T>(text: T): T {
+    if (typeof text !== "string" || this.valuesByToken.size === 0) {
+      return text;
+    }
+    return text.replace(
+      TOKEN_PATTERN,
+      (token) => this.valuesByToken.get(token) ?? token
+    ) as unknown as T;
+  }
+}
@@ -0,0 +1,183 @@
+// Picks the reference transactions most similar to the ones being categorized, so a large
+// ledger can send a small, relevant reference set instead of the first N rows of the table.
+
+export interface SimilarityInput {
+  transaction_id: string;
+  original_description: string;
+  amount?: number;
+  date?: any;
+  institution?: string;
+}
+
+// Words describing how money moved rather than who it moved to.  The prompt tells the model to
+// ignore these when matching, so they shouldn't count towards similarity either.
+const PAYMENT_METHOD_WORDS = new Set([
+  "zelle",
+  "paypal",
+  "venmo",
+  "payment",
+  "pmt",
+  "transfer",
+  "xfer",
+  "check",
+  "chk",
+  "ach",
+  "debit",
+  "credit",
+  "purchase",
+  "pos",
+  "card",
+  "online",
+  "mobile",
+  "deposit",
+  "withdrawal",
+  "recurring",
+  "autopay",
+  "web",
+  "id",
+  "to",
+  "from",
+  "the",
+  "of",
+  "and",
+  "for",
+  "inc",
+  "llc",
+  "co",
+  "com",
+  "www",
+]);
+
+// Weights for each part of the similarity score
+const TOKEN_WEIGHT = 3;
+const COUNTERPARTY_WEIGHT = 2;
+const INSTITUTION_WEIGHT = 1;
+const AMOUNT_WEIGHT = 1;
+
+interface Features {
+  tokens: Set<string>;
+  counterparty: string;
+  institution: string;
+  amount?: number;
+  recency: number;
+}
+
+// Lowercase, drop punctuation, numbers, masked account numbers and payment-method words
+export function normalizeDescription(description: string): string[] {
+  return String(description || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(
+      (token) =>
+        token.length > 1 &&
+        !/\d/.test(token) &&
+        !/^x+$/.test(token) &&
+        !PAYMENT_METHOD_WORDS.has(token)
+    );
+}
+
+// The first couple of significant words are usually the merchant or person, e.g. "alice bobson"
+// for "Zelle payment to Alice Bobson"
+export function counterpartyOf(description: string): string {
+  return normalizeDescription(description).slice(0, 2).join(" ");
+}
+
+// Excel dates are usually serial numbers, but may come through as strings
+function toRecency(date: any): number {
+  if (typeof date === "number") return date;
+  const parsed = Date.parse(String(date || ""));
+  return isNaN(parsed) ? 0 : parsed / (24 * 60 * 60 * 1000) + 25569;
+}
+
+function extractFeatures(transaction: SimilarityInput): Features {
+  const tokens = normalizeDescription(transaction.original_description);
+  return {
+    tokens: new Set(tokens),
+    counterparty: tokens.slice(0, 2).join(" "),
+    institution: String(transaction.institution || "")
+      .trim()
+      .toLowerCase(),
+    amount: transaction.amount,
+    recency: toRecency(transaction.date),
+  };
+}
+
+function amountCloseness(a?: number, b?: number): number {
+  if (a === undefined || b === undefined || isNaN(a) || isNaN(b)) return 0;
+  if (Math.sign(a) !== Math.sign(b)) return 0;
+  const largest = Math.max(Math.abs(a), Math.abs(b));
+  return largest === 0 ? 1 : 1 - Math.min(1, Math.abs(a - b) / largest);
+}
+
+function similarity(target: Features, reference: Features): number {
+  let shared = 0;
+  target.tokens.forEach((token) => {
+    if (reference.tokens.has(token)) shared++;
+  });
+  const union = target.tokens.size + reference.tokens.size - shared;
+  const tokenScore = union > 0 ? shared / union : 0;
+
+  // Without any description overlap, matching institution or amount alone isn't a real match
+  if (tokenScore === 0) return 0;
+
+  return (
+    TOKEN_WEIGHT * tokenScore +
+    (target.counterparty && target.counterparty === reference.counterparty
+      ? COUNTERPARTY_WEIGHT
+      : 0) +
+    (target.institution && target.institution === reference.institution ? INSTITUTION_WEIGHT : 0) +
+    AMOUNT_WEIGHT * amountCloseness(target.amount, reference.amount)
+  );
+}
+
+// Choose up to `limit` references, most useful first.  Each transaction's best matches are taken in turn
+// (so one transaction can't crowd out the others), with more recent references winning ties.  Any room
+// left over is filled with the most recent remaining references.  The order matters even when every
+// reference fits under the limit, as the least useful are the ones dropped to fit the context window.
+export function selectReferenceTransactions<T extends SimilarityInput>(
+  transactions: SimilarityInput[],
+  references: T[],
+  limit: number
+): T[] {
+  const referenceFeatures = references.map(extractFeatures);
+  const byRecency = (a: number, b: number) =>
+    referenceFeatures[b].recency - referenceFeatures[a].recency;
+
+  const rankedPerTransaction = transactions.map((transaction) => {
+    const target = extractFeatures(transaction);
+    const scored: { index: number; score: number }[] = [];
+    referenceFeatures.forEach((features, index) => {
+      const score = similarity(target, features);
+      if (score > 0) scored.push({ index, score });
+    });
+    return scored
+      .sort((a, b) => b.score - a.score || byRecency(a.index, b.index))
+      .map((s) => s.index);
+  });
+
+  const selected = new Set<number>();
+  for (let rank = 0; selected.size < limit; rank++) {
+    let anyLeft = false;
+    for (const ranked of rankedPerTransaction) {
+      if (rank < ranked.length) {
+        anyLeft = true;
+        selected.add(ranked[rank]);
+        if (selected.size >= limit) break;
+      }
+    }
+    if (!anyLeft) break;
+  }
+
+  if (selected.size < limit) {
+    const remaining = references
+      .map((_r, index) => index)
+      .filter((index) => !selected.has(index))
+      .sort(byRecency);
+    for (const index of remaining.slice(0, limit - selected.size)) {
+      selected.add(index);
+    }
+  }
+
+  return Array.from(selected).map((index) => references[index]);
+}
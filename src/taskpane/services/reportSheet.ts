@@ -0,0 +1,36 @@
+/* global Excel */
+
+// Helpers for the report sheets the add-in writes (the accuracy evaluation and the subscriptions report).
+
+// Add a fresh sheet with this name, replacing the one from any previous report
+export async function replaceSheet(
+  context: Excel.RequestContext,
+  name: string
+): Promise<Excel.Worksheet> {
+  const existing = context.workbook.worksheets.getItemOrNullObject(name);
+  await context.sync();
+  if (!existing.isNullObject) {
+    existing.delete();
+  }
+  return context.workbook.worksheets.add(name);
+}
+
+// Write a titled block of rows starting at startRow, returning the row after it (plus a blank line)
+export function writeBlock(
+  sheet: Excel.Worksheet,
+  startRow: number,
+  title: string,
+  rows: any[][]
+): number {
+  sheet.getRangeByIndexes(startRow, 0, 1, 1).values = [[title]];
+  sheet.getRangeByIndexes(startRow, 0, 1, 1).format.font.bold = true;
+  if (rows.length === 0) {
+    return startRow + 2;
+  }
+  // Excel needs a rectangular block, so pad short rows
+  const width = Math.max(...rows.map((row) => row.length));
+  const padded = rows.map((row) => [...row, ...Array(width - row.length).fill("")]);
+  sheet.getRangeByIndexes(startRow + 1, 0, padded.length, width).values = padded;
+  sheet.getRangeByIndexes(startRow + 1, 0, 1, width).format.font.bold = true;
+  return startRow + padded.length + 2;
+}
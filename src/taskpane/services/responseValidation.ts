@@ -0,0 +1,142 @@
+// The shape of each item the AI is asked to return
+export interface SuggestedTransaction {
+  transaction_id: string;
+  updated_description: string;
+  category: string;
+  matched_transaction_id?: string | null;
+  // 0 to 1, how sure the AI is of the category
+  confidence: number;
+  reason: string;
+}
+
+// A transaction the AI didn't return a usable suggestion for
+export interface RowFailure {
+  transaction_id: string;
+  original_description?: string;
+  reason: string;
+}
+
+// JSON schema of the response, used for providers' native structured output features
+export const SUGGESTIONS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    suggested_transactions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          transaction_id: { type: "string" },
+          updated_description: { type: "string" },
+          category: { type: "string" },
+          matched_transaction_id: { type: ["string", "null"] },
+          confidence: { type: "number" },
+          reason: { type: "string" },
+        },
+        required: [
+          "transaction_id",
+          "updated_description",
+          "category",
+          "matched_transaction_id",
+          "confidence",
+          "reason",
+        ],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["suggested_transactions"],
+  additionalProperties: false,
+};
+
+// Models sometimes send the confidence as a string, so accept any numeric value in range
+function parseConfidence(value: any): number | null {
+  const confidence = typeof value === "string" ? parseFloat(value) : value;
+  return typeof confidence === "number" && confidence >= 0 && confidence <= 1 ? confidence : null;
+}
+
+// Check a single item, returning why it's unusable or null if it's fine
+function itemProblem(item: any, referenceIds: Set<string>): string | null {
+  if (!item || typeof item !== "object") return "Item is not an object";
+  if (typeof item.category !== "string" || !item.category) return "Missing category";
+  if (typeof item.updated_description !== "string" || !item.updated_description)
+    return "Missing updated_description";
+  const confidence = parseConfidence(item.confidence);
+  if (confidence === null) return `confidence "${item.confidence}" is not a number from 0 to 1`;
+  if (item.reason !== undefined && item.reason !== null && typeof item.reason !== "string")
+    return "reason is not a string";
+  const matchedId = item.matched_transaction_id;
+  if (matchedId !== undefined && matchedId !== null && matchedId !== "") {
+    if (String(matchedId) === String(item.transaction_id))
+      return "matched_transaction_id refers to the transaction itself";
+    if (!referenceIds.has(String(matchedId)))
+      return `matched_transaction_id "${matchedId}" is not in the reference transactions`;
+  }
+  return null;
+}
+
+// Validate a parsed response against the transactions that were sent.  Every requested
+// transaction ends up either with a valid suggestion or with a reason it failed.
+export function validateSuggestions(
+  parsed: any,
+  requestedIds: string[],
+  referenceIds: Set<string>
+): { suggestions: SuggestedTransaction[]; failures: RowFailure[] } {
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.suggested_transactions)) {
+    return {
+      suggestions: [],
+      failures: requestedIds.map((id) => ({
+        transaction_id: id,
+        reason: "Response did not contain a suggested_transactions list",
+      })),
+    };
+  }
+
+  const requested = new Set(requestedIds.map(String));
+  const suggestionsById = new Map<string, SuggestedTransaction>();
+  const problemsById = new Map<string, string>();
+
+  for (const item of parsed.suggested_transactions) {
+    const id =
+      item && item.transaction_id !== undefined && item.transaction_id !== null
+        ? String(item.transaction_id)
+        : "";
+    // Items for IDs that weren't asked about can't be attributed to a row, so they are just dropped
+    if (!requested.has(id) || suggestionsById.has(id)) continue;
+
+    const problem = itemProblem(item, referenceIds);
+    if (problem) {
+      problemsById.set(id, problem);
+    } else {
+      problemsById.delete(id);
+      suggestionsById.set(id, {
+        transaction_id: id,
+        updated_description: item.updated_description,
+        category: item.category,
+        matched_transaction_id: item.matched_transaction_id || undefined,
+        confidence: parseConfidence(item.confidence) as number,
+        reason: item.reason || "",
+      });
+    }
+  }
+
+  const failures: RowFailure[] = [];
+  for (const id of requested) {
+    if (!suggestionsById.has(id)) {
+      failures.push({
+        transaction_id: id,
+        reason: problemsById.get(id) || "Missing from the response",
+      });
+    }
+  }
+
+  return { suggestions: Array.from(suggestionsById.values()), failures };
+}
+
+export function describeFailures(failures: RowFailure[]): string {
+  return failures
+    .map(
+      (f) =>
+        `${f.transaction_id}${f.original_description ? ` (${f.original_description})` : ""}: ${f.reason}`
+    )
+    .join("\n");
+}
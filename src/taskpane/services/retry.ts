@@ -0,0 +1,150 @@
+/* global setTimeout */
+
+// Retries with exponential backoff for provider calls that fail for reasons worth waiting out
+// (rate limits, overloaded servers, network problems), and per-minute request and token budgets
+// so runs with many batches don't hit the rate limits in the first place.
+
+import { ProviderError } from "./providers";
+
+// Shown in the task pane while a call is waiting to be (re)sent
+export interface RetryNotice {
+  provider: string;
+  // Why it is waiting: the error, or which budget is used up
+  reason: string;
+  delayMs: number;
+  // The attempt that failed, counting from 1, when this is a retry rather than a wait for the budget
+  attempt?: number;
+  maxAttempts?: number;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (notice: RetryNotice) => void;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+// A provider asking for a longer wait than this (e.g. until a daily limit resets) isn't retried
+const MAX_RETRY_AFTER_MS = 120000;
+const WINDOW_MS = 60000;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// How long to wait before the next attempt: what the provider asked for if it said, otherwise
+// exponential backoff with jitter so concurrent batches don't all retry at the same moment
+export function backoffDelay(
+  attempt: number,
+  retryAfterMs?: number,
+  baseDelayMs: number = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs: number = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+// e.g. "OpenAI: (429) Rate limit reached. Retrying in 4s (attempt 2 of 4)"
+export function describeRetry(notice: RetryNotice): string {
+  const seconds = Math.ceil(notice.delayMs / 1000);
+  if (notice.attempt === undefined) {
+    return `${notice.provider}: waiting ${seconds}s to stay within the ${notice.reason}`;
+  }
+  return `${notice.provider}: ${notice.reason}. Retrying in ${seconds}s (attempt ${notice.attempt + 1} of ${notice.maxAttempts})`;
+}
+
+// Call `send` until it succeeds, retrying retryable errors up to `maxAttempts` attempts in all.
+// Whatever is thrown is turned into a ProviderError by `toError`; the last one is rethrown with the attempt count.
+export async function withRetries<T>(
+  send: () => Promise<T>,
+  toError: (error: unknown) => ProviderError,
+  options: RetryOptions
+): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      const providerError = toError(error);
+      const tooLong =
+        providerError.retryAfterMs !== undefined && providerError.retryAfterMs > MAX_RETRY_AFTER_MS;
+      if (!providerError.retryable || tooLong || attempt >= maxAttempts) {
+        providerError.attempts = attempt;
+        throw providerError;
+      }
+      const delayMs = backoffDelay(
+        attempt,
+        providerError.retryAfterMs,
+        options.baseDelayMs,
+        options.maxDelayMs
+      );
+      options.onRetry?.({
+        provider: providerError.provider,
+        reason: providerError.message.replace(`${providerError.provider} API Error: `, ""),
+        delayMs,
+        attempt,
+        maxAttempts,
+      });
+      await sleep(delayMs);
+    }
+  }
+}
+
+// Per-minute request and token budgets over a sliding window.  0 means no limit.
+export class RateLimiter {
+  private sent: { time: number; tokens: number }[] = [];
+
+  constructor(
+    readonly requestsPerMinute: number,
+    readonly tokensPerMinute: number,
+    private now: () => number = Date.now
+  ) {}
+
+  // How long until a request of this many tokens fits in both budgets, and which budget it's waiting for
+  waitTime(tokens: number): { delayMs: number; budget?: string } {
+    const now = this.now();
+    this.sent = this.sent.filter((s) => now - s.time < WINDOW_MS);
+    // A request bigger than the whole token budget still goes out, on its own
+    if (this.sent.length === 0) {
+      return { delayMs: 0 };
+    }
+
+    let delayMs = 0;
+    let budget: string | undefined;
+    if (this.requestsPerMinute > 0 && this.sent.length >= this.requestsPerMinute) {
+      delayMs = this.sent[this.sent.length - this.requestsPerMinute].time + WINDOW_MS - now;
+      budget = "per-minute request budget";
+    }
+    if (this.tokensPerMinute > 0) {
+      let total = this.sent.reduce((sum, s) => sum + s.tokens, 0) + tokens;
+      for (let i = 0; i < this.sent.length && total > this.tokensPerMinute; i++) {
+        total -= this.sent[i].tokens;
+        const tokenDelay = this.sent[i].time + WINDOW_MS - now;
+        if (tokenDelay > delayMs) {
+          delayMs = tokenDelay;
+          budget = "per-minute token budget";
+        }
+      }
+    }
+    return { delayMs: Math.max(0, delayMs), budget };
+  }
+
+  // Wait until a request of this many tokens fits, then count it
+  async acquire(tokens: number, onWait?: (delayMs: number, budget: string) => void): Promise<void> {
+    for (;;) {
+      const { delayMs, budget } = this.waitTime(tokens);
+      if (delayMs <= 0) {
+        this.sent.push({ time: this.now(), tokens });
+        return;
+      }
+      onWait?.(delayMs, budget!);
+      await sleep(delayMs);
+    }
+  }
+}
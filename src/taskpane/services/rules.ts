@@ -0,0 +1,169 @@
+/* global Excel */
+
+export type RuleMatchType = "contains" | "regex" | "exact";
+
+// A deterministic rule from the optional Rules table, applied before anything is sent to the AI
+export interface CategorizationRule {
+  matchType: RuleMatchType;
+  pattern: string;
+  institution?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  category: string;
+  description?: string;
+  // Row number in the Rules table (1-based), used to describe which rule matched
+  ruleNumber: number;
+}
+
+// The parts of a transaction a rule can match on
+export interface RuleCandidate {
+  original_description: string;
+  amount?: number;
+  institution?: string;
+}
+
+// Rules table column names
+const MATCH_TYPE_COL_NAME = "Match Type";
+const PATTERN_COL_NAME = "Pattern";
+const INSTITUTION_COL_NAME = "Institution";
+const MIN_AMOUNT_COL_NAME = "Min Amount";
+const MAX_AMOUNT_COL_NAME = "Max Amount";
+const CATEGORY_COL_NAME = "Category";
+const DESCRIPTION_COL_NAME = "Description";
+
+function parseAmount(value: any): number | undefined {
+  if (value === "" || value === null || value === undefined) return undefined;
+  const amount = parseFloat(value);
+  return isNaN(amount) ? undefined : amount;
+}
+
+function parseMatchType(value: any): RuleMatchType | null {
+  const matchType = String(value || "contains")
+    .trim()
+    .toLowerCase();
+  return matchType === "contains" || matchType === "regex" || matchType === "exact"
+    ? matchType
+    : null;
+}
+
+// Build rules from the Rules table values.  Rows that can't be used are skipped and reported as warnings.
+export function parseRules(
+  headers: any[],
+  rows: any[][]
+): { rules: CategorizationRule[]; warnings: string[] } {
+  const col = (name: string) => headers.indexOf(name);
+  const patternColIndex = col(PATTERN_COL_NAME);
+  const categoryColIndex = col(CATEGORY_COL_NAME);
+
+  if (patternColIndex === -1 || categoryColIndex === -1) {
+    return {
+      rules: [],
+      warnings: [`Rules table needs "${PATTERN_COL_NAME}" and "${CATEGORY_COL_NAME}" columns`],
+    };
+  }
+
+  const cell = (row: any[], name: string) => (col(name) !== -1 ? row[col(name)] : undefined);
+  const rules: CategorizationRule[] = [];
+  const warnings: string[] = [];
+
+  rows.forEach((row, i) => {
+    const ruleNumber = i + 1;
+    const pattern = String(row[patternColIndex] || "");
+    const category = String(row[categoryColIndex] || "");
+    if (!pattern || !category) return;
+
+    const matchType = parseMatchType(cell(row, MATCH_TYPE_COL_NAME));
+    if (!matchType) {
+      warnings.push(`Rule ${ruleNumber}: unknown match type "${cell(row, MATCH_TYPE_COL_NAME)}"`);
+      return;
+    }
+    if (matchType === "regex") {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        warnings.push(`Rule ${ruleNumber}: invalid regular expression "${pattern}"`);
+        return;
+      }
+    }
+
+    rules.push({
+      matchType,
+      pattern,
+      institution: cell(row, INSTITUTION_COL_NAME) || undefined,
+      minAmount: parseAmount(cell(row, MIN_AMOUNT_COL_NAME)),
+      maxAmount: parseAmount(cell(row, MAX_AMOUNT_COL_NAME)),
+      category,
+      description: cell(row, DESCRIPTION_COL_NAME) || undefined,
+      ruleNumber,
+    });
+  });
+
+  return { rules, warnings };
+}
+
+function descriptionMatches(rule: CategorizationRule, description: string): boolean {
+  const text = description.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.matchType) {
+    case "exact":
+      return text === pattern;
+    case "regex":
+      return new RegExp(rule.pattern, "i").test(description);
+    default:
+      return text.includes(pattern);
+  }
+}
+
+// Return the first rule (in table order) that matches the transaction
+export function findMatchingRule(
+  transaction: RuleCandidate,
+  rules: CategorizationRule[]
+): CategorizationRule | undefined {
+  return rules.find((rule) => {
+    if (!descriptionMatches(rule, String(transaction.original_description || ""))) return false;
+    if (
+      rule.institution &&
+      String(transaction.institution || "")
+        .trim()
+        .toLowerCase() !== String(rule.institution).trim().toLowerCase()
+    )
+      return false;
+    if (
+      rule.minAmount !== undefined &&
+      (transaction.amount === undefined || transaction.amount < rule.minAmount)
+    )
+      return false;
+    if (
+      rule.maxAmount !== undefined &&
+      (transaction.amount === undefined || transaction.amount > rule.maxAmount)
+    )
+      return false;
+    return true;
+  });
+}
+
+export function describeRule(rule: CategorizationRule): string {
+  return `Rule ${rule.ruleNumber}: ${rule.matchType} "${rule.pattern}"`;
+}
+
+// Load rules from the Rules table, if the workbook has one
+export async function loadRules(
+  context: Excel.RequestContext,
+  tableName: string
+): Promise<{ rules: CategorizationRule[]; warnings: string[] }> {
+  if (!tableName) {
+    return { rules: [], warnings: [] };
+  }
+
+  const rulesTable = context.workbook.tables.getItemOrNullObject(tableName);
+  await context.sync();
+  if (rulesTable.isNullObject) {
+    return { rules: [], warnings: [] };
+  }
+
+  const headerRange = rulesTable.getHeaderRowRange().load("values");
+  const bodyRange = rulesTable.getDataBodyRange().load("values");
+  await context.sync();
+
+  return parseRules(headerRange.values[0], bodyRange.values);
+}
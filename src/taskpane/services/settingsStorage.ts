@@ -0,0 +1,287 @@
+/* global Office, console, process */
+
+import { LowConfidenceAction, setApiConfig } from "./aiCategorization";
+import { SignMismatchAction } from "./categoryTypes";
+import { ColumnMapping, DEFAULT_COLUMN_MAPPING } from "./columnMapping";
+import { ProviderConfig, ProviderId } from "./providers";
+import { decryptText, encryptText, getEncryptionKey, isEncryptedValue } from "./encryptedStore";
+import { getLocalItem, removeLocalItem, setLocalItem } from "./localStore";
+
+// All user-configurable settings shown in the task pane
+export interface ApiSettings {
+  openaiKey: string;
+  googleKey: string;
+  anthropicKey: string;
+  compatibleKey: string;
+  provider: ProviderId;
+  openaiModel: string;
+  geminiModel: string;
+  anthropicModel: string;
+  compatibleModel: string;
+  compatibleBaseUrl: string;
+  maxBatchSize: number;
+  maxReferenceTransactions: number;
+  maxConcurrentBatches: number;
+  // 0 uses the known context window for the model
+  contextWindow: number;
+  // Attempts per request when it fails with a rate limit, overload or network error
+  maxAttempts: number;
+  // Per-minute budgets to stay under the provider's rate limits; 0 means no limit
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  updateDescriptions: boolean;
+  confidenceThreshold: number;
+  lowConfidenceAction: LowConfidenceAction;
+  signMismatchAction: SignMismatchAction;
+  // "" turns transfer detection off
+  transferCategory: string;
+  transferWindowDays: number;
+  // "" only flags confirmed duplicates in the Duplicate column
+  duplicateCategory: string;
+  duplicateWindowDays: number;
+  // Replace account numbers and other personal details with placeholders before sending
+  redactPii: boolean;
+  // Comma separated personal names to redact as well
+  redactNames: string;
+  reviewBeforeWrite: boolean;
+  // How many categorized transactions "Evaluate accuracy" holds out
+  evaluationSampleSize: number;
+  rememberApiKeys: boolean;
+}
+
+// Settings stored in the workbook; API keys are never written there
+export type StoredSettings = Omit<ApiSettings, keyof StoredApiKeys | "rememberApiKeys">;
+
+export interface StoredApiKeys {
+  openaiKey: string;
+  googleKey: string;
+  anthropicKey: string;
+  compatibleKey: string;
+}
+
+// Which settings hold each provider's key and model
+export const PROVIDER_SETTINGS: {
+  [id in ProviderId]: { keyField: keyof StoredApiKeys; modelField: keyof StoredSettings };
+} = {
+  openai: { keyField: "openaiKey", modelField: "openaiModel" },
+  gemini: { keyField: "googleKey", modelField: "geminiModel" },
+  anthropic: { keyField: "anthropicKey", modelField: "anthropicModel" },
+  "openai-compatible": { keyField: "compatibleKey", modelField: "compatibleModel" },
+};
+
+// Default settings values
+export const DEFAULT_SETTINGS: StoredSettings = {
+  provider: "openai",
+  openaiModel: "gpt-4.1-mini",
+  geminiModel: "gemini-2.5-flash-preview-04-17",
+  anthropicModel: "claude-sonnet-4-5",
+  compatibleModel: "llama3.1",
+  compatibleBaseUrl: "http://localhost:11434/v1",
+  maxBatchSize: 50,
+  maxReferenceTransactions: 5000,
+  maxConcurrentBatches: 1,
+  contextWindow: 0,
+  maxAttempts: 4,
+  requestsPerMinute: 0,
+  tokensPerMinute: 0,
+  updateDescriptions: false,
+  confidenceThreshold: 0.5,
+  lowConfidenceAction: "highlight",
+  signMismatchAction: "highlight",
+  transferCategory: "Transfer",
+  transferWindowDays: 3,
+  duplicateCategory: "",
+  duplicateWindowDays: 3,
+  redactPii: false,
+  redactNames: "",
+  reviewBeforeWrite: true,
+  evaluationSampleSize: 100,
+};
+
+// Keys baked in at build time from .env
+const ENV_API_KEYS: StoredApiKeys = {
+  openaiKey: process.env.OPENAI_API_KEY || "",
+  googleKey: process.env.GOOGLE_API_KEY || "",
+  anthropicKey: process.env.ANTHROPIC_API_KEY || "",
+  compatibleKey: "",
+};
+
+const SETTINGS_KEY = "aiCategorizer.settings";
+const COLUMN_MAPPING_KEY = "aiCategorizer.columnMapping";
+const API_KEYS_STORAGE_KEY = "aiCategorizer.apiKeys";
+
+// Connection details for one provider, e.g. for listing its models
+export function providerConfigFromSettings(settings: ApiSettings, id: ProviderId): ProviderConfig {
+  return {
+    apiKey: settings[PROVIDER_SETTINGS[id].keyField],
+    model: settings[PROVIDER_SETTINGS[id].modelField] as string,
+    baseUrl: id === "openai-compatible" ? settings.compatibleBaseUrl : undefined,
+  };
+}
+
+// Convert task pane settings into the configuration used by the categorization service
+export function toApiConfig(settings: ApiSettings): Parameters<typeof setApiConfig>[0] {
+  return {
+    openaiKey: settings.openaiKey,
+    googleKey: settings.googleKey,
+    anthropicKey: settings.anthropicKey,
+    compatibleKey: settings.compatibleKey,
+    compatibleBaseUrl: settings.compatibleBaseUrl,
+    provider: settings.provider,
+    model: settings[PROVIDER_SETTINGS[settings.provider].modelField] as string,
+    maxBatchSize: settings.maxBatchSize,
+    maxReferenceTransactions: settings.maxReferenceTransactions,
+    maxConcurrentBatches: settings.maxConcurrentBatches,
+    contextWindow: settings.contextWindow,
+    maxAttempts: settings.maxAttempts,
+    requestsPerMinute: settings.requestsPerMinute,
+    tokensPerMinute: settings.tokensPerMinute,
+    updateDescriptions: settings.updateDescriptions,
+    confidenceThreshold: settings.confidenceThreshold,
+    lowConfidenceAction: settings.lowConfidenceAction,
+    signMismatchAction: settings.signMismatchAction,
+    transferCategory: settings.transferCategory,
+    transferWindowDays: settings.transferWindowDays,
+    duplicateCategory: settings.duplicateCategory,
+    duplicateWindowDays: settings.duplicateWindowDays,
+    redactPii: settings.redactPii,
+    redactNames: settings.redactNames
+      .split(/[,\n]/)
+      .map((name) => name.trim())
+      .filter(Boolean),
+  };
+}
+
+// Non-secret settings are saved with the workbook so they follow it between sessions
+export function loadStoredSettings(): Partial<StoredSettings> {
+  const stored = Office.context.document.settings.get(SETTINGS_KEY);
+  return stored && typeof stored === "object" ? stored : {};
+}
+
+export function saveStoredSettings(settings: ApiSettings): Promise<void> {
+  const toStore: StoredSettings = {
+    provider: settings.provider,
+    openaiModel: settings.openaiModel,
+    geminiModel: settings.geminiModel,
+    anthropicModel: settings.anthropicModel,
+    compatibleModel: settings.compatibleModel,
+    compatibleBaseUrl: settings.compatibleBaseUrl,
+    maxBatchSize: settings.maxBatchSize,
+    maxReferenceTransactions: settings.maxReferenceTransactions,
+    maxConcurrentBatches: settings.maxConcurrentBatches,
+    contextWindow: settings.contextWindow,
+    maxAttempts: settings.maxAttempts,
+    requestsPerMinute: settings.requestsPerMinute,
+    tokensPerMinute: settings.tokensPerMinute,
+    updateDescriptions: settings.updateDescriptions,
+    confidenceThreshold: settings.confidenceThreshold,
+    lowConfidenceAction: settings.lowConfidenceAction,
+    signMismatchAction: settings.signMismatchAction,
+    transferCategory: settings.transferCategory,
+    transferWindowDays: settings.transferWindowDays,
+    duplicateCategory: settings.duplicateCategory,
+    duplicateWindowDays: settings.duplicateWindowDays,
+    redactPii: settings.redactPii,
+    redactNames: settings.redactNames,
+    reviewBeforeWrite: settings.reviewBeforeWrite,
+    evaluationSampleSize: settings.evaluationSampleSize,
+  };
+  Office.context.document.settings.set(SETTINGS_KEY, toStore);
+  return saveDocumentSettings();
+}
+
+export function clearStoredSettings(): Promise<void> {
+  Office.context.document.settings.remove(SETTINGS_KEY);
+  return saveDocumentSettings();
+}
+
+// The column mapping describes this workbook's layout, so it is always stored per workbook
+export function loadColumnMapping(): ColumnMapping {
+  const stored = Office.context.document.settings.get(COLUMN_MAPPING_KEY);
+  if (!stored || typeof stored !== "object") {
+    return DEFAULT_COLUMN_MAPPING;
+  }
+  return {
+    ...DEFAULT_COLUMN_MAPPING,
+    ...stored,
+    columns: { ...DEFAULT_COLUMN_MAPPING.columns, ...stored.columns },
+  };
+}
+
+export function saveColumnMapping(mapping: ColumnMapping): Promise<void> {
+  Office.context.document.settings.set(COLUMN_MAPPING_KEY, mapping);
+  return saveDocumentSettings();
+}
+
+function saveDocumentSettings(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    Office.context.document.settings.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve();
+      } else {
+        reject(new Error(`Failed to save settings: ${result.error.message}`));
+      }
+    });
+  });
+}
+
+// API keys are only kept if the user opts in, and then only in the add-in's local storage on this
+// machine - never in the workbook, which may be shared.  They are encrypted with a key that can't leave
+// this machine; if that key is lost (say the browser data was cleared) the stored keys are forgotten.
+export async function loadStoredApiKeys(): Promise<StoredApiKeys | null> {
+  try {
+    const stored = await getLocalItem(API_KEYS_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    if (!isEncryptedValue(JSON.parse(stored))) {
+      // Saved in plain text by an earlier version; encrypt them now
+      const keys: StoredApiKeys = JSON.parse(stored);
+      await saveStoredApiKeys(keys);
+      return keys;
+    }
+    return JSON.parse(await decryptText(await getEncryptionKey(), stored));
+  } catch (error) {
+    console.error("Error loading stored API keys:", error);
+    return null;
+  }
+}
+
+// Fails, storing nothing, where the keys can't be encrypted
+export async function saveStoredApiKeys(keys: StoredApiKeys): Promise<void> {
+  const encrypted = await encryptText(await getEncryptionKey(), JSON.stringify(keys));
+  await setLocalItem(API_KEYS_STORAGE_KEY, encrypted);
+}
+
+export function clearStoredApiKeys(): Promise<void> {
+  return removeLocalItem(API_KEYS_STORAGE_KEY);
+}
+
+// Load stored settings and keys (falling back to defaults and .env keys) and apply them to the categorization service
+export async function loadAndApplySettings(): Promise<ApiSettings> {
+  const storedKeys = await loadStoredApiKeys();
+  const settings: ApiSettings = {
+    ...DEFAULT_SETTINGS,
+    ...loadStoredSettings(),
+    openaiKey: storedKeys?.openaiKey || ENV_API_KEYS.openaiKey,
+    googleKey: storedKeys?.googleKey || ENV_API_KEYS.googleKey,
+    anthropicKey: storedKeys?.anthropicKey || ENV_API_KEYS.anthropicKey,
+    compatibleKey: storedKeys?.compatibleKey || ENV_API_KEYS.compatibleKey,
+    rememberApiKeys: storedKeys !== null,
+  };
+
+  setApiConfig({ ...toApiConfig(settings), columnMapping: loadColumnMapping() });
+  return settings;
+}
+
+// Defaults for everything except the API keys currently in use
+export function defaultSettings(current: ApiSettings): ApiSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    openaiKey: current.openaiKey,
+    googleKey: current.googleKey,
+    anthropicKey: current.anthropicKey,
+    compatibleKey: current.compatibleKey,
+    rememberApiKeys: current.rememberApiKeys,
+  };
+}
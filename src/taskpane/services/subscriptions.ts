@@ -0,0 +1,282 @@
+/* global Excel */
+
+// Recurring charge detection - finding subscriptions and other regular payments in the transaction
+// history (the same counterparty charging a similar amount every week, month or year), for the
+// Subscriptions report.
+
+import { counterpartyOf } from "./referenceSelection";
+import { formatDayNumber, toDayNumber } from "./transferDetection";
+import { replaceSheet, writeBlock } from "./reportSheet";
+
+export interface RecurringCandidate {
+  transaction_id: string;
+  original_description: string;
+  // The cleaned-up description, when there is one; it names the merchant in the report better
+  description?: string;
+  amount?: number;
+  date?: any;
+  category?: string;
+}
+
+export interface Cadence {
+  name: string;
+  days: number;
+  // How far from `days` an interval can be and still count
+  toleranceDays: number;
+  // Calendar months between charges, for cadences that follow the calendar rather than a fixed number of days
+  months?: number;
+  perYear: number;
+  // Fewest charges needed before the cadence is believed
+  minCharges: number;
+}
+
+export const CADENCES: Cadence[] = [
+  { name: "Weekly", days: 7, toleranceDays: 1, perYear: 52, minCharges: 4 },
+  { name: "Every 2 weeks", days: 14, toleranceDays: 2, perYear: 26, minCharges: 3 },
+  { name: "Monthly", days: 30, toleranceDays: 4, months: 1, perYear: 12, minCharges: 3 },
+  { name: "Quarterly", days: 91, toleranceDays: 10, months: 3, perYear: 4, minCharges: 3 },
+  { name: "Annual", days: 365, toleranceDays: 20, months: 12, perYear: 1, minCharges: 2 },
+];
+
+export interface PriceChange {
+  // Day number of the first charge at the new price
+  date: number;
+  from: number;
+  to: number;
+}
+
+export interface RecurringCharge {
+  merchant: string;
+  category: string;
+  cadence: Cadence;
+  // Charges are reported as positive amounts
+  typicalAmount: number;
+  lastAmount: number;
+  // The last amount at this cadence, over a year
+  yearlyCost: number;
+  chargeCount: number;
+  firstDate: number;
+  lastDate: number;
+  nextDate: number;
+  // The next charge is well overdue, so it has probably been cancelled
+  lapsed: boolean;
+  priceChanges: PriceChange[];
+  transactionIds: string[];
+}
+
+export const SUBSCRIPTIONS_SHEET_NAME = "Subscriptions";
+// Amounts within this share of each other are taken to be the same charge at a (slightly) different price,
+// so a price rise doesn't split a subscription, but two plans from the same merchant aren't merged
+const MAX_PRICE_STEP = 0.25;
+// Share of the intervals between charges that have to fit the cadence, so one late or skipped charge is allowed
+const MIN_REGULAR_SHARE = 0.75;
+
+interface Charge<T> {
+  transaction: T;
+  day: number;
+  amount: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Split charges into groups of similar amounts; a step of more than MAX_PRICE_STEP between neighbouring
+// amounts starts a new group
+function splitByAmount<T>(charges: Charge<T>[]): Charge<T>[][] {
+  const byAmount = [...charges].sort((a, b) => a.amount - b.amount);
+  const bands: Charge<T>[][] = [];
+  for (const charge of byAmount) {
+    const band = bands[bands.length - 1];
+    if (
+      band &&
+      charge.amount - band[band.length - 1].amount <= band[band.length - 1].amount * MAX_PRICE_STEP
+    ) {
+      band.push(charge);
+    } else {
+      bands.push([charge]);
+    }
+  }
+  return bands;
+}
+
+// The day a cadence lands on after `day`, by calendar month where it has one
+export function nextChargeDay(day: number, cadence: Cadence): number {
+  if (!cadence.months) {
+    return day + cadence.days;
+  }
+  const date = new Date(formatDayNumber(day));
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + cadence.months, 1));
+  // Charges on the 31st fall on the last day of shorter months
+  const lastDayOfMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDayOfMonth));
+  return toDayNumber(target.toISOString().slice(0, 10))!;
+}
+
+// The cadence most of the intervals fit, if any
+function matchCadence(days: number[]): Cadence | null {
+  const intervals = days.slice(1).map((day, i) => day - days[i]);
+  for (const cadence of CADENCES) {
+    if (days.length < cadence.minCharges) continue;
+    const regular = intervals.filter(
+      (interval) => Math.abs(interval - cadence.days) <= cadence.toleranceDays
+    ).length;
+    if (regular / intervals.length >= MIN_REGULAR_SHARE) {
+      return cadence;
+    }
+  }
+  return null;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = "";
+  counts.forEach((count, value) => {
+    if (!best || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+function toRecurringCharge<T extends RecurringCandidate>(
+  charges: Charge<T>[],
+  cadence: Cadence,
+  today: number
+): RecurringCharge {
+  const last = charges[charges.length - 1];
+  const priceChanges: PriceChange[] = [];
+  charges.slice(1).forEach((charge, i) => {
+    const from = charges[i].amount;
+    if (Math.round(charge.amount * 100) !== Math.round(from * 100)) {
+      priceChanges.push({ date: charge.day, from, to: charge.amount });
+    }
+  });
+  const nextDate = nextChargeDay(last.day, cadence);
+  return {
+    merchant: last.transaction.description || last.transaction.original_description,
+    category: mostCommon(charges.map((c) => c.transaction.category || "")),
+    cadence,
+    typicalAmount: median(charges.map((c) => c.amount)),
+    lastAmount: last.amount,
+    yearlyCost: Math.round(last.amount * cadence.perYear * 100) / 100,
+    chargeCount: charges.length,
+    firstDate: charges[0].day,
+    lastDate: last.day,
+    nextDate,
+    lapsed: today > nextDate + cadence.toleranceDays,
+    priceChanges,
+    transactionIds: charges.map((c) => c.transaction.transaction_id),
+  };
+}
+
+// Find recurring charges: outgoing transactions with the same counterparty (ignoring payment-method words
+// like "Zelle" or "PayPal", as the categorization prompt does) and a similar amount, at a regular cadence.
+// Charges still expected come first, the most expensive first.  `today` is a day number, as from toDayNumber.
+export function findRecurringCharges<T extends RecurringCandidate>(
+  transactions: T[],
+  today: number
+): RecurringCharge[] {
+  const byCounterparty = new Map<string, Charge<T>[]>();
+  for (const transaction of transactions) {
+    const day = toDayNumber(transaction.date);
+    const amount = transaction.amount;
+    if (day === null || amount === undefined || !isFinite(amount) || amount >= 0) continue;
+    const counterparty = counterpartyOf(transaction.original_description);
+    if (!counterparty) continue;
+    if (!byCounterparty.has(counterparty)) byCounterparty.set(counterparty, []);
+    byCounterparty.get(counterparty)!.push({ transaction, day, amount: -amount });
+  }
+
+  const recurring: RecurringCharge[] = [];
+  for (const charges of byCounterparty.values()) {
+    for (const band of splitByAmount(charges)) {
+      const byDate = band.sort((a, b) => a.day - b.day);
+      const cadence = matchCadence(byDate.map((c) => c.day));
+      if (cadence) {
+        recurring.push(toRecurringCharge(byDate, cadence, today));
+      }
+    }
+  }
+  return recurring.sort(
+    (a, b) =>
+      Number(a.lapsed) - Number(b.lapsed) ||
+      b.yearlyCost - a.yearlyCost ||
+      a.merchant.localeCompare(b.merchant)
+  );
+}
+
+// e.g. "2025-03-01: 15.49 to 17.99"
+export function describePriceChanges(changes: PriceChange[]): string {
+  return changes
+    .map((c) => `${formatDayNumber(c.date)}: ${c.from.toFixed(2)} to ${c.to.toFixed(2)}`)
+    .join("; ");
+}
+
+// Write the report to its own sheet, replacing the one from any previous report
+export async function writeSubscriptionsReport(
+  context: Excel.RequestContext,
+  charges: RecurringCharge[]
+): Promise<void> {
+  const sheet = await replaceSheet(context, SUBSCRIPTIONS_SHEET_NAME);
+  const active = charges.filter((c) => !c.lapsed);
+
+  let row = writeBlock(sheet, 0, "Summary", [
+    ["Measure", "Value"],
+    ["Generated", new Date().toLocaleString()],
+    ["Recurring charges still expected", active.length],
+    ["Yearly cost of those", active.reduce((sum, c) => sum + c.yearlyCost, 0)],
+    ["Possibly cancelled", charges.length - active.length],
+  ]);
+
+  const listStart = row;
+  row = writeBlock(sheet, row, "Recurring charges (still expected first, most expensive first)", [
+    [
+      "Merchant",
+      "Category",
+      "Cadence",
+      "Typical Amount",
+      "Last Amount",
+      "Yearly Cost",
+      "Charges",
+      "First Charge",
+      "Last Charge",
+      "Next Expected",
+      "Status",
+      "Price Changes",
+    ],
+    ...charges.map((c) => [
+      c.merchant,
+      c.category,
+      c.cadence.name,
+      c.typicalAmount,
+      c.lastAmount,
+      c.yearlyCost,
+      c.chargeCount,
+      c.firstDate,
+      c.lastDate,
+      c.nextDate,
+      c.lapsed ? "Possibly cancelled" : "Active",
+      describePriceChanges(c.priceChanges),
+    ]),
+  ]);
+  if (charges.length > 0) {
+    sheet.getRangeByIndexes(listStart + 2, 3, charges.length, 3).numberFormat = charges.map(() => [
+      "0.00",
+      "0.00",
+      "0.00",
+    ]);
+    sheet.getRangeByIndexes(listStart + 2, 7, charges.length, 3).numberFormat = charges.map(() => [
+      "yyyy-mm-dd",
+      "yyyy-mm-dd",
+      "yyyy-mm-dd",
+    ]);
+  }
+
+  sheet.getUsedRange().format.autofitColumns();
+  sheet.activate();
+  await context.sync();
+}
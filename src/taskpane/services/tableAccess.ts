@@ -0,0 +1,207 @@
+/* global Excel */
+
+// Reading and writing large tables without a request per row: only the columns needed are read, a few
+// large blocks per sync, visibility is worked out once for the whole table, and cell updates are written
+// as blocks of consecutive rows.  Excel for the web limits the size of each request and response, so
+// no sync reads or writes more than MAX_CELLS_PER_SYNC cells.
+
+export const MAX_CELLS_PER_SYNC = 100000;
+
+// Read some columns of a range.  Rows come back at full width with only those columns filled in (the rest
+// are ""), so they can be indexed the same way as the range's own values.  Column indexes of -1 are ignored.
+export async function readColumns(
+  context: Excel.RequestContext,
+  range: Excel.Range,
+  rowCount: number,
+  columnCount: number,
+  columnIndexes: number[]
+): Promise<any[][]> {
+  const rows = Array.from({ length: rowCount }, () => new Array(columnCount).fill(""));
+  const wanted = [...new Set(columnIndexes)]
+    .filter((index) => index >= 0 && index < columnCount)
+    .sort((a, b) => a - b);
+  if (rowCount === 0 || wanted.length === 0) {
+    return rows;
+  }
+
+  let pending: { column: number; start: number; block: Excel.Range }[] = [];
+  let pendingCells = 0;
+  const flush = async () => {
+    await context.sync();
+    for (const { column, start, block } of pending) {
+      block.values.forEach((value, r) => (rows[start + r][column] = value[0]));
+    }
+    pending = [];
+    pendingCells = 0;
+  };
+
+  // Each sync is filled up to the limit, splitting a column across syncs where it doesn't fit
+  for (const column of wanted) {
+    for (let start = 0; start < rowCount;) {
+      if (pendingCells === MAX_CELLS_PER_SYNC) {
+        await flush();
+      }
+      const count = Math.min(MAX_CELLS_PER_SYNC - pendingCells, rowCount - start);
+      pending.push({
+        column,
+        start,
+        block: range
+          .getCell(start, column)
+          .getResizedRange(count - 1, 0)
+          .load("values"),
+      });
+      pendingCells += count;
+      start += count;
+    }
+  }
+  await flush();
+  return rows;
+}
+
+// Which rows of a range are visible (not hidden by a filter or by hand), from a single request for the
+// addresses of the visible cells of its first column.  `firstRowIndex` is the worksheet row of the range's first row.
+export async function visibleRows(
+  context: Excel.RequestContext,
+  range: Excel.Range,
+  rowCount: number,
+  firstRowIndex: number
+): Promise<boolean[]> {
+  const visible = new Array(rowCount).fill(false);
+  if (rowCount === 0) {
+    return visible;
+  }
+  const view = range.getColumn(0).getVisibleView().load("cellAddresses");
+  await context.sync();
+  for (const [address] of view.cellAddresses) {
+    // e.g. "Transactions!G12"; row numbers in addresses count from 1
+    const match = /(\d+)$/.exec(String(address));
+    const row = match ? Number(match[1]) - 1 - firstRowIndex : -1;
+    if (row >= 0 && row < rowCount) {
+      visible[row] = true;
+    }
+  }
+  return visible;
+}
+
+// Values for consecutive rows of one column, starting at `row`
+interface ValueBlock {
+  row: number;
+  column: number;
+  values: any[][];
+}
+
+// Cell updates to a range, collected so they can be written as blocks of consecutive rows in each column
+// rather than cell by cell.  A later update to the same cell replaces an earlier one.  Fill colours are
+// collected the same way, as blocks of consecutive rows given the same colour.
+export class CellWrites {
+  private byColumn = new Map<number, Map<number, any>>();
+  // null clears the fill
+  private fillsByColumn = new Map<number, Map<number, string | null>>();
+
+  set(row: number, column: number, value: any): void {
+    if (!this.byColumn.has(column)) this.byColumn.set(column, new Map());
+    this.byColumn.get(column)!.set(row, value);
+  }
+
+  fill(row: number, column: number, color: string | null): void {
+    if (!this.fillsByColumn.has(column)) this.fillsByColumn.set(column, new Map());
+    this.fillsByColumn.get(column)!.set(row, color);
+  }
+
+  get size(): number {
+    let size = 0;
+    this.byColumn.forEach((rows) => (size += rows.size));
+    return size;
+  }
+
+  // The updates as blocks of consecutive rows, column by column, each no bigger than MAX_CELLS_PER_SYNC
+  blocks(): ValueBlock[] {
+    return contiguousBlocks(this.byColumn, () => true).map(({ row, column, cells }) => ({
+      row,
+      column,
+      values: cells.map((value) => [value]),
+    }));
+  }
+
+  // The fills as blocks of consecutive rows with the same colour, column by column
+  fillBlocks(): { row: number; column: number; rowCount: number; color: string | null }[] {
+    return contiguousBlocks(this.fillsByColumn, (a, b) => a === b).map(
+      ({ row, column, cells }) => ({ row, column, rowCount: cells.length, color: cells[0] })
+    );
+  }
+
+  // Write the updates to the range, one request per group of blocks that fits within the request size
+  // limit (and at least one, so anything else queued on the context is sent too).  The fills go with the
+  // last request.
+  async write(context: Excel.RequestContext, range: Excel.Range): Promise<void> {
+    const requests = requestSizedGroups(this.blocks());
+    const fillBlocks = this.fillBlocks();
+
+    const sendRequest = async (index: number): Promise<void> => {
+      for (const block of requests[index]) {
+        range.getCell(block.row, block.column).getResizedRange(block.values.length - 1, 0).values =
+          block.values;
+      }
+      if (index === requests.length - 1) {
+        for (const block of fillBlocks) {
+          const fill = range.getCell(block.row, block.column).getResizedRange(block.rowCount - 1, 0)
+            .format.fill;
+          if (block.color === null) {
+            fill.clear();
+          } else {
+            fill.color = block.color;
+          }
+        }
+      }
+      await context.sync();
+      if (index + 1 < requests.length) {
+        await sendRequest(index + 1);
+      }
+    };
+    await sendRequest(0);
+  }
+}
+
+// Split blocks into groups of no more than MAX_CELLS_PER_SYNC cells, one group per request; always at least
+// one group, even if it's empty
+function requestSizedGroups(blocks: ValueBlock[]): ValueBlock[][] {
+  const groups: ValueBlock[][] = [[]];
+  let groupCells = 0;
+  for (const block of blocks) {
+    if (groupCells > 0 && groupCells + block.values.length > MAX_CELLS_PER_SYNC) {
+      groups.push([]);
+      groupCells = 0;
+    }
+    groups[groups.length - 1].push(block);
+    groupCells += block.values.length;
+  }
+  return groups;
+}
+
+// Group each column's cells into runs of consecutive rows (no longer than MAX_CELLS_PER_SYNC), starting a new
+// run wherever `sameBlock` says a cell doesn't belong with the one before it
+function contiguousBlocks<T>(
+  byColumn: Map<number, Map<number, T>>,
+  sameBlock: (previous: T, next: T) => boolean
+): { row: number; column: number; cells: T[] }[] {
+  const blocks: { row: number; column: number; cells: T[] }[] = [];
+  for (const column of [...byColumn.keys()].sort((a, b) => a - b)) {
+    const updates = byColumn.get(column)!;
+    let current: { row: number; column: number; cells: T[] } | null = null;
+    for (const row of [...updates.keys()].sort((a, b) => a - b)) {
+      const cell = updates.get(row)!;
+      if (
+        current &&
+        row === current.row + current.cells.length &&
+        current.cells.length < MAX_CELLS_PER_SYNC &&
+        sameBlock(current.cells[current.cells.length - 1], cell)
+      ) {
+        current.cells.push(cell);
+      } else {
+        current = { row, column, cells: [cell] };
+        blocks.push(current);
+      }
+    }
+  }
+  return blocks;
+}
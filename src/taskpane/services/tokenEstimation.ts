@@ -0,0 +1,165 @@
+// Rough token counting and pricing, used to size requests before they're sent.
+// There's no tokenizer in the browser for most providers, so these are estimates that
+// deliberately err on the high side.
+
+// JSON with lots of IDs and numbers tokenizes worse than prose, so assume fewer characters per token than the usual 4
+const CHARS_PER_TOKEN = 3.5;
+// A suggestion is roughly {"transaction_id":"...","updated_description":"...","category":"...",
+// "matched_transaction_id":"...","confidence":0.9,"reason":"..."}; the free-text reason is most of it,
+// and models often indent the JSON as well
+const OUTPUT_TOKENS_PER_TRANSACTION = 90;
+const OUTPUT_TOKENS_OVERHEAD = 20;
+// Keep this fraction of the context window free, since the estimates are only approximate
+const CONTEXT_SAFETY_MARGIN = 0.1;
+
+export interface ModelLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+  // US dollars per million tokens; unknown for local and unrecognised models
+  inputCostPerMillion?: number;
+  outputCostPerMillion?: number;
+}
+
+// Published limits and list prices, as of late 2025.  Model names are matched by prefix,
+// so dated versions like "gpt-4.1-mini-2025-04-14" pick up the entry for "gpt-4.1-mini".
+const KNOWN_MODELS: { [prefix: string]: ModelLimits } = {
+  "gpt-4.1": {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    inputCostPerMillion: 2,
+    outputCostPerMillion: 8,
+  },
+  "gpt-4.1-mini": {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    inputCostPerMillion: 0.4,
+    outputCostPerMillion: 1.6,
+  },
+  "gpt-4.1-nano": {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    inputCostPerMillion: 0.1,
+    outputCostPerMillion: 0.4,
+  },
+  "gpt-4o": {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    inputCostPerMillion: 2.5,
+    outputCostPerMillion: 10,
+  },
+  "gpt-4o-mini": {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    inputCostPerMillion: 0.15,
+    outputCostPerMillion: 0.6,
+  },
+  "o4-mini": {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    inputCostPerMillion: 1.1,
+    outputCostPerMillion: 4.4,
+  },
+  "gemini-2.0-flash": {
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    inputCostPerMillion: 0.1,
+    outputCostPerMillion: 0.4,
+  },
+  "gemini-2.5-flash": {
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    inputCostPerMillion: 0.3,
+    outputCostPerMillion: 2.5,
+  },
+  "gemini-2.5-pro": {
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    inputCostPerMillion: 1.25,
+    outputCostPerMillion: 10,
+  },
+  "claude-3-5-haiku": {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    inputCostPerMillion: 0.8,
+    outputCostPerMillion: 4,
+  },
+  "claude-haiku-4-5": {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    inputCostPerMillion: 1,
+    outputCostPerMillion: 5,
+  },
+  "claude-sonnet-4": {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    inputCostPerMillion: 3,
+    outputCostPerMillion: 15,
+  },
+  "claude-opus-4": {
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    inputCostPerMillion: 15,
+    outputCostPerMillion: 75,
+  },
+};
+
+// Used for models not in the list above, such as local ones; small enough to be safe for most
+const DEFAULT_MODEL_LIMITS: ModelLimits = { contextWindow: 32768, maxOutputTokens: 4096 };
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateJsonTokens(value: any): number {
+  return estimateTokens(JSON.stringify(value));
+}
+
+export function estimateOutputTokens(transactionCount: number): number {
+  return OUTPUT_TOKENS_OVERHEAD + transactionCount * OUTPUT_TOKENS_PER_TRANSACTION;
+}
+
+// Limits for a model, using the longest matching prefix.  A context window set in the
+// settings overrides the known value, which is mostly useful for local models.
+export function getModelLimits(model: string, contextWindowOverride?: number): ModelLimits {
+  const name = (model || "").toLowerCase();
+  const prefix = Object.keys(KNOWN_MODELS)
+    .filter((p) => name.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  const limits = prefix ? KNOWN_MODELS[prefix] : DEFAULT_MODEL_LIMITS;
+  return contextWindowOverride ? { ...limits, contextWindow: contextWindowOverride } : limits;
+}
+
+// Tokens available for the prompt once room is left for the response and the safety margin
+export function inputTokenBudget(limits: ModelLimits, outputTokens: number): number {
+  return Math.floor(limits.contextWindow * (1 - CONTEXT_SAFETY_MARGIN)) - outputTokens;
+}
+
+// Keep as many items from the front of the list as fit in the budget.  The list is assumed
+// to be in priority order, so it's the least useful items that get dropped.
+export function fitToTokenBudget<T>(items: T[], budget: number): { items: T[]; tokens: number } {
+  let tokens = 0;
+  let count = 0;
+  for (const item of items) {
+    // Plus one for the comma separating array elements
+    const itemTokens = estimateJsonTokens(item) + 1;
+    if (tokens + itemTokens > budget) break;
+    tokens += itemTokens;
+    count++;
+  }
+  return { items: items.slice(0, count), tokens };
+}
+
+// Dollar cost of a request, or null if the model's prices aren't known
+export function estimateCost(
+  limits: ModelLimits,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  if (limits.inputCostPerMillion === undefined || limits.outputCostPerMillion === undefined) {
+    return null;
+  }
+  return (
+    (inputTokens * limits.inputCostPerMillion + outputTokens * limits.outputCostPerMillion) /
+    1000000
+  );
+}
@@ -0,0 +1,104 @@
+// Transfer detection - finding the two sides of a transfer between accounts, such as a checking
+// account debit and the matching credit card payment, so both can be categorized together
+// without asking the AI about each side separately.
+
+export interface TransferCandidate {
+  transaction_id: string;
+  amount?: number;
+  date?: any;
+  institution?: string;
+}
+
+export interface TransferPair<T extends TransferCandidate> {
+  // The side with the negative amount
+  outgoing: T;
+  incoming: T;
+}
+
+// Days from 1899-12-30 to 1970-01-01, the difference between Excel's date serials and Unix time
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole day number of a date cell: Excel date serials are used as they are, and text dates are parsed
+export function toDayNumber(value: any): number | null {
+  if (typeof value === "number" && isFinite(value) && value > 0) {
+    return Math.floor(value);
+  }
+  if (typeof value === "string" && value.trim()) {
+    const time = Date.parse(value);
+    if (!isNaN(time)) {
+      return Math.floor(time / MS_PER_DAY) + EXCEL_EPOCH_OFFSET_DAYS;
+    }
+  }
+  return null;
+}
+
+// A day number as an ISO date, e.g. "2025-04-01"
+export function formatDayNumber(day: number): string {
+  return new Date((day - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function normalizeInstitution(institution: string | undefined): string {
+  return String(institution || "")
+    .trim()
+    .toLowerCase();
+}
+
+// Find pairs of transactions with opposite amounts (to the cent), dated within `windowDays` of each
+// other, at different institutions.  When the institution of either side isn't known the pair is still
+// allowed.  Transactions without an amount or date are never paired.  Each transaction is in at most
+// one pair, with the pairs closest in date chosen first.
+export function findTransferPairs<T extends TransferCandidate>(
+  transactions: T[],
+  windowDays: number
+): TransferPair<T>[] {
+  // Group the transactions that could be paired by the size of their amount in cents
+  const byCents = new Map<number, { transaction: T; day: number; order: number }[]>();
+  transactions.forEach((transaction, order) => {
+    const day = toDayNumber(transaction.date);
+    const amount = transaction.amount;
+    if (day === null || amount === undefined || !isFinite(amount) || amount === 0) return;
+    const cents = Math.round(Math.abs(amount) * 100);
+    if (!byCents.has(cents)) byCents.set(cents, []);
+    byCents.get(cents)!.push({ transaction, day, order });
+  });
+
+  const candidates: { outgoing: T; incoming: T; days: number; order: number }[] = [];
+  for (const group of byCents.values()) {
+    const outgoing = group.filter((g) => g.transaction.amount! < 0);
+    const incoming = group.filter((g) => g.transaction.amount! > 0);
+    for (const out of outgoing) {
+      for (const inc of incoming) {
+        const days = Math.abs(out.day - inc.day);
+        const outInstitution = normalizeInstitution(out.transaction.institution);
+        const incInstitution = normalizeInstitution(inc.transaction.institution);
+        if (days > windowDays) continue;
+        if (outInstitution && incInstitution && outInstitution === incInstitution) continue;
+        candidates.push({
+          outgoing: out.transaction,
+          incoming: inc.transaction,
+          days,
+          order: Math.min(out.order, inc.order),
+        });
+      }
+    }
+  }
+
+  // Closest dates first, then table order, so the result doesn't depend on how the groups were built
+  candidates.sort((a, b) => a.days - b.days || a.order - b.order);
+
+  const paired = new Set<T>();
+  const pairs: TransferPair<T>[] = [];
+  for (const candidate of candidates) {
+    if (paired.has(candidate.outgoing) || paired.has(candidate.incoming)) continue;
+    paired.add(candidate.outgoing);
+    paired.add(candidate.incoming);
+    pairs.push({ outgoing: candidate.outgoing, incoming: candidate.incoming });
+  }
+  return pairs;
+}
+
+// The text written to the note column of one side of a pair, pointing at the other side
+export function transferNote(otherTransactionId: string): string {
+  return `Transfer pair: ${otherTransactionId}`;
+}
@@ -0,0 +1,1010 @@
+import { FakeContext, FakeTableData } from './mocks/fakeExcel';
+import { categorizeBy, StubProvider, suggestionsJson } from './mocks/stubProvider';
+import {
+  applyCategorizationChanges,
+  applyNewCategories,
+  categorizeAllUncategorizedTransactions,
+  categorizeUncategorizedTransactions,
+  findDuplicates,
+  getCategorizationSuggestions,
+  markDuplicates,
+  onUndoAvailabilityChange,
+  previewNextRequest,
+  ProposedChange,
+  setApiConfig,
+  suggestCategories,
+  suggestNewCategories,
+  undoLastRun
+} from '../src/taskpane/services/aiCategorization';
+import { DEFAULT_COLUMN_MAPPING } from '../src/taskpane/services/columnMapping';
+import { getInteractionHistory } from '../src/taskpane/services/interactionHistory';
+import { ProviderError } from '../src/taskpane/services/providers';
+import { RetryNotice } from '../src/taskpane/services/retry';
+import { CellWrites } from '../src/taskpane/services/tableAccess';
+import { estimateJsonTokens, estimateOutputTokens, estimateTokens } from '../src/taskpane/services/tokenEstimation';
+
+const mockProvider = new StubProvider();
+jest.mock('../src/taskpane/services/providers', () => ({
+  ...jest.requireActual('../src/taskpane/services/providers'),
+  getProvider: () => mockProvider
+}));
+
+const HEADERS = ["Date", "Description", "Category", "Amount", "Institution", "Full Description", "Transaction ID", "AI Touched", "Note", "Duplicate"];
+const CATEGORIES = ["Groceries", "Restaurants", "Transfer", "To Be Categorized"];
+
+interface RowSpec {
+  id: string;
+  full: string;
+  category?: string;
+  description?: string;
+  amount?: number;
+  institution?: string;
+  date?: string;
+  note?: string;
+  duplicate?: string;
+  aiTouched?: number;
+}
+
+function row(spec: RowSpec): any[] {
+  return [
+    spec.date ?? "2025-04-01", spec.description ?? "", spec.category ?? "", spec.amount ?? -12.5, spec.institution ?? "Big Bank",
+    spec.full, spec.id, spec.aiTouched ?? "", spec.note ?? "", spec.duplicate ?? ""
+  ];
+}
+
+function workbook(rows: RowSpec[], options: { hiddenRows?: number[]; extraTables?: {[name: string]: FakeTableData} } = {}): FakeContext {
+  return new FakeContext({
+    Transactions: { headers: HEADERS, rows: rows.map(row), hiddenRows: options.hiddenRows },
+    Categories: { headers: ["Category", "Group"], rows: CATEGORIES.map(c => [c, "Everyday"]) },
+    ...options.extraTables
+  });
+}
+
+const REFERENCE: RowSpec = { id: "ref-1", full: "TRADER JOES #123", description: "Trader Joe's", category: "Groceries" };
+
+beforeEach(() => {
+  mockProvider.reset();
+  setApiConfig({
+    provider: 'openai',
+    openaiKey: 'test-key',
+    maxBatchSize: 50,
+    maxReferenceTransactions: 5000,
+    maxConcurrentBatches: 1,
+    contextWindow: 0,
+    updateDescriptions: false,
+    confidenceThreshold: 0.5,
+    lowConfidenceAction: 'highlight',
+    signMismatchAction: 'highlight',
+    transferCategory: "Transfer",
+    transferWindowDays: 3,
+    duplicateCategory: "",
+    duplicateWindowDays: 3,
+    redactPii: false,
+    redactNames: [],
+    maxAttempts: 1,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    columnMapping: DEFAULT_COLUMN_MAPPING
+  });
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("getCategorizationSuggestions", () => {
+  it("sends only visible uncategorized rows, with categorized rows as references", async () => {
+    const context = workbook([
+      REFERENCE,
+      { id: "t-1", full: "WHOLE FOODS 55" },
+      { id: "t-2", full: "HIDDEN SAFEWAY" },
+      { id: "t-3", full: "" },
+    ], { hiddenRows: [2] });
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.success).toBe(true);
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-1"]);
+    expect(mockProvider.requests).toHaveLength(1);
+    const payload = mockProvider.requests[0].payload;
+    expect(payload.transactions.map((t: any) => t.transaction_id)).toEqual(["t-1"]);
+    expect(payload.reference_transactions.map((t: any) => t.transaction_id)).toEqual(["ref-1"]);
+    expect(result.categories).toEqual(CATEGORIES);
+    expect(getInteractionHistory()[0]).toMatchObject({ provider: "Stub", success: true, transactionIds: ["t-1"] });
+  });
+
+  it("doesn't write anything to the table", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    await getCategorizationSuggestions(context.asExcel());
+
+    expect(context.table("Transactions").cell(1, "Category")).toBe("");
+  });
+
+  it("limits the run to the batch size", async () => {
+    setApiConfig({ maxBatchSize: 2 });
+    const context = workbook([1, 2, 3].map(n => ({ id: `t-${n}`, full: `SHOP ${n}` })));
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-1", "t-2"]);
+  });
+
+  it("reports when there is nothing to categorize without calling the AI", async () => {
+    const context = workbook([REFERENCE]);
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result).toMatchObject({ success: true, message: "No uncategorized transactions found", changes: [] });
+    expect(mockProvider.requests).toHaveLength(0);
+  });
+
+  it("uses the fallback category for categories that aren't in the Categories table", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "MYSTERY MERCHANT" }]);
+    mockProvider.respondWith(suggestionsJson([{ transaction_id: "t-1", category: "Made Up Category" }]));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.changes[0].suggested_category).toBe("To Be Categorized");
+  });
+
+  it("keeps the current description unless updating descriptions is turned on", async () => {
+    const rows = [REFERENCE, { id: "t-1", full: "WHOLE FOODS 55", description: "Whole Foods Mkt" }];
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const unchanged = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(unchanged.changes[0].suggested_description).toBe("Whole Foods Mkt");
+
+    setApiConfig({ updateDescriptions: true });
+    const updated = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(updated.changes[0].suggested_description).toBe("Clean WHOLE FOODS 55");
+  });
+
+  it("ignores suggestions for transactions that weren't asked about", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+    mockProvider.respondWith(suggestionsJson([
+      { transaction_id: "t-1", category: "Groceries" },
+      { transaction_id: "ref-1", category: "Restaurants" },
+    ]));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-1"]);
+  });
+
+  it("re-requests transactions missing from the response", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }, { id: "t-2", full: "CHIPOTLE 99" }]);
+    mockProvider.respondWith(
+      suggestionsJson([{ transaction_id: "t-1", category: "Groceries" }]),
+      suggestionsJson([{ transaction_id: "t-2", category: "Restaurants" }])
+    );
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(mockProvider.requests).toHaveLength(2);
+    expect(mockProvider.requests[1].payload.transactions.map((t: any) => t.transaction_id)).toEqual(["t-2"]);
+    expect(result.changes.map(c => [c.transaction_id, c.suggested_category])).toEqual([
+      ["t-1", "Groceries"],
+      ["t-2", "Restaurants"],
+    ]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("reports rows that never get a valid suggestion instead of failing the run", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }, { id: "t-2", full: "CHIPOTLE 99" }]);
+    mockProvider.respondByDefault(suggestionsJson([
+      { transaction_id: "t-1", category: "Groceries" },
+      { transaction_id: "t-2", category: "Restaurants", matched_transaction_id: "not-a-reference" },
+    ]));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.success).toBe(true);
+    // The first request plus two follow-ups for the bad row
+    expect(mockProvider.requests).toHaveLength(3);
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-1"]);
+    expect(result.failures).toEqual([
+      expect.objectContaining({ transaction_id: "t-2", original_description: "CHIPOTLE 99" })
+    ]);
+    expect(result.message).toContain("1 transactions could not be categorized");
+    expect(result.errorDetails).toContain("not-a-reference");
+  });
+
+  it("treats a response that isn't JSON as a failure for every row", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+    mockProvider.respondByDefault("Sorry, I can't help with that");
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual([]);
+    expect(result.failures[0].reason).toMatch(/could not be parsed/);
+  });
+
+  it("flags or falls back on low confidence suggestions", async () => {
+    const rows = [REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }];
+    const unsure = suggestionsJson([{ transaction_id: "t-1", category: "Groceries", confidence: 0.2 }]);
+
+    mockProvider.respondWith(unsure);
+    const highlighted = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(highlighted.changes[0]).toMatchObject({ suggested_category: "Groceries", low_confidence: true });
+
+    setApiConfig({ lowConfidenceAction: 'fallback' });
+    mockProvider.respondWith(unsure);
+    const fallback = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(fallback.changes[0].suggested_category).toBe("To Be Categorized");
+  });
+
+  it("tells the AI the category groups and types, and checks the sign of the amount against the type", async () => {
+    const typedCategories = {
+      Categories: {
+        headers: ["Category", "Group", "Type"],
+        rows: [["Groceries", "Food", "Expense"], ["Paycheck", "Income", "Income"], ["To Be Categorized", "", ""]]
+      }
+    };
+    const rows = [
+      { ...REFERENCE, amount: 12 },
+      { id: "t-1", full: "WHOLE FOODS REFUND", amount: 30 },
+      { id: "t-2", full: "TRADER JOES REFUND", amount: 8 },
+      { id: "t-3", full: "ACME PAYROLL", amount: 2000 },
+    ];
+    const answer = suggestionsJson([
+      { transaction_id: "t-1", category: "Groceries" },
+      { transaction_id: "t-2", category: "Groceries", matched_transaction_id: "ref-1" },
+      { transaction_id: "t-3", category: "Paycheck" },
+    ]);
+
+    mockProvider.respondWith(answer);
+    const flagged = await getCategorizationSuggestions(workbook(rows, { extraTables: typedCategories }).asExcel());
+
+    expect(mockProvider.requests[0].systemPrompt).toContain('{"category":"Groceries","group":"Food","type":"Expense"}');
+    expect(flagged.changes.map(c => [c.transaction_id, c.suggested_category, !!c.sign_mismatch])).toEqual([
+      ["t-1", "Groceries", true],
+      ["t-2", "Groceries", false],
+      ["t-3", "Paycheck", false],
+    ]);
+
+    setApiConfig({ signMismatchAction: 'fallback' });
+    mockProvider.respondWith(answer);
+    const fallback = await getCategorizationSuggestions(workbook(rows, { extraTables: typedCategories }).asExcel());
+    expect(fallback.changes[0].suggested_category).toBe("To Be Categorized");
+  });
+
+  it("applies rules before sending anything to the AI", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "NETFLIX.COM" }, { id: "t-2", full: "WHOLE FOODS 55" }], {
+      extraTables: {
+        Rules: { headers: ["Match Type", "Pattern", "Category"], rows: [["contains", "netflix", "Restaurants"]] }
+      }
+    });
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(mockProvider.requests[0].payload.transactions.map((t: any) => t.transaction_id)).toEqual(["t-2"]);
+    expect(result.changes.find(c => c.transaction_id === "t-1")).toMatchObject({ source: 'rule', suggested_category: "Restaurants" });
+  });
+
+  it("labels both sides of a transfer without asking the AI", async () => {
+    const context = workbook([
+      REFERENCE,
+      { id: "t-1", full: "ONLINE TRANSFER TO CARD", amount: -250, institution: "Big Bank", date: "2025-04-01" },
+      { id: "t-2", full: "PAYMENT THANK YOU", amount: 250, institution: "Card Co", date: "2025-04-02" },
+      { id: "t-3", full: "WHOLE FOODS 55", amount: -250, institution: "Card Co", date: "2025-04-02" },
+    ]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(mockProvider.requests[0].payload.transactions.map((t: any) => t.transaction_id)).toEqual(["t-3"]);
+    expect(result.changes.filter(c => c.source === 'transfer')).toMatchObject([
+      { transaction_id: "t-1", suggested_category: "Transfer", matched_transfer: { transaction_id: "t-2" } },
+      { transaction_id: "t-2", suggested_category: "Transfer", matched_transfer: { transaction_id: "t-1" } },
+    ]);
+    expect(result.message).toContain("2 transfers");
+  });
+
+  it("skips transfer detection when it is turned off or the category doesn't exist", async () => {
+    const rows = [
+      REFERENCE,
+      { id: "t-1", full: "ONLINE TRANSFER TO CARD", amount: -250, institution: "Big Bank" },
+      { id: "t-2", full: "PAYMENT THANK YOU", amount: 250, institution: "Card Co" },
+    ];
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    setApiConfig({ transferCategory: "" });
+    const off = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(off.changes.every(c => c.source === 'ai')).toBe(true);
+
+    setApiConfig({ transferCategory: "Transfers" });
+    const unknown = await getCategorizationSuggestions(workbook(rows).asExcel());
+    expect(unknown.changes.every(c => c.source === 'ai')).toBe(true);
+  });
+
+  it("redacts personal details from what is sent, and restores them in the suggestions", async () => {
+    setApiConfig({ redactPii: true, redactNames: ["Alice"], updateDescriptions: true });
+    const context = workbook([
+      { id: "ref-1", full: "ZELLE TO ALICE 415-555-0123", description: "Zelle to Alice", category: "Transfer" },
+      { id: "t-1", full: "ZELLE TO ALICE 415-555-0123" },
+    ]);
+    mockProvider.respondWith(suggestionsJson([
+      { transaction_id: "t-1", category: "Transfer", updated_description: "Zelle to [NAME_1]", reason: "Same as [PHONE_1]" }
+    ]));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    const sent = JSON.stringify(mockProvider.requests[0].payload);
+    expect(sent).not.toContain("ALICE");
+    expect(sent).not.toContain("555");
+    expect(mockProvider.requests[0].payload.transactions[0].original_description).toBe("ZELLE TO [NAME_1] [PHONE_1]");
+    expect(result.changes[0].suggested_description).toBe("Zelle to ALICE");
+    expect(result.changes[0].reason).toBe("Same as 415-555-0123");
+    expect(result.changes[0].original_description).toBe("ZELLE TO ALICE 415-555-0123");
+  });
+
+  it("reads the columns named in the column mapping", async () => {
+    setApiConfig({
+      columnMapping: {
+        ...DEFAULT_COLUMN_MAPPING,
+        transactionsTable: "Ledger",
+        columns: { ...DEFAULT_COLUMN_MAPPING.columns, originalDescription: "Memo", transactionId: "Ref" }
+      }
+    });
+    const headers = ["Ref", "Memo", "Description", "Category"];
+    const context = new FakeContext({
+      Ledger: { headers, rows: [["r-1", "TRADER JOES", "Trader Joe's", "Groceries"], ["r-2", "WHOLE FOODS", "", ""]] },
+      Categories: { headers: ["Category"], rows: CATEGORIES.map(c => [c]) }
+    });
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.success).toBe(true);
+    expect(result.changes.map(c => [c.transaction_id, c.original_description])).toEqual([["r-2", "WHOLE FOODS"]]);
+  });
+
+  describe("errors", () => {
+    it("refuses to run when Transaction IDs are repeated", async () => {
+      const repeated = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }, { id: "t-1", full: "CHIPOTLE 99" }]);
+
+      const result = await getCategorizationSuggestions(repeated.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain(`1 IDs are used by more than one transaction (e.g. "t-1")`);
+      expect(mockProvider.requests).toHaveLength(0);
+    });
+
+    it("skips rows without a Transaction ID and says so", async () => {
+      const context = workbook([REFERENCE, { id: "", full: "SHELL OIL" }, { id: "t-1", full: "WHOLE FOODS 55" }]);
+      mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+      const result = await categorizeUncategorizedTransactions(context.asExcel());
+
+      expect(result).toMatchObject({ success: true, message: "Updated 1 transactions; 1 transactions were skipped because they have no Transaction ID" });
+      expect(mockProvider.requests[0].payload.transactions.map((t: any) => t.transaction_id)).toEqual(["t-1"]);
+      expect(context.table("Transactions").column("Category")).toEqual(["Groceries", "", "Groceries"]);
+    });
+
+    it("doesn't write changes when Transaction IDs have been repeated since the run", async () => {
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }, { id: "t-2", full: "CHIPOTLE 99" }]);
+      mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+      const suggestions = await getCategorizationSuggestions(context.asExcel());
+
+      const table = context.table("Transactions");
+      table.rows[2][HEADERS.indexOf("Transaction ID")] = "t-1";
+      const result = await applyCategorizationChanges(context.asExcel(), suggestions.changes);
+
+      expect(result.success).toBe(false);
+      expect(table.column("Category")).toEqual(["Groceries", "", ""]);
+    });
+
+    it("fails the run when the provider throws", async () => {
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+      mockProvider.respondWith(new Error("429 Too Many Requests"));
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Stub API Error: 429 Too Many Requests. The provider is busy or unreachable; try again in a minute, or lower the request budgets in Settings");
+      expect(result.changes).toEqual([]);
+      expect(getInteractionHistory()[0]).toMatchObject({
+        success: false,
+        transactionIds: ["t-1"],
+        error: { message: "429 Too Many Requests" }
+      });
+    });
+
+    it("retries rate limits and overloads, reporting each retry and recording each attempt", async () => {
+      setApiConfig({ maxAttempts: 3 });
+      jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => { callback(); return 0; }) as any);
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+      mockProvider.respondWith(
+        new ProviderError("Stub", "(529): Overloaded", 529),
+        new ProviderError("Stub", "(429): Rate limit reached", 429, 2000),
+        suggestionsJson([{ transaction_id: "t-1", category: "Groceries" }])
+      );
+      const notices: RetryNotice[] = [];
+
+      const result = await getCategorizationSuggestions(context.asExcel(), { onRetry: notice => notices.push(notice) });
+
+      expect(result.success).toBe(true);
+      expect(result.changes.map(c => c.suggested_category)).toEqual(["Groceries"]);
+      expect(notices.map(n => [n.attempt, n.reason])).toEqual([[1, "(529): Overloaded"], [2, "(429): Rate limit reached"]]);
+      expect(notices[1].delayMs).toBe(2000);
+      expect(getInteractionHistory().slice(0, 3).map(e => e.success)).toEqual([true, false, false]);
+    });
+
+    it("doesn't retry a bad API key, and says what to do about it", async () => {
+      setApiConfig({ maxAttempts: 3 });
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+      mockProvider.respondWith(new ProviderError("Stub", "(401): Incorrect API key provided", 401));
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Stub API Error: (401): Incorrect API key provided. Check the API key in Settings");
+      expect(mockProvider.requests).toHaveLength(1);
+    });
+
+    it("asks for an API key when there isn't one", async () => {
+      // No key has ever been set for Anthropic in these tests
+      setApiConfig({ provider: 'anthropic' });
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/API key not found/);
+      expect(mockProvider.requests).toHaveLength(0);
+    });
+
+    it("stops using a key once it has been cleared", async () => {
+      setApiConfig({ openaiKey: "" });
+      const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.message).toMatch(/API key not found/);
+      expect(mockProvider.requests).toHaveLength(0);
+    });
+
+    it("lists the required columns that are missing", async () => {
+      const context = new FakeContext({
+        Transactions: { headers: ["Transaction ID", "Full Description", "Description"], rows: [] },
+        Categories: { headers: ["Category"], rows: [["Groceries"]] }
+      });
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Category ("Category")');
+    });
+
+    it("fails when the Transactions table doesn't exist", async () => {
+      const context = new FakeContext({ Categories: { headers: ["Category"], rows: [["Groceries"]] } });
+
+      const result = await getCategorizationSuggestions(context.asExcel());
+
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/doesn't exist/);
+    });
+  });
+});
+
+describe("run scope", () => {
+  const ROWS: RowSpec[] = [
+    REFERENCE,
+    { id: "t-1", full: "WHOLE FOODS 55" },
+    { id: "t-2", full: "SAFEWAY 12", category: "To Be Categorized" },
+    { id: "t-3", full: "CHIPOTLE 99", category: "Groceries", aiTouched: 45700 },
+    { id: "t-4", full: "SPROUTS 7", category: "Restaurants" },
+  ];
+  const sentIds = () => mockProvider.requests[0].payload.transactions.map((t: any) => t.transaction_id);
+
+  beforeEach(() => {
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+  });
+
+  it("re-categorizes fallback and AI-categorized rows but not manual ones, which stay as references", async () => {
+    const result = await getCategorizationSuggestions(workbook(ROWS).asExcel(), { scope: { recategorize: true } });
+
+    expect(sentIds()).toEqual(["t-1", "t-2", "t-3"]);
+    const references = mockProvider.requests[0].payload.reference_transactions.map((t: any) => t.transaction_id);
+    expect(references).toEqual(["ref-1", "t-4"]);
+    expect(result.changes.find(c => c.transaction_id === "t-3")?.current_category).toBe("Groceries");
+  });
+
+  it("only overwrites manual categories when asked to", async () => {
+    await getCategorizationSuggestions(workbook(ROWS).asExcel(), { scope: { overwriteManual: true } });
+    expect(sentIds()).toEqual(["t-1"]);
+
+    mockProvider.reset();
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    await getCategorizationSuggestions(workbook(ROWS).asExcel(), { scope: { recategorize: true, overwriteManual: true } });
+    expect(sentIds()).toEqual(["ref-1", "t-1", "t-2", "t-3", "t-4"]);
+  });
+
+  it("limits the run to a date range", async () => {
+    const rows: RowSpec[] = [
+      { id: "t-1", full: "WHOLE FOODS 55", date: "2025-03-31" },
+      { id: "t-2", full: "SAFEWAY 12", date: "2025-04-01" },
+      { id: "t-3", full: "SPROUTS 7", date: "2025-04-30" },
+      { id: "t-4", full: "CHIPOTLE 99", date: "" },
+    ];
+
+    await getCategorizationSuggestions(workbook(rows).asExcel(), { scope: { dateFrom: "2025-04-01", dateTo: "2025-04-15" } });
+    expect(sentIds()).toEqual(["t-2"]);
+
+    mockProvider.reset();
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    await getCategorizationSuggestions(workbook(rows).asExcel(), { scope: { dateFrom: "2025-04-01" } });
+    expect(sentIds()).toEqual(["t-2", "t-3"]);
+  });
+
+  it("limits the run to the selected rows, which have to be in the Transactions table", async () => {
+    const context = workbook(ROWS);
+    context.selectRows("Transactions", 1, 2);
+
+    const result = await categorizeUncategorizedTransactions(context.asExcel(), { scope: { selectionOnly: true, recategorize: true } });
+
+    expect(result.success).toBe(true);
+    expect(sentIds()).toEqual(["t-1", "t-2"]);
+    expect(context.table("Transactions").column("Category").slice(1, 4)).toEqual(["Groceries", "Groceries", "Groceries"]);
+
+    context.selectRows("Categories", 0, 1);
+    const elsewhere = await getCategorizationSuggestions(context.asExcel(), { scope: { selectionOnly: true } });
+    expect(elsewhere).toMatchObject({ success: false, message: "Select some rows of the Transactions table first" });
+  });
+});
+
+describe("previewNextRequest", () => {
+  it("builds the next request without sending it", async () => {
+    setApiConfig({ redactPii: true });
+    const context = workbook([REFERENCE, { id: "t-1", full: "PAYMENT TO ACCT 12345678" }]);
+
+    const preview = await previewNextRequest(context.asExcel());
+
+    expect(mockProvider.requests).toHaveLength(0);
+    expect(preview.success).toBe(true);
+    expect(preview.redactionEnabled).toBe(true);
+    expect(preview.redactedCount).toBe(1);
+    expect(preview.request!.payload.transactions[0].original_description).toBe("PAYMENT TO [ACCOUNT_1]");
+    expect(preview.request!.payload.reference_transactions).toHaveLength(1);
+  });
+
+  it("keeps the most similar references, not the first rows of the table, when they don't all fit", async () => {
+    const unrelated = Array.from({ length: 40 }, (_r, n) => ({ id: `fuel-${n}`, full: `SHELL OIL ${n}`, category: "Transfer" }));
+    const context = workbook([...unrelated, REFERENCE, { id: "t-1", full: "TRADER JOES #456" }]);
+    const full = (await previewNextRequest(context.asExcel())).request!;
+    expect(full.payload.reference_transactions).toHaveLength(41);
+
+    // Room for the prompt, the transaction and the response, plus a handful of references
+    const fixed = estimateTokens(full.systemPrompt) + estimateJsonTokens({ ...full.payload, reference_transactions: [] });
+    setApiConfig({ contextWindow: Math.ceil((fixed + estimateOutputTokens(1) + 100) / 0.9) });
+    const trimmed = (await previewNextRequest(context.asExcel())).request!;
+
+    const sent = trimmed.payload.reference_transactions.map((t: any) => t.transaction_id);
+    expect(sent.length).toBeGreaterThan(0);
+    expect(sent.length).toBeLessThan(41);
+    expect(sent[0]).toBe("ref-1");
+  });
+
+  it("has no request when there is nothing to categorize", async () => {
+    const preview = await previewNextRequest(workbook([REFERENCE]).asExcel());
+
+    expect(preview.request).toBeNull();
+  });
+});
+
+describe("writing and undoing changes", () => {
+  it("writes the category and AI Touched date, then undo puts the old values back", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55", description: "Whole Foods" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    setApiConfig({ updateDescriptions: true });
+
+    const result = await categorizeUncategorizedTransactions(context.asExcel());
+
+    const table = context.table("Transactions");
+    expect(result).toMatchObject({ success: true, message: "Updated 1 transactions" });
+    expect(table.cell(1, "Category")).toBe("Groceries");
+    expect(table.cell(1, "Description")).toBe("Clean WHOLE FOODS 55");
+    expect(typeof table.cell(1, "AI Touched")).toBe("number");
+
+    const undo = await undoLastRun(context.asExcel());
+
+    expect(undo.success).toBe(true);
+    expect(table.cell(1, "Category")).toBe("");
+    expect(table.cell(1, "Description")).toBe("Whole Foods");
+    expect(table.cell(1, "AI Touched")).toBe("");
+  });
+
+  it("only puts back the columns the run wrote, leaving later edits to the others", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55", description: "Whole Foods", note: "old" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    await categorizeUncategorizedTransactions(context.asExcel());
+    const table = context.table("Transactions");
+    table.rows[1][HEADERS.indexOf("Description")] = "Whole Foods (edited)";
+    table.rows[1][HEADERS.indexOf("Note")] = "edited";
+    table.rows[1][HEADERS.indexOf("Duplicate")] = "checked";
+    await undoLastRun(context.asExcel());
+
+    expect(table.cell(1, "Category")).toBe("");
+    expect(table.cell(1, "AI Touched")).toBe("");
+    expect(table.cell(1, "Description")).toBe("Whole Foods (edited)");
+    expect(table.cell(1, "Note")).toBe("edited");
+    expect(table.cell(1, "Duplicate")).toBe("checked");
+  });
+
+  it("writes a category the user chose as their own, clearing an earlier AI Touched date", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55", category: "Restaurants", aiTouched: 45000 }]);
+    const change: ProposedChange = {
+      transaction_id: "t-1", original_description: "WHOLE FOODS 55", current_description: "", current_category: "Restaurants",
+      suggested_description: "", suggested_category: "Groceries", source: 'manual'
+    };
+
+    await applyCategorizationChanges(context.asExcel(), [change]);
+
+    const table = context.table("Transactions");
+    expect(table.cell(1, "Category")).toBe("Groceries");
+    expect(table.cell(1, "AI Touched")).toBe("");
+
+    await undoLastRun(context.asExcel());
+    expect(table.cell(1, "Category")).toBe("Restaurants");
+    expect(table.cell(1, "AI Touched")).toBe(45000);
+  });
+
+  it("tells listeners when there is a run to undo and when it has been undone", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    const changes: boolean[] = [];
+    const stopListening = onUndoAvailabilityChange(canUndo => changes.push(canUndo));
+
+    await categorizeUncategorizedTransactions(context.asExcel());
+    await undoLastRun(context.asExcel());
+    stopListening();
+    await categorizeUncategorizedTransactions(context.asExcel());
+
+    expect(changes).toEqual([true, false]);
+  });
+
+  it("finds rows by Transaction ID even if the table was sorted after the suggestions were made", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }, { id: "t-2", full: "CHIPOTLE 99" }]);
+    mockProvider.respondByDefault(categorizeBy(d => d.startsWith("WHOLE") ? "Groceries" : "Restaurants"));
+    const suggestions = await getCategorizationSuggestions(context.asExcel());
+
+    const table = context.table("Transactions");
+    table.rows.reverse();
+    await applyCategorizationChanges(context.asExcel(), suggestions.changes);
+
+    expect(table.column("Transaction ID")).toEqual(["t-2", "t-1", "ref-1"]);
+    expect(table.column("Category")).toEqual(["Restaurants", "Groceries", "Groceries"]);
+  });
+
+  it("highlights low confidence categories and removes the highlight on undo", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }]);
+    mockProvider.respondWith(suggestionsJson([{ transaction_id: "t-1", category: "Groceries", confidence: 0.1 }]));
+
+    await categorizeUncategorizedTransactions(context.asExcel());
+
+    const table = context.table("Transactions");
+    const categoryCell = `1,${HEADERS.indexOf("Category")}`;
+    expect(table.fills.get(categoryCell)).toBeTruthy();
+
+    await undoLastRun(context.asExcel());
+    expect(table.fills.has(categoryCell)).toBe(false);
+  });
+
+  it("reads and writes a large table in blocks rather than row by row", async () => {
+    setApiConfig({ maxBatchSize: 1000 });
+    const references = Array.from({ length: 1000 }, (_r, n) => ({ ...REFERENCE, id: `ref-${n}` }));
+    const uncategorized = Array.from({ length: 1000 }, (_r, n) => ({ id: `t-${n}`, full: `WHOLE FOODS ${n}` }));
+    const context = workbook([...references, ...uncategorized], { hiddenRows: [1500] });
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await categorizeUncategorizedTransactions(context.asExcel());
+
+    const table = context.table("Transactions");
+    expect(result).toMatchObject({ success: true, message: "Updated 999 transactions" });
+    expect(table.column("Category").filter(c => c === "Groceries")).toHaveLength(1999);
+    expect(table.cell(1500, "Category")).toBe("");
+    expect(context.rangesCreated).toBeLessThan(50);
+
+    await undoLastRun(context.asExcel());
+    expect(table.column("Category").filter(c => c === "Groceries")).toHaveLength(1000);
+    expect(context.rangesCreated).toBeLessThan(100);
+  });
+});
+
+describe("writing transfer pairs", () => {
+  it("links the two sides in the Note column, keeping any existing note, and undo removes the link", async () => {
+    const context = workbook([
+      { id: "t-1", full: "ONLINE TRANSFER TO CARD", amount: -250, institution: "Big Bank", note: "April card bill" },
+      { id: "t-2", full: "PAYMENT THANK YOU", amount: 250, institution: "Card Co" },
+    ]);
+    const table = context.table("Transactions");
+
+    const result = await categorizeUncategorizedTransactions(context.asExcel());
+
+    expect(result.message).toBe("Updated 2 transactions");
+    expect(mockProvider.requests).toHaveLength(0);
+    expect(table.column("Category")).toEqual(["Transfer", "Transfer"]);
+    expect(table.column("Note")).toEqual(["April card bill; Transfer pair: t-2", "Transfer pair: t-1"]);
+
+    await undoLastRun(context.asExcel());
+
+    expect(table.column("Category")).toEqual(["", ""]);
+    expect(table.column("Note")).toEqual(["April card bill", ""]);
+  });
+});
+
+describe("duplicates", () => {
+  const DUPLICATES: RowSpec[] = [
+    { id: "t-1", full: "NETFLIX.COM PENDING", amount: -15.49, date: "2025-04-01" },
+    { id: "t-2", full: "NETFLIX.COM 866-579-7172 CA", amount: -15.49, date: "2025-04-03", category: "Restaurants" },
+    { id: "t-3", full: "WHOLE FOODS 55", amount: -15.49, date: "2025-04-01" },
+  ];
+
+  it("groups copies by amount, date and description, suggesting the categorized copy to keep", async () => {
+    const result = await findDuplicates(workbook(DUPLICATES).asExcel());
+
+    expect(result).toMatchObject({ success: true, message: "Found 1 possible duplicates (1 extra copies)" });
+    expect(result.groups[0].transactions.map(t => t.transaction_id)).toEqual(["t-1", "t-2"]);
+    expect(result.groups[0].keep.transaction_id).toBe("t-2");
+    expect(mockProvider.requests).toHaveLength(0);
+  });
+
+  it("leaves out copies already flagged", async () => {
+    const rows = DUPLICATES.map(r => r.id === "t-1" ? { ...r, duplicate: "Duplicate of t-2" } : r);
+
+    const result = await findDuplicates(workbook(rows).asExcel());
+
+    expect(result).toMatchObject({ success: true, message: "No duplicate transactions found", groups: [] });
+  });
+
+  it("flags and categorizes the marked copies, and undo puts them back", async () => {
+    setApiConfig({ duplicateCategory: "To Be Categorized" });
+    const context = workbook(DUPLICATES);
+    const table = context.table("Transactions");
+
+    const result = await markDuplicates(context.asExcel(), [{ transaction_id: "t-1", duplicate_of: "t-2" }]);
+
+    expect(result).toMatchObject({ success: true, message: "Marked 1 duplicate transactions" });
+    expect(table.column("Duplicate")).toEqual(["Duplicate of t-2", "", ""]);
+    expect(table.column("Category")).toEqual(["To Be Categorized", "Restaurants", ""]);
+
+    await undoLastRun(context.asExcel());
+
+    expect(table.column("Duplicate")).toEqual(["", "", ""]);
+    expect(table.column("Category")).toEqual(["", "Restaurants", ""]);
+  });
+
+  it("won't mark anything with a duplicate category that isn't in the Categories table", async () => {
+    setApiConfig({ duplicateCategory: "Duplicates" });
+    const context = workbook(DUPLICATES);
+
+    const result = await markDuplicates(context.asExcel(), [{ transaction_id: "t-1", duplicate_of: "t-2" }]);
+
+    expect(result.success).toBe(false);
+    expect(context.table("Transactions").column("Duplicate")).toEqual(["", "", ""]);
+  });
+
+  it("doesn't categorize rows flagged as duplicates", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55", duplicate: "Duplicate of t-2" }, { id: "t-2", full: "WHOLE FOODS 55 POSTED" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await getCategorizationSuggestions(context.asExcel());
+
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-2"]);
+  });
+});
+
+describe("new categories", () => {
+  const FALLBACK = "To Be Categorized";
+  const PET_ROWS: RowSpec[] = [
+    { id: "t-1", full: "CHEWY.COM 800-672-4399", category: FALLBACK },
+    { id: "t-2", full: "CHEWY.COM 800-672-4399", category: FALLBACK },
+    { id: "t-3", full: "BANFIELD VET", category: FALLBACK },
+    { id: "t-4", full: "ZELLE TO ALICE BOBSON", category: FALLBACK },
+    { id: "t-5", full: "PARKING METER", category: FALLBACK },
+    { id: "t-6", full: "WHOLE FOODS 55", category: "Groceries" },
+  ];
+  const proposalsJson = JSON.stringify({
+    proposed_categories: [{ name: "Pets", group: "Everyday", type: null, reason: "Pet food and vet bills", cluster_ids: ["c1", "c3"] }]
+  });
+
+  it("sends the fallback transactions grouped by counterparty and returns the proposals", async () => {
+    setApiConfig({ redactPii: true, redactNames: ["Alice Bobson"] });
+    mockProvider.respondWith(proposalsJson);
+
+    const result = await suggestNewCategories(workbook(PET_ROWS).asExcel());
+
+    expect(result).toMatchObject({ success: true, message: `Suggested 1 new categories covering 3 of the 5 transactions in "${FALLBACK}"` });
+    expect(result.proposals[0]).toMatchObject({ name: "Pets", group: "Everyday", transactionIds: ["t-1", "t-2", "t-3"] });
+    expect(result.categories).toEqual(CATEGORIES);
+    const clusters = mockProvider.requests[0].payload.clusters;
+    expect(clusters[0]).toMatchObject({ cluster_id: "c1", counterparty: "chewy", transaction_count: 2, total_amount: -25 });
+    expect(JSON.stringify(clusters)).not.toMatch(/alice/i);
+    expect(getInteractionHistory()[0].transactionIds).toHaveLength(5);
+  });
+
+  it("doesn't ask the AI about too few fallback transactions", async () => {
+    const result = await suggestNewCategories(workbook(PET_ROWS.slice(0, 3)).asExcel());
+
+    expect(result).toMatchObject({ success: true, proposals: [] });
+    expect(mockProvider.requests).toHaveLength(0);
+  });
+
+  it("adds approved categories and moves their transactions, and undo puts the transactions back", async () => {
+    const context = workbook(PET_ROWS);
+    const table = context.table("Transactions");
+    table.rows[1][HEADERS.indexOf("Category")] = "Groceries";
+
+    const result = await applyNewCategories(context.asExcel(), [
+      { name: "Pets", group: "Everyday", reason: "", transactionIds: ["t-1", "t-2", "t-3"], examples: [] },
+      { name: "transfer", reason: "", transactionIds: ["t-4"], examples: [] },
+    ]);
+
+    expect(result).toMatchObject({ success: true, message: "Added 1 categories and categorized 3 transactions" });
+    expect(context.table("Categories").rows.slice(-1)).toEqual([["Pets", "Everyday"]]);
+    expect(table.column("Category")).toEqual(["Pets", "Groceries", "Pets", "Transfer", FALLBACK, "Groceries"]);
+
+    await undoLastRun(context.asExcel());
+
+    expect(table.column("Category")).toEqual([FALLBACK, "Groceries", FALLBACK, FALLBACK, FALLBACK, "Groceries"]);
+  });
+});
+
+describe("categorizeAllUncategorizedTransactions", () => {
+  it("runs every batch and reports progress", async () => {
+    setApiConfig({ maxBatchSize: 2 });
+    const context = workbook([REFERENCE, ...[1, 2, 3, 4, 5].map(n => ({ id: `t-${n}`, full: `SHOP ${n}` }))]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    const progress: number[] = [];
+
+    const result = await categorizeAllUncategorizedTransactions(context.asExcel(), {
+      writeChanges: true,
+      onProgress: p => progress.push(p.completedBatches)
+    });
+
+    expect(result).toMatchObject({ success: true, message: "Updated 5 transactions" });
+    expect(mockProvider.requests).toHaveLength(3);
+    expect(progress).toEqual([0, 1, 2, 3]);
+    expect(context.table("Transactions").column("Category").every(c => c === "Groceries")).toBe(true);
+  });
+
+  it("reads the whole table once for the run and highlights rows in blocks", async () => {
+    setApiConfig({ maxBatchSize: 100 });
+    const context = workbook([REFERENCE, ...Array.from({ length: 1000 }, (_r, n) => ({ id: `t-${n}`, full: `SHOP ${n}` }))]);
+    mockProvider.respondByDefault(request => suggestionsJson(
+      request.payload.transactions.map((t: any) => ({ transaction_id: t.transaction_id, category: "Groceries", confidence: 0.1 }))
+    ));
+
+    const result = await categorizeAllUncategorizedTransactions(context.asExcel(), { writeChanges: true });
+
+    expect(result).toMatchObject({ success: true, message: "Updated 1000 transactions" });
+    expect(mockProvider.requests).toHaveLength(10);
+    // Besides the write, each batch only reads the headers and the Transaction IDs to check nothing has moved
+    expect(context.syncCount).toBeLessThan(40);
+    expect(context.rangesCreated).toBeLessThan(150);
+    // One highlighted block per batch, not one per row
+    expect(context.formatCount).toBe(10);
+  });
+
+  it("finds rows again when the table is sorted during the run", async () => {
+    setApiConfig({ maxBatchSize: 1 });
+    const context = workbook([REFERENCE, ...[1, 2, 3].map(n => ({ id: `t-${n}`, full: `SHOP ${n}` }))]);
+    const table = context.table("Transactions");
+    const groceries = categorizeBy(() => "Groceries");
+    mockProvider.respondWith(groceries, request => {
+      table.rows.reverse();
+      return groceries(request);
+    });
+    mockProvider.respondByDefault(groceries);
+
+    await categorizeAllUncategorizedTransactions(context.asExcel(), { writeChanges: true });
+
+    expect(table.column("Transaction ID")).toEqual(["t-3", "t-2", "t-1", "ref-1"]);
+    expect(table.column("Category")).toEqual(["Groceries", "Groceries", "Groceries", "Groceries"]);
+
+    table.rows.reverse();
+    await undoLastRun(context.asExcel());
+    expect(table.column("Category")).toEqual(["Groceries", "", "", ""]);
+  });
+
+  it("keeps going when one batch fails", async () => {
+    setApiConfig({ maxBatchSize: 1 });
+    const context = workbook([REFERENCE, { id: "t-1", full: "SHOP 1" }, { id: "t-2", full: "SHOP 2" }]);
+    mockProvider.respondWith(new Error("Server error"));
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const result = await categorizeAllUncategorizedTransactions(context.asExcel(), { writeChanges: false });
+
+    expect(result.success).toBe(true);
+    expect(result.changes.map(c => c.transaction_id)).toEqual(["t-2"]);
+    expect(result.message).toContain("1 of 2 batches failed");
+  });
+
+  it("still writes later batches when one batch's write fails, and reports which", async () => {
+    setApiConfig({ maxBatchSize: 1 });
+    const context = workbook([REFERENCE, ...[1, 2, 3].map(n => ({ id: `t-${n}`, full: `SHOP ${n}` }))]);
+    const groceries = categorizeBy(() => "Groceries");
+    mockProvider.respondWith(groceries, request => {
+      jest.spyOn(CellWrites.prototype, 'write').mockRejectedValueOnce(new Error("Write failed"));
+      return groceries(request);
+    });
+    mockProvider.respondByDefault(groceries);
+
+    const result = await categorizeAllUncategorizedTransactions(context.asExcel(), { writeChanges: true });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe("Updated 2 transactions; 1 of 3 batches failed");
+    expect(result.errorDetails).toBe("Batch 2: Couldn't write the changes: Write failed");
+    expect(context.table("Transactions").column("Category")).toEqual(["Groceries", "Groceries", "", "Groceries"]);
+
+    await undoLastRun(context.asExcel());
+    expect(context.table("Transactions").column("Category")).toEqual(["Groceries", "", "", ""]);
+  });
+
+  it("stops starting batches once cancelled", async () => {
+    setApiConfig({ maxBatchSize: 1 });
+    const context = workbook([REFERENCE, { id: "t-1", full: "SHOP 1" }, { id: "t-2", full: "SHOP 2" }]);
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+    let cancelled = false;
+
+    const result = await categorizeAllUncategorizedTransactions(context.asExcel(), {
+      writeChanges: false,
+      onProgress: p => { cancelled = p.completedBatches >= 1; },
+      isCancelled: () => cancelled
+    });
+
+    expect(mockProvider.requests).toHaveLength(1);
+    expect(result.message).toContain("cancelled after 1 of 2 batches");
+  });
+});
+
+describe("suggestCategories", () => {
+  it("answers in order, with rules first and categorized table rows as references", async () => {
+    const context = workbook([REFERENCE, { id: "t-1", full: "WHOLE FOODS 55" }], {
+      extraTables: {
+        Rules: { headers: ["Match Type", "Pattern", "Category"], rows: [["contains", "netflix", "Restaurants"]] }
+      }
+    });
+    mockProvider.respondByDefault(categorizeBy(d => d.includes("PIZZA") ? "Restaurants" : "Groceries"));
+
+    const suggestions = await suggestCategories(context.asExcel(), [
+      { description: "SAFEWAY 12", amount: -30 },
+      { description: "NETFLIX.COM", amount: -15.99 },
+      { description: "JOE'S PIZZA", amount: -22, institution: "Big Bank" },
+    ]);
+
+    expect(suggestions).toEqual([{ category: "Groceries" }, { category: "Restaurants" }, { category: "Restaurants" }]);
+    expect(mockProvider.requests).toHaveLength(1);
+    expect(mockProvider.requests[0].payload.transactions).toHaveLength(2);
+    expect(mockProvider.requests[0].payload.reference_transactions.map((t: any) => t.transaction_id)).toEqual(["ref-1"]);
+  });
+
+  it("works without a Transactions table", async () => {
+    const context = new FakeContext({ Categories: { headers: ["Category"], rows: CATEGORIES.map(c => [c]) } });
+    mockProvider.respondByDefault(categorizeBy(() => "Groceries"));
+
+    const suggestions = await suggestCategories(context.asExcel(), [{ description: "SAFEWAY 12" }]);
+
+    expect(suggestions).toEqual([{ category: "Groceries" }]);
+    expect(mockProvider.requests[0].payload.reference_transactions).toEqual([]);
+  });
+
+  it("reports transactions that never get a valid suggestion", async () => {
+    mockProvider.respondByDefault(suggestionsJson([]));
+
+    const suggestions = await suggestCategories(workbook([REFERENCE]).asExcel(), [{ description: "MYSTERY" }]);
+
+    expect(suggestions[0].category).toBeUndefined();
+    expect(suggestions[0].failure).toBeTruthy();
+  });
+});
@@ -0,0 +1,88 @@
+import { clusterExamples, clusterTransactions, validateCategoryProposals } from '../src/taskpane/services/categoryDiscovery';
+
+let nextId = 1;
+function tx(original_description: string, amount = -20) {
+  return { transaction_id: `t-${nextId++}`, original_description, amount };
+}
+
+describe("clusterTransactions", () => {
+  it("groups by counterparty, ignoring payment-method words, largest cluster first", () => {
+    const transactions = [
+      tx("CHEWY.COM 800-672-4399"),
+      tx("ZELLE TO DOG WALKER JANE"),
+      tx("CHEWY.COM 800-672-4400"),
+      tx("Dog Walker Jane"),
+      tx("CHEWY.COM"),
+      tx("12345"),
+    ];
+
+    const clusters = clusterTransactions(transactions);
+
+    expect(clusters.map(c => [c.cluster_id, c.counterparty, c.transactions.length])).toEqual([
+      ["c1", "chewy", 3],
+      ["c2", "dog walker", 2],
+    ]);
+  });
+
+  it("keeps only the largest clusters", () => {
+    const transactions = [tx("ALPHA"), tx("BRAVO"), tx("BRAVO"), tx("CHARLIE")];
+
+    expect(clusterTransactions(transactions, 2).map(c => c.counterparty)).toEqual(["bravo", "alpha"]);
+  });
+
+  it("gives a few different example descriptions", () => {
+    const [cluster] = clusterTransactions([tx("VET CLINIC 1"), tx("VET CLINIC 1"), tx("VET CLINIC 2"), tx("VET CLINIC 3"), tx("VET CLINIC 4")]);
+
+    expect(clusterExamples(cluster)).toEqual(["VET CLINIC 1", "VET CLINIC 2", "VET CLINIC 3"]);
+  });
+});
+
+describe("validateCategoryProposals", () => {
+  const clusters = clusterTransactions([tx("CHEWY.COM"), tx("CHEWY.COM"), tx("BANFIELD VET"), tx("PARKING METER")]);
+  const ids = (counterparty: string) => clusters.find(c => c.counterparty === counterparty)!.transactions.map(t => t.transaction_id);
+
+  it("turns proposals into the transactions they cover", () => {
+    const parsed = {
+      proposed_categories: [
+        { name: " Pets ", group: "Living", type: "Expense", reason: "Pet food and vet bills", cluster_ids: ["c1", "c2"] },
+      ]
+    };
+
+    const { proposals, warnings } = validateCategoryProposals(parsed, clusters, ["Groceries"]);
+
+    expect(warnings).toEqual([]);
+    expect(proposals).toEqual([{
+      name: "Pets",
+      group: "Living",
+      type: "Expense",
+      reason: "Pet food and vet bills",
+      transactionIds: [...ids("chewy"), ...ids("banfield vet")],
+      examples: ["CHEWY.COM", "BANFIELD VET"]
+    }]);
+  });
+
+  it("drops existing names, repeats and clusters that weren't sent or are already claimed", () => {
+    const parsed = {
+      proposed_categories: [
+        { name: "groceries", group: null, type: null, reason: "", cluster_ids: ["c1"] },
+        { name: "Pets", group: null, type: null, reason: "", cluster_ids: ["c1", "c9"] },
+        { name: "PETS", group: null, type: null, reason: "", cluster_ids: ["c2"] },
+        { name: "Vet", group: null, type: null, reason: "", cluster_ids: ["c1"] },
+        { name: "", cluster_ids: ["c3"] },
+      ]
+    };
+
+    const { proposals, warnings } = validateCategoryProposals(parsed, clusters, ["Groceries"]);
+
+    expect(proposals.map(p => [p.name, p.transactionIds])).toEqual([["Pets", ids("chewy")]]);
+    expect(proposals[0].group).toBeUndefined();
+    expect(warnings).toHaveLength(4);
+  });
+
+  it("reports a response without a proposal list", () => {
+    expect(validateCategoryProposals({ categories: [] }, clusters, [])).toEqual({
+      proposals: [],
+      warnings: ["Response did not contain a proposed_categories list"]
+    });
+  });
+});
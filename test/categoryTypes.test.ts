@@ -0,0 +1,41 @@
+import { readCategories, signMismatch } from '../src/taskpane/services/categoryTypes';
+
+describe("readCategories", () => {
+  it("reads names with their group and type, skipping blank rows", () => {
+    const rows = [["Groceries", "Food", "Expense"], ["", "", ""], ["Paycheck", "Income", " Income "], ["Misc", "", ""]];
+
+    expect(readCategories(rows, 0, 1, 2)).toEqual([
+      { name: "Groceries", group: "Food", type: "Expense" },
+      { name: "Paycheck", group: "Income", type: "Income" },
+      { name: "Misc", group: undefined, type: undefined },
+    ]);
+  });
+
+  it("leaves out columns that aren't there", () => {
+    expect(readCategories([["Groceries", "Food"]], 0, -1, -1)).toEqual([{ name: "Groceries", group: undefined, type: undefined }]);
+  });
+});
+
+describe("signMismatch", () => {
+  const groceries = { name: "Groceries", type: "Expense" };
+  const paycheck = { name: "Paycheck", type: "income" };
+
+  it("flags money coming in to an Expense category and going out of an Income category", () => {
+    expect(signMismatch(groceries, 25)).toMatch(/Expense category/);
+    expect(signMismatch(paycheck, -1000)).toMatch(/Income category/);
+  });
+
+  it("accepts matching signs, other types and amounts it can't check", () => {
+    expect(signMismatch(groceries, -25)).toBeNull();
+    expect(signMismatch(paycheck, 1000)).toBeNull();
+    expect(signMismatch({ name: "Transfer", type: "Transfer" }, 25)).toBeNull();
+    expect(signMismatch({ name: "Misc" }, 25)).toBeNull();
+    expect(signMismatch(groceries, NaN)).toBeNull();
+  });
+
+  it("is justified by a matched reference in the same category with the same sign", () => {
+    expect(signMismatch(groceries, 25, { category: "Groceries", amount: 10 })).toBeNull();
+    expect(signMismatch(groceries, 25, { category: "Groceries", amount: -10 })).not.toBeNull();
+    expect(signMismatch(groceries, 25, { category: "Restaurants", amount: 10 })).not.toBeNull();
+  });
+});
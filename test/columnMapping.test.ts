@@ -0,0 +1,95 @@
+import { DEFAULT_COLUMN_MAPPING, detectColumnMapping, detectColumns } from '../src/taskpane/services/columnMapping';
+
+describe("detectColumns", () => {
+  it("finds the Tiller column names", () => {
+    const columns = detectColumns(["Date", "Description", "Category", "Amount", "Full Description", "Transaction ID", "AI Touched", "Institution"]);
+
+    expect(columns).toMatchObject({
+      transactionId: "Transaction ID",
+      originalDescription: "Full Description",
+      description: "Description",
+      category: "Category",
+      aiTouched: "AI Touched",
+      institution: "Institution",
+    });
+  });
+
+  it("recognises other common names, ignoring case and punctuation", () => {
+    const columns = detectColumns(["txn id", "Memo", "Payee", "CATEGORY", "Posted Date", "Transaction Amount"]);
+
+    expect(columns).toMatchObject({
+      transactionId: "txn id",
+      originalDescription: "Memo",
+      description: "Payee",
+      category: "CATEGORY",
+      date: "Posted Date",
+      amount: "Transaction Amount",
+    });
+  });
+
+  it("leaves fields without a matching column unmapped", () => {
+    const columns = detectColumns(["Transaction ID", "Full Description", "Description", "Category"]);
+
+    expect(columns.aiTouched).toBe("");
+    expect(columns.institution).toBe("");
+  });
+
+  it("matches longer headers by whole words", () => {
+    const columns = detectColumns(["Transaction ID", "Full Description", "Description", "Category", "Transaction Date (UTC)", "Amounts", "Bank Notes"]);
+
+    expect(columns.date).toBe("Transaction Date (UTC)");
+    expect(columns.note).toBe("Bank Notes");
+    expect(columns.amount).toBe("");
+  });
+
+  it("doesn't find generic names like ID or Name inside other headers", () => {
+    const columns = detectColumns(["Paid By", "Provider", "Valid", "Memo", "Account Name", "Category"]);
+
+    expect(columns.transactionId).toBe("");
+    expect(columns.description).toBe("");
+    expect(columns.institution).toBe("Account Name");
+  });
+
+  it("uses each column for only one field", () => {
+    const columns = detectColumns(["Full Description", "Description", "Category"]);
+
+    expect(columns.originalDescription).toBe("Full Description");
+    expect(columns.description).toBe("Description");
+  });
+});
+
+describe("detectColumnMapping", () => {
+  it("prefers the Tiller table names", () => {
+    const mapping = detectColumnMapping([
+      { name: "Transactions", headers: ["Transaction ID", "Full Description", "Description", "Category"] },
+      { name: "Categories", headers: ["Category", "Group", "Type"] },
+    ]);
+
+    expect(mapping.transactionsTable).toBe("Transactions");
+    expect(mapping.categoriesTable).toBe("Categories");
+    expect(mapping.categoriesColumn).toBe("Category");
+    expect(mapping.categoryGroupColumn).toBe("Group");
+    expect(mapping.categoryTypeColumn).toBe("Type");
+    expect(mapping.rulesTable).toBe("");
+  });
+
+  it("finds differently named tables by their headers", () => {
+    const mapping = detectColumnMapping([
+      { name: "Budget", headers: ["Name", "Monthly"] },
+      { name: "Ledger", headers: ["ID", "Memo", "Payee", "Category"] },
+    ]);
+
+    expect(mapping.transactionsTable).toBe("Ledger");
+    expect(mapping.categoriesTable).toBe("Budget");
+    expect(mapping.categoriesColumn).toBe("Name");
+    expect(mapping.categoryTypeColumn).toBe("");
+    expect(mapping.columns.originalDescription).toBe("Memo");
+  });
+
+  it("falls back to the defaults when nothing looks right", () => {
+    const mapping = detectColumnMapping([]);
+
+    expect(mapping.transactionsTable).toBe(DEFAULT_COLUMN_MAPPING.transactionsTable);
+    expect(mapping.columns).toEqual(DEFAULT_COLUMN_MAPPING.columns);
+  });
+});
@@ -0,0 +1,58 @@
+import { descriptionSimilarity, duplicateFlag, findDuplicateGroups } from '../src/taskpane/services/duplicateDetection';
+
+function tx(transaction_id: string, original_description: string, amount: number, date: any, institution?: string, category?: string) {
+  return { transaction_id, original_description, amount, date, institution, category };
+}
+
+describe("descriptionSimilarity", () => {
+  it("matches a truncated description against the full one", () => {
+    expect(descriptionSimilarity("AMAZON MKTPLACE", "AMAZON MKTPLACE PMTS AMZN.COM/BILL WA")).toBe(1);
+    expect(descriptionSimilarity("AMAZON MKTPLACE", "WHOLE FOODS MARKET")).toBe(0);
+  });
+
+  it("needs an exact match when a description has no words", () => {
+    expect(descriptionSimilarity("12345", "12345")).toBe(1);
+    expect(descriptionSimilarity("12345", "12346")).toBe(0);
+    expect(descriptionSimilarity("", "")).toBe(0);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups the same amount and a similar description within the date window", () => {
+    const pending = tx("a", "SPOTIFY USA", -9.99, "2025-04-01", "Card");
+    const posted = tx("b", "SPOTIFY USA 877-778-1161", -9.99, "2025-04-03", "Card");
+
+    expect(findDuplicateGroups([posted, pending], 3)).toEqual([{ transactions: [pending, posted], keep: posted }]);
+  });
+
+  it("doesn't group different amounts, distant dates, other institutions or other merchants", () => {
+    expect(findDuplicateGroups([tx("a", "SPOTIFY", -9.99, "2025-04-01"), tx("b", "SPOTIFY", -10.99, "2025-04-01")], 3)).toEqual([]);
+    expect(findDuplicateGroups([tx("a", "SPOTIFY", -9.99, "2025-04-01"), tx("b", "SPOTIFY", -9.99, "2025-05-01")], 3)).toEqual([]);
+    expect(findDuplicateGroups([tx("a", "SPOTIFY", -9.99, "2025-04-01", "Card"), tx("b", "SPOTIFY", -9.99, "2025-04-01", "Bank")], 3)).toEqual([]);
+    expect(findDuplicateGroups([tx("a", "SPOTIFY", -9.99, "2025-04-01"), tx("b", "NETFLIX", -9.99, "2025-04-01")], 3)).toEqual([]);
+  });
+
+  it("puts three copies in one group and keeps the categorized one", () => {
+    const copies = [
+      tx("a", "SHELL OIL 123", -40, "2025-04-01"),
+      tx("b", "SHELL OIL 123", -40, "2025-04-03", undefined, "Gas"),
+      tx("c", "SHELL OIL 123", -40, "2025-04-05"),
+    ];
+
+    const groups = findDuplicateGroups(copies, 2);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].transactions.map(t => t.transaction_id)).toEqual(["a", "b", "c"]);
+    expect(groups[0].keep.transaction_id).toBe("b");
+  });
+
+  it("never groups transactions without a date", () => {
+    expect(findDuplicateGroups([tx("a", "SPOTIFY", -9.99, ""), tx("b", "SPOTIFY", -9.99, "")], 3)).toEqual([]);
+  });
+});
+
+describe("duplicateFlag", () => {
+  it("names the copy that was kept", () => {
+    expect(duplicateFlag("t-2")).toBe("Duplicate of t-2");
+  });
+});
@@ -0,0 +1,37 @@
+import { decryptText, encryptText, isEncryptedValue } from '../src/taskpane/services/encryptedStore';
+
+function newKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+describe("encryptText", () => {
+  it("stores nothing of the text in the clear, and decrypts back to it", async () => {
+    const key = await newKey();
+    const text = JSON.stringify({ openaiKey: "sk-secret-123" });
+
+    const stored = await encryptText(key, text);
+
+    expect(stored).not.toContain("sk-secret-123");
+    expect(isEncryptedValue(JSON.parse(stored))).toBe(true);
+    expect(await decryptText(key, stored)).toBe(text);
+  });
+
+  it("uses a fresh IV each time", async () => {
+    const key = await newKey();
+
+    expect(await encryptText(key, "same")).not.toBe(await encryptText(key, "same"));
+  });
+
+  it("won't decrypt with another key or after tampering", async () => {
+    const stored = await encryptText(await newKey(), "secret");
+    const tampered = JSON.stringify({ ...JSON.parse(stored), data: Buffer.from("junk").toString("base64") });
+
+    await expect(decryptText(await newKey(), stored)).rejects.toThrow();
+    await expect(decryptText(await newKey(), tampered)).rejects.toThrow();
+  });
+
+  it("tells plain text values from encrypted ones", async () => {
+    await expect(decryptText(await newKey(), JSON.stringify({ openaiKey: "sk-1" }))).rejects.toThrow("not encrypted");
+    expect(isEncryptedValue({ openaiKey: "sk-1" })).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { buildEvaluationReport, EvaluationOutcome, sampleItems } from '../src/taskpane/services/evaluation';
+
+function outcome(expected: string, predicted: string | null, extra: Partial<EvaluationOutcome> = {}): EvaluationOutcome {
+  return { transaction_id: `${expected}-${predicted}`, original_description: "", expected, predicted, source: predicted === null ? 'failed' : 'ai', ...extra };
+}
+
+describe("buildEvaluationReport", () => {
+  const outcomes = [
+    outcome("Groceries", "Groceries", { confidence: 0.9 }),
+    outcome("Groceries", "Groceries", { source: 'rule' }),
+    outcome("Groceries", "Restaurants", { confidence: 0.4 }),
+    outcome("Restaurants", "Restaurants", { confidence: 0.8 }),
+    outcome("Restaurants", "Groceries", { confidence: 0.95 }),
+    outcome("Fuel", null),
+  ];
+
+  it("counts overall accuracy, rule matches and failures", () => {
+    const report = buildEvaluationReport(outcomes);
+
+    expect(report).toMatchObject({ total: 6, correct: 3, accuracy: 0.5, ruleMatched: 1, failed: 1 });
+  });
+
+  it("counts each category's transactions, correct suggestions and suggestions made, most common first", () => {
+    expect(buildEvaluationReport(outcomes).categoryStats).toEqual([
+      { category: "Groceries", count: 3, correct: 2, predictedCount: 3 },
+      { category: "Restaurants", count: 2, correct: 1, predictedCount: 2 },
+      { category: "Fuel", count: 1, correct: 0, predictedCount: 0 },
+    ]);
+  });
+
+  it("builds a confusion matrix of real against suggested categories, with a column for no suggestion", () => {
+    expect(buildEvaluationReport(outcomes).confusion).toEqual({
+      categories: ["Groceries", "Restaurants", "Fuel", "(no suggestion)"],
+      counts: [
+        [2, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 1],
+        [0, 0, 0, 0],
+      ]
+    });
+  });
+
+  it("lists the most confident misses first", () => {
+    expect(buildEvaluationReport(outcomes).worstMisses.map(o => o.confidence)).toEqual([0.95, 0.4, undefined]);
+  });
+
+  it("puts categories that were only ever suggested last", () => {
+    const report = buildEvaluationReport([outcome("Groceries", "Shopping"), outcome("Fuel", "Fuel"), outcome("Fuel", "Fuel")]);
+
+    expect(report.categoryStats.map(s => s.category)).toEqual(["Fuel", "Groceries", "Shopping"]);
+    expect(report.confusion.categories).not.toContain("(no suggestion)");
+  });
+
+  it("reports an accuracy of 0 with nothing to score", () => {
+    expect(buildEvaluationReport([])).toMatchObject({ total: 0, correct: 0, accuracy: 0, categoryStats: [], worstMisses: [] });
+  });
+});
+
+describe("sampleItems", () => {
+  const items = Array.from({ length: 100 }, (_x, n) => n);
+
+  it("picks the same distinct items every time for the same seed", () => {
+    const sample = sampleItems(items, 10);
+
+    expect(sampleItems(items, 10)).toEqual(sample);
+    expect(new Set(sample).size).toBe(10);
+    expect(sampleItems(items, 10, 1)).not.toEqual(sample);
+  });
+
+  it("returns everything when asked for more than there are", () => {
+    expect([...sampleItems(items, 500)].sort((a, b) => a - b)).toEqual(items);
+  });
+});
@@ -0,0 +1,118 @@
+import * as historyModule from '../src/taskpane/services/interactionHistory';
+import { ApiInteraction } from '../src/taskpane/services/interactionHistory';
+
+type HistoryModule = typeof historyModule;
+
+// Local storage as the task pane sees it
+const store = new Map<string, string>();
+(global as any).window = {
+  localStorage: {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  }
+};
+
+// A fresh copy of the module, as after the add-in is reloaded
+async function reload(): Promise<HistoryModule> {
+  jest.resetModules();
+  return import('../src/taskpane/services/interactionHistory');
+}
+
+function interaction(overrides: Partial<ApiInteraction> = {}): Omit<ApiInteraction, 'id'> {
+  return {
+    timestamp: "2025-04-01T10:00:00.000Z",
+    provider: "OpenAI",
+    model: "gpt-4.1",
+    latencyMs: 1200,
+    usage: { inputTokens: 1000, outputTokens: 200 },
+    success: true,
+    transactionIds: ["t-1", "t-2"],
+    request: { payload: { transactions: [] } },
+    response: "{}",
+    ...overrides
+  };
+}
+
+// Let the background save finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  store.clear();
+});
+
+describe("interaction history", () => {
+  it("keeps the newest interaction first and stores it locally", async () => {
+    const history = await reload();
+    history.recordInteraction(interaction({ model: "first" }));
+    history.recordInteraction(interaction({ model: "second" }));
+    await settle();
+
+    expect(history.getInteractionHistory().map(e => e.model)).toEqual(["second", "first"]);
+
+    const reloaded = await reload();
+    expect((await reloaded.loadInteractionHistory()).map(e => e.model)).toEqual(["second", "first"]);
+  });
+
+  it("doesn't lose the stored history when something is recorded before it is loaded", async () => {
+    const before = await reload();
+    before.recordInteraction(interaction({ model: "old" }));
+    await settle();
+
+    const after = await reload();
+    after.recordInteraction(interaction({ model: "new" }));
+    await settle();
+
+    expect((await after.loadInteractionHistory()).map(e => e.model)).toEqual(["new", "old"]);
+    expect(JSON.parse(store.get("autocat.apiHistory")!).map((e: ApiInteraction) => e.model)).toEqual(["new", "old"]);
+  });
+
+  it("keeps at most the newest MAX_HISTORY_ENTRIES interactions", async () => {
+    const history = await reload();
+    for (let n = 0; n < history.MAX_HISTORY_ENTRIES + 5; n++) {
+      history.recordInteraction(interaction({ model: `m-${n}` }));
+    }
+
+    const entries = history.getInteractionHistory();
+    expect(entries).toHaveLength(history.MAX_HISTORY_ENTRIES);
+    expect(entries[0].model).toBe(`m-${history.MAX_HISTORY_ENTRIES + 4}`);
+  });
+
+  it("drops the request and response of older entries that don't fit, keeping their details", async () => {
+    const history = await reload();
+    const big = "x".repeat(1200000);
+    history.recordInteraction(interaction({ model: "older", response: big }));
+    history.recordInteraction(interaction({ model: "newer", response: big }));
+
+    const [newer, older] = history.getInteractionHistory();
+    expect(newer.response).toBe(big);
+    expect(older).toMatchObject({ model: "older", transactionIds: ["t-1", "t-2"], truncated: true });
+    expect(older.response).toBeUndefined();
+  });
+
+  it("searches every word anywhere in the interaction, ignoring case", async () => {
+    const history = await reload();
+    history.recordInteraction(interaction({ transactionIds: ["abc-123"] }));
+    history.recordInteraction(interaction({ provider: "Anthropic", success: false, error: { message: "429 Too Many Requests" } }));
+    const entries = history.getInteractionHistory();
+
+    expect(history.searchInteractions(entries, "ABC-123")).toHaveLength(1);
+    expect(history.searchInteractions(entries, "anthropic too many")).toHaveLength(1);
+    expect(history.searchInteractions(entries, "anthropic abc-123")).toHaveLength(0);
+    expect(history.searchInteractions(entries, "  ")).toHaveLength(2);
+  });
+
+  it("exports oldest first, and clearing forgets the stored history", async () => {
+    const history = await reload();
+    history.recordInteraction(interaction({ model: "first" }));
+    history.recordInteraction(interaction({ model: "second" }));
+    await settle();
+
+    const exported = JSON.parse(history.exportInteractionHistory());
+    expect(exported.interactions.map((e: ApiInteraction) => e.model)).toEqual(["first", "second"]);
+
+    await history.clearInteractionHistory();
+    expect(history.getInteractionHistory()).toEqual([]);
+    expect(store.has("autocat.apiHistory")).toBe(false);
+  });
+});
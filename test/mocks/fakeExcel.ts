@@ -0,0 +1,294 @@
+// An in-memory stand-in for the parts of the Excel JavaScript API the services use.
+//
+// Like the real API, properties can only be read after they have been loaded and the context
+// synced, and a missing table is only reported when the context is synced.  Writes are applied
+// straight away rather than at the next sync, which makes no difference to code that syncs
+// before it finishes.
+
+export interface FakeTableData {
+  headers: string[];
+  rows: any[][];
+  // Data body rows hidden by a filter
+  hiddenRows?: number[];
+}
+
+class FakeError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export class FakeTable {
+  name: string;
+  headers: string[];
+  rows: any[][];
+  hiddenRows: Set<number>;
+  // Cell fill colours, keyed by "row,column" in the data body
+  fills = new Map<string, string>();
+  exists: boolean;
+  // Worksheet row of the header; the data body starts on the row after it
+  readonly top = 0;
+  // Each table is on a sheet of its own, named after it
+  readonly sheet: string;
+
+  constructor(name: string, data: FakeTableData | null) {
+    this.name = name;
+    this.sheet = name;
+    this.exists = data !== null;
+    this.headers = data ? [...data.headers] : [];
+    this.rows = data ? data.rows.map(row => [...row]) : [];
+    this.hiddenRows = new Set(data?.hiddenRows || []);
+  }
+
+  column(header: string): any[] {
+    const index = this.headers.indexOf(header);
+    if (index === -1) {
+      throw new Error(`No column "${header}" in fake table ${this.name}`);
+    }
+    return this.rows.map(row => row[index]);
+  }
+
+  cell(rowIndex: number, header: string): any {
+    return this.rows[rowIndex][this.headers.indexOf(header)];
+  }
+}
+
+// A block of cells in a table; row -1 is the header row
+class FakeRange {
+  private loaded: { values?: any[][]; rowIndex?: number; rowCount?: number } | null = null;
+  private requested: string[] = [];
+
+  constructor(
+    private context: FakeContext,
+    private table: FakeTable,
+    private startRow: number,
+    private height: number,
+    private startColumn: number,
+    private width: number
+  ) {}
+
+  load(properties?: string | string[]): FakeRange {
+    this.requested = Array.isArray(properties) ? properties : (properties || "values").split(",").map(p => p.trim());
+    this.context.track(this, this.table);
+    return this;
+  }
+
+  // Called by sync to take a snapshot of the requested properties
+  refresh(): void {
+    this.loaded = {};
+    if (this.requested.includes("values")) {
+      this.loaded.values = this.currentValues();
+    }
+    if (this.requested.includes("rowIndex")) {
+      this.loaded.rowIndex = this.table.top + 1 + this.startRow;
+    }
+    if (this.requested.includes("rowCount")) {
+      this.loaded.rowCount = this.height;
+    }
+  }
+
+  private currentValues(): any[][] {
+    const source = this.startRow === -1 ? [this.table.headers] : this.table.rows.slice(this.startRow, this.startRow + this.height);
+    return source.map(row => row.slice(this.startColumn, this.startColumn + this.width));
+  }
+
+  get values(): any[][] {
+    if (!this.loaded || this.loaded.values === undefined) {
+      throw new FakeError("PropertyNotLoaded", "The property 'values' is not available. Call load and sync first.");
+    }
+    return this.loaded.values;
+  }
+
+  set values(values: any[][]) {
+    if (values.length !== this.height || values.some(row => row.length !== this.width)) {
+      throw new FakeError("InvalidArgument", `Expected ${this.height}x${this.width} values`);
+    }
+    values.forEach((row, r) => row.forEach((value, c) => {
+      if (this.startRow === -1) {
+        this.table.headers[this.startColumn + c] = value;
+      } else {
+        this.table.rows[this.startRow + r][this.startColumn + c] = value;
+      }
+    }));
+  }
+
+  get rowIndex(): number {
+    if (!this.loaded || this.loaded.rowIndex === undefined) {
+      throw new FakeError("PropertyNotLoaded", "The property 'rowIndex' is not available. Call load and sync first.");
+    }
+    return this.loaded.rowIndex;
+  }
+
+  get rowCount(): number {
+    if (!this.loaded || this.loaded.rowCount === undefined) {
+      throw new FakeError("PropertyNotLoaded", "The property 'rowCount' is not available. Call load and sync first.");
+    }
+    return this.loaded.rowCount;
+  }
+
+  getCell(row: number, column: number): FakeRange {
+    this.context.rangesCreated++;
+    return new FakeRange(this.context, this.table, this.startRow + row, 1, this.startColumn + column, 1);
+  }
+
+  getColumn(column: number): FakeRange {
+    this.context.rangesCreated++;
+    return new FakeRange(this.context, this.table, this.startRow, this.height, this.startColumn + column, 1);
+  }
+
+  getResizedRange(deltaRows: number, deltaColumns: number): FakeRange {
+    this.context.rangesCreated++;
+    return new FakeRange(this.context, this.table, this.startRow, this.height + deltaRows, this.startColumn, this.width + deltaColumns);
+  }
+
+  // Only the addresses of the visible cells are available, as that is all the services use
+  getVisibleView() {
+    const { table, startRow, height, startColumn, width } = this;
+    const view = {
+      cellAddresses: [] as string[][],
+      load: () => {
+        this.context.track(view, table);
+        return view;
+      },
+      refresh() {
+        const columns = Array.from({ length: width }, (_c, c) => String.fromCharCode(65 + startColumn + c));
+        view.cellAddresses = Array.from({ length: height }, (_r, r) => startRow + r)
+          .filter(row => !table.hiddenRows.has(row))
+          .map(row => columns.map(column => `${table.sheet}!${column}${table.top + 2 + row}`));
+      }
+    };
+    return view;
+  }
+
+  // Fills apply to every cell of the range; reading the colour gives the first cell's
+  get format() {
+    const keys: string[] = [];
+    for (let r = 0; r < this.height; r++) {
+      for (let c = 0; c < this.width; c++) {
+        keys.push(`${this.startRow + r},${this.startColumn + c}`);
+      }
+    }
+    const fills = this.table.fills;
+    const context = this.context;
+    return {
+      fill: {
+        get color() {
+          return fills.get(keys[0]) || "";
+        },
+        set color(color: string) {
+          context.formatCount++;
+          keys.forEach(key => fills.set(key, color));
+        },
+        clear() {
+          context.formatCount++;
+          keys.forEach(key => fills.delete(key));
+        }
+      }
+    };
+  }
+}
+
+// A worksheet, of which only the name is used
+function fakeWorksheet(name: string) {
+  const worksheet = {
+    name,
+    load: () => worksheet
+  };
+  return worksheet;
+}
+
+export class FakeContext {
+  private tables = new Map<string, FakeTable>();
+  private pending: { item: { refresh(): void }; table: FakeTable }[] = [];
+  // Worksheet rows of the current selection; nothing is selected on any table's sheet to start with
+  private selection = { sheet: "Sheet1", rowIndex: 0, rowCount: 1 };
+  syncCount = 0;
+  // Ranges asked for by getCell, getColumn and getResizedRange, to check that a table isn't read or written cell by cell
+  rangesCreated = 0;
+  // Fill colours set or cleared, each on a whole range
+  formatCount = 0;
+
+  constructor(tables: {[name: string]: FakeTableData}) {
+    for (const [name, data] of Object.entries(tables)) {
+      this.tables.set(name, new FakeTable(name, data));
+    }
+  }
+
+  // The table's current contents, for checking what was written
+  table(name: string): FakeTable {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`No fake table ${name}`);
+    }
+    return table;
+  }
+
+  // Select data body rows of a table, as the user would in Excel
+  selectRows(tableName: string, startRow: number, rowCount: number): void {
+    const table = this.table(tableName);
+    this.selection = { sheet: table.sheet, rowIndex: table.top + 1 + startRow, rowCount };
+  }
+
+  track(item: { refresh(): void }, table: FakeTable): void {
+    this.pending.push({ item, table });
+  }
+
+  private lookup(name: string): FakeTable {
+    return this.tables.get(name) || new FakeTable(name, null);
+  }
+
+  private tableProxy(table: FakeTable) {
+    return {
+      isNullObject: !table.exists,
+      getHeaderRowRange: () => new FakeRange(this, table, -1, 1, 0, table.headers.length),
+      getDataBodyRange: () => new FakeRange(this, table, 0, table.rows.length, 0, table.headers.length),
+      worksheet: fakeWorksheet(table.sheet),
+      rows: {
+        // Rows are always added at the end
+        add: (_index: number | undefined, values: any[][]) => {
+          if (values.some(row => row.length !== table.headers.length)) {
+            throw new FakeError("InvalidArgument", `Expected rows of ${table.headers.length} values`);
+          }
+          table.rows.push(...values.map(row => [...row]));
+        }
+      }
+    };
+  }
+
+  workbook = {
+    getSelectedRange: () => {
+      const selection = this.selection;
+      return {
+        worksheet: fakeWorksheet(selection.sheet),
+        rowIndex: selection.rowIndex,
+        rowCount: selection.rowCount,
+        load() {
+          return this;
+        }
+      };
+    },
+    tables: {
+      getItem: (name: string) => this.tableProxy(this.lookup(name)),
+      getItemOrNullObject: (name: string) => this.tableProxy(this.lookup(name))
+    }
+  };
+
+  async sync(): Promise<void> {
+    this.syncCount++;
+    const pending = this.pending;
+    this.pending = [];
+    const missing = pending.find(p => !p.table.exists);
+    if (missing) {
+      throw new FakeError("ItemNotFound", `The requested resource doesn't exist. (table ${missing.table.name})`);
+    }
+    pending.forEach(p => p.item.refresh());
+  }
+
+  // The fake, typed as the real thing for passing to the services
+  asExcel(): Excel.RequestContext {
+    return this as unknown as Excel.RequestContext;
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  AIProvider,
+  CompletionRequest,
+  CompletionResponse,
+  ModelOption,
+  ProviderConfig,
+  ProviderError
+} from '../../src/taskpane/services/providers/types';
+
+// What a stub response is made from: a canned reply, an error to throw, or a function of the request
+export type StubResponse = string | Error | ((request: CompletionRequest) => string);
+
+// Suggested transaction as the AI would return it; the defaults fill in anything left out
+export interface StubSuggestion {
+  transaction_id: string;
+  category?: string;
+  updated_description?: string;
+  matched_transaction_id?: string | null;
+  confidence?: number;
+  reason?: string;
+}
+
+export function suggestionsJson(suggestions: StubSuggestion[]): string {
+  return JSON.stringify({
+    suggested_transactions: suggestions.map(s => ({
+      updated_description: "Cleaned Up",
+      matched_transaction_id: null,
+      confidence: 0.9,
+      reason: "Stub",
+      ...s
+    }))
+  });
+}
+
+// Answer every transaction in the request, choosing the category from its description
+export function categorizeBy(chooseCategory: (originalDescription: string) => string): (request: CompletionRequest) => string {
+  return (request: CompletionRequest) => suggestionsJson(
+    request.payload.transactions.map((t: any) => ({
+      transaction_id: String(t.transaction_id),
+      category: chooseCategory(t.original_description),
+      updated_description: `Clean ${t.original_description}`
+    }))
+  );
+}
+
+// A provider that answers from a queue of canned responses, falling back to a default responder
+export class StubProvider implements AIProvider {
+  id: 'openai' = 'openai';
+  name = 'Stub';
+  requiresApiKey = true;
+  requests: CompletionRequest[] = [];
+  private queue: StubResponse[] = [];
+  private fallback: StubResponse = new Error("No stub response queued");
+
+  reset(): void {
+    this.requests = [];
+    this.queue = [];
+    this.fallback = new Error("No stub response queued");
+  }
+
+  // Responses used in order, one per request
+  respondWith(...responses: StubResponse[]): void {
+    this.queue.push(...responses);
+  }
+
+  // Used once the queue is empty
+  respondByDefault(response: StubResponse): void {
+    this.fallback = response;
+  }
+
+  async complete(_config: ProviderConfig, request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(request);
+    const response = this.queue.length > 0 ? this.queue.shift()! : this.fallback;
+    if (response instanceof Error) {
+      throw response;
+    }
+    const text = typeof response === 'function' ? response(request) : response;
+    return { text, requestForDebug: request };
+  }
+
+  parseResponse(text: string): any {
+    return JSON.parse(text);
+  }
+
+  async listModels(): Promise<ModelOption[]> {
+    return [];
+  }
+
+  normalizeError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    return new ProviderError(this.name, error instanceof Error ? error.message : String(error));
+  }
+}
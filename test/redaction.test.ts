@@ -0,0 +1,49 @@
+import { Redactor } from '../src/taskpane/services/redaction';
+
+function redactor(names: string[] = []): Redactor {
+  return new Redactor({ enabled: true, names });
+}
+
+describe("Redactor", () => {
+  it("replaces email addresses, phone numbers, card and account numbers with tokens", () => {
+    const r = redactor();
+
+    expect(r.redact("ZELLE TO jane.doe@example.com")).toBe("ZELLE TO [EMAIL_1]");
+    expect(r.redact("VENMO 415-555-0123")).toBe("VENMO [PHONE_1]");
+    expect(r.redact("PAYMENT CARD 4111 1111 1111 1111")).toBe("PAYMENT CARD [CARD_1]");
+    expect(r.redact("AUTOPAY XXXXXX4321")).toBe("AUTOPAY [CARD_2]");
+    expect(r.redact("ONLINE TRANSFER TO ACCT 12345678")).toBe("ONLINE TRANSFER TO [ACCOUNT_1]");
+    expect(r.redactedCount).toBe(5);
+  });
+
+  it("leaves short numbers such as store numbers alone", () => {
+    expect(redactor().redact("TRADER JOES #123 2025")).toBe("TRADER JOES #123 2025");
+  });
+
+  it("redacts chosen names as whole words ignoring case, longest first", () => {
+    const r = redactor(["Alice", "Alice Bobson", " "]);
+
+    expect(r.redact("ZELLE TO ALICE BOBSON")).toBe("ZELLE TO [NAME_1]");
+    expect(r.redact("Venmo alice")).toBe("Venmo [NAME_2]");
+    expect(r.redact("MALICE CAFE")).toBe("MALICE CAFE");
+  });
+
+  it("gives the same value the same token, and puts the values back", () => {
+    const r = redactor(["Alice"]);
+    const first = r.redact("TRANSFER ACCT 9876543 ALICE");
+    const second = r.redact("TRANSFER FROM ACCT 9876543");
+
+    expect(first).toBe("TRANSFER [ACCOUNT_1] [NAME_1]");
+    expect(second).toBe("TRANSFER FROM [ACCOUNT_1]");
+    expect(r.restore("Transfer to [NAME_1] ([ACCOUNT_1])")).toBe("Transfer to ALICE (ACCT 9876543)");
+    expect(r.restore("Unknown [NAME_9]")).toBe("Unknown [NAME_9]");
+  });
+
+  it("does nothing when turned off, and passes non-text values through", () => {
+    const r = new Redactor({ enabled: false, names: ["Alice"] });
+
+    expect(r.redact("ZELLE TO ALICE 415-555-0123")).toBe("ZELLE TO ALICE 415-555-0123");
+    expect(redactor().redact(42)).toBe(42);
+    expect(redactor().restore(undefined)).toBeUndefined();
+  });
+});
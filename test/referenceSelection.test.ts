@@ -0,0 +1,71 @@
+import { counterpartyOf, normalizeDescription, selectReferenceTransactions } from '../src/taskpane/services/referenceSelection';
+
+function tx(transaction_id: string, original_description: string, extra: { amount?: number; date?: any; institution?: string } = {}) {
+  return { transaction_id, original_description, ...extra };
+}
+
+const ids = (transactions: { transaction_id: string }[]) => transactions.map(t => t.transaction_id);
+
+describe("normalizeDescription", () => {
+  it("drops punctuation, numbers, masked account numbers and payment-method words", () => {
+    expect(normalizeDescription("ZELLE PAYMENT TO Alice Bobson #1234 XXXX")).toEqual(["alice", "bobson"]);
+    expect(normalizeDescription("POS PURCHASE Trader-Joe's 555")).toEqual(["trader", "joe"]);
+    expect(normalizeDescription("")).toEqual([]);
+  });
+
+  it("takes the first two significant words as the counterparty", () => {
+    expect(counterpartyOf("Zelle payment to Alice Bobson for dinner")).toBe("alice bobson");
+  });
+});
+
+describe("selectReferenceTransactions", () => {
+  const references = [
+    tx("r-other", "SHELL OIL 123", { date: 45800 }),
+    tx("r-far", "WHOLE FOODS MARKET", { date: 45700, amount: -500 }),
+    tx("r-close", "WHOLE FOODS MARKET", { date: 45700, amount: -52 }),
+    tx("r-recent", "WHOLE FOODS", { date: 45790 }),
+  ];
+
+  it("puts the most similar references first even when they all fit", () => {
+    const selected = selectReferenceTransactions([tx("t", "WHOLE FOODS MARKET", { amount: -50 })], references, 10);
+
+    expect(ids(selected)).toEqual(["r-close", "r-far", "r-recent", "r-other"]);
+  });
+
+  it("breaks ties in similarity with the more recent reference", () => {
+    const tied = [tx("old", "CHIPOTLE", { date: 45000 }), tx("new", "CHIPOTLE", { date: 45900 })];
+
+    expect(ids(selectReferenceTransactions([tx("t", "CHIPOTLE 99")], tied, 1))).toEqual(["new"]);
+  });
+
+  it("takes each transaction's best matches in turn so one can't crowd out the others", () => {
+    const pool = [
+      tx("wf-1", "WHOLE FOODS 1", { date: 45800 }),
+      tx("wf-2", "WHOLE FOODS 2", { date: 45799 }),
+      tx("wf-3", "WHOLE FOODS 3", { date: 45798 }),
+      tx("sh-1", "SHELL OIL", { date: 45700 }),
+    ];
+
+    const selected = selectReferenceTransactions([tx("a", "WHOLE FOODS"), tx("b", "SHELL OIL")], pool, 2);
+
+    expect(ids(selected)).toEqual(["wf-1", "sh-1"]);
+  });
+
+  it("fills any room left with the most recent unrelated references", () => {
+    const pool = [tx("old", "GYM", { date: 45000 }), tx("match", "CHIPOTLE", { date: 44000 }), tx("new", "BOOKS", { date: 45900 })];
+
+    expect(ids(selectReferenceTransactions([tx("t", "CHIPOTLE")], pool, 2))).toEqual(["match", "new"]);
+  });
+
+  it("doesn't count a matching institution or amount without any shared words", () => {
+    const pool = [tx("same-bank", "NETFLIX", { institution: "Big Bank", amount: -15, date: 45000 }), tx("newer", "HULU", { date: 45500 })];
+
+    const selected = selectReferenceTransactions([tx("t", "SPOTIFY", { institution: "Big Bank", amount: -15 })], pool, 1);
+
+    expect(ids(selected)).toEqual(["newer"]);
+  });
+
+  it("returns nothing for a limit of 0", () => {
+    expect(selectReferenceTransactions([tx("t", "WHOLE FOODS")], references, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describeFailures, validateSuggestions } from '../src/taskpane/services/responseValidation';
+
+function item(transaction_id: any, extra: any = {}) {
+  return { transaction_id, updated_description: "Whole Foods", category: "Groceries", matched_transaction_id: null, confidence: 0.9, reason: "Same store", ...extra };
+}
+
+const REFERENCES = new Set(["ref-1"]);
+
+describe("validateSuggestions", () => {
+  it("accepts valid items, tidying numeric IDs, string confidences and missing reasons", () => {
+    const { suggestions, failures } = validateSuggestions({
+      suggested_transactions: [
+        item(1, { confidence: "0.75", reason: null }),
+        item("t-2", { matched_transaction_id: "ref-1" }),
+      ]
+    }, ["1", "t-2"], REFERENCES);
+
+    expect(failures).toEqual([]);
+    expect(suggestions).toEqual([
+      { transaction_id: "1", updated_description: "Whole Foods", category: "Groceries", matched_transaction_id: undefined, confidence: 0.75, reason: "" },
+      { transaction_id: "t-2", updated_description: "Whole Foods", category: "Groceries", matched_transaction_id: "ref-1", confidence: 0.9, reason: "Same store" },
+    ]);
+  });
+
+  it("gives each unusable item a reason", () => {
+    const { suggestions, failures } = validateSuggestions({
+      suggested_transactions: [
+        item("a", { category: "" }),
+        item("b", { updated_description: 5 }),
+        item("c", { confidence: 1.5 }),
+        item("d", { reason: 3 }),
+        item("e", { matched_transaction_id: "e" }),
+        item("f", { matched_transaction_id: "ref-9" }),
+      ]
+    }, ["a", "b", "c", "d", "e", "f", "g"], REFERENCES);
+
+    expect(suggestions).toEqual([]);
+    expect(failures.map(f => f.reason)).toEqual([
+      "Missing category",
+      "Missing updated_description",
+      'confidence "1.5" is not a number from 0 to 1',
+      "reason is not a string",
+      "matched_transaction_id refers to the transaction itself",
+      'matched_transaction_id "ref-9" is not in the reference transactions',
+      "Missing from the response",
+    ]);
+  });
+
+  it("repairs a bad item with a later valid one for the same transaction, but keeps the first valid one", () => {
+    const { suggestions, failures } = validateSuggestions({
+      suggested_transactions: [
+        item("t-1", { confidence: "high" }),
+        item("t-1", { category: "Restaurants" }),
+        item("t-1", { category: "Transfer" }),
+      ]
+    }, ["t-1"], REFERENCES);
+
+    expect(failures).toEqual([]);
+    expect(suggestions.map(s => s.category)).toEqual(["Restaurants"]);
+  });
+
+  it("drops items for transactions that weren't asked about", () => {
+    const { suggestions } = validateSuggestions({ suggested_transactions: [item("ref-1"), item(null), "junk", item("t-1")] }, ["t-1"], REFERENCES);
+
+    expect(suggestions.map(s => s.transaction_id)).toEqual(["t-1"]);
+  });
+
+  it("fails every transaction when the response has no suggested_transactions list", () => {
+    for (const parsed of [null, "text", { suggestions: [] }, { suggested_transactions: {} }]) {
+      expect(validateSuggestions(parsed, ["t-1", "t-2"], REFERENCES).failures).toEqual([
+        { transaction_id: "t-1", reason: "Response did not contain a suggested_transactions list" },
+        { transaction_id: "t-2", reason: "Response did not contain a suggested_transactions list" },
+      ]);
+    }
+  });
+});
+
+describe("describeFailures", () => {
+  it("lists each failure on its own line with the description when known", () => {
+    expect(describeFailures([
+      { transaction_id: "t-1", original_description: "SHELL OIL", reason: "Missing category" },
+      { transaction_id: "t-2", reason: "Missing from the response" },
+    ])).toBe("t-1 (SHELL OIL): Missing category\nt-2: Missing from the response");
+  });
+});
@@ -0,0 +1,146 @@
+import OpenAI from 'openai';
+import { classifyProviderError, getProvider, ProviderError } from '../src/taskpane/services/providers';
+import { parseRetryAfter } from '../src/taskpane/services/providers/common';
+import { backoffDelay, describeRetry, RateLimiter, RetryNotice, withRetries } from '../src/taskpane/services/retry';
+
+// Run timers straight away, remembering how long each wait would have been
+let waits: number[] = [];
+
+beforeEach(() => {
+  waits = [];
+  jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms: number) => {
+    waits.push(ms);
+    callback();
+    return 0;
+  }) as any);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const toError = (error: unknown) => error instanceof ProviderError ? error : new ProviderError("Test", String(error));
+
+describe("classifyProviderError", () => {
+  it("tells retryable failures from auth and quota problems", () => {
+    expect(classifyProviderError("Rate limit reached", 429)).toBe('retryable');
+    expect(classifyProviderError("Overloaded", 529)).toBe('retryable');
+    expect(classifyProviderError("Bad gateway", 502)).toBe('retryable');
+    expect(classifyProviderError("Failed to fetch")).toBe('retryable');
+    expect(classifyProviderError("Incorrect API key provided", 401)).toBe('auth');
+    expect(classifyProviderError("You exceeded your current quota", 429, undefined, "insufficient_quota")).toBe('quota');
+    expect(classifyProviderError('(429): {"error":{"code":"insufficient_quota"}}', 429)).toBe('quota');
+    expect(classifyProviderError("Your credit balance is too low", 400)).toBe('quota');
+    expect(classifyProviderError("Invalid schema", 400)).toBe('other');
+  });
+
+  it("retries Gemini's per-minute rate limit even though it mentions the quota", () => {
+    const message = '[GoogleGenerativeAI Error]: got status: 429 Too Many Requests. {"error":{"code":429,' +
+      '"message":"You exceeded your current quota, please check your plan and billing details.","status":"RESOURCE_EXHAUSTED",' +
+      '"details":[{"retryDelay":"27s"}]}}';
+    const error = getProvider('gemini').normalizeError(new Error(message));
+
+    expect(error).toMatchObject({ statusCode: 429, retryAfterMs: 27000, kind: 'retryable' });
+    expect(classifyProviderError(message, 429)).toBe('retryable');
+  });
+
+  it("reads the status, Retry-After header and error code from OpenAI's errors", () => {
+    const openai = getProvider('openai');
+    const rateLimited = OpenAI.APIError.generate(429, { error: { message: "Rate limit reached", code: "rate_limit_exceeded" } }, undefined, { 'retry-after': "3" });
+    const outOfQuota = OpenAI.APIError.generate(429, { error: { message: "You exceeded your current quota", code: "insufficient_quota" } }, undefined, {});
+
+    expect(openai.normalizeError(rateLimited)).toMatchObject({ statusCode: 429, retryAfterMs: 3000, kind: 'retryable' });
+    expect(openai.normalizeError(outOfQuota)).toMatchObject({ statusCode: 429, kind: 'quota' });
+    expect(openai.normalizeError(new Error("Failed to fetch"))).toMatchObject({ statusCode: undefined, kind: 'retryable' });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds or an HTTP date", () => {
+    expect(parseRetryAfter("7")).toBe(7000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles up to the maximum, with jitter in the top half", () => {
+    expect(backoffDelay(1, undefined, 1000, 30000, () => 0)).toBe(500);
+    expect(backoffDelay(1, undefined, 1000, 30000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, undefined, 1000, 30000, () => 1)).toBe(4000);
+    expect(backoffDelay(10, undefined, 1000, 30000, () => 1)).toBe(30000);
+  });
+
+  it("waits as long as the provider asked", () => {
+    expect(backoffDelay(1, 12000)).toBe(12000);
+  });
+});
+
+describe("withRetries", () => {
+  it("retries retryable errors, reporting each retry", async () => {
+    const notices: RetryNotice[] = [];
+    const send = jest.fn()
+      .mockRejectedValueOnce(new ProviderError("Test", "(429): slow down", 429, 3000))
+      .mockRejectedValueOnce(new ProviderError("Test", "(503): unavailable", 503))
+      .mockResolvedValue("done");
+
+    const result = await withRetries(send, toError, { maxAttempts: 4, onRetry: notice => notices.push(notice) });
+
+    expect(result).toBe("done");
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(notices.map(n => [n.attempt, n.reason])).toEqual([[1, "(429): slow down"], [2, "(503): unavailable"]]);
+    expect(waits[0]).toBe(3000);
+    expect(describeRetry(notices[0])).toBe("Test: (429): slow down. Retrying in 3s (attempt 2 of 4)");
+  });
+
+  it("gives up after the last attempt, saying how many were made", async () => {
+    const send = jest.fn().mockRejectedValue(new ProviderError("Test", "overloaded", 529));
+
+    await expect(withRetries(send, toError, { maxAttempts: 3 })).rejects.toMatchObject({ kind: 'retryable', attempts: 3 });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry auth or quota problems, or waits longer than a couple of minutes", async () => {
+    const auth = jest.fn().mockRejectedValue(new ProviderError("Test", "bad key", 401));
+    await expect(withRetries(auth, toError, { maxAttempts: 3 })).rejects.toMatchObject({ kind: 'auth', attempts: 1 });
+
+    const daily = jest.fn().mockRejectedValue(new ProviderError("Test", "rate limited", 429, 3600000));
+    await expect(withRetries(daily, toError, { maxAttempts: 3 })).rejects.toMatchObject({ attempts: 1 });
+    expect(waits).toEqual([]);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("waits once the requests in the last minute reach the budget", async () => {
+    let now = 0;
+    const limiter = new RateLimiter(2, 0, () => now);
+
+    await limiter.acquire(100);
+    now = 1000;
+    await limiter.acquire(100);
+    expect(limiter.waitTime(100)).toEqual({ delayMs: 59000, budget: "per-minute request budget" });
+    now = 60000;
+    expect(limiter.waitTime(100).delayMs).toBe(0);
+  });
+
+  it("waits for enough of the token budget, but lets a single oversized request through", async () => {
+    let now = 0;
+    const limiter = new RateLimiter(0, 1000, () => now);
+
+    expect(limiter.waitTime(5000).delayMs).toBe(0);
+    await limiter.acquire(600);
+    now = 10000;
+    await limiter.acquire(300);
+    expect(limiter.waitTime(200)).toEqual({ delayMs: 50000, budget: "per-minute token budget" });
+    expect(limiter.waitTime(100).delayMs).toBe(0);
+  });
+
+  it("has no limits when the budgets are 0", async () => {
+    const limiter = new RateLimiter(0, 0);
+    for (let n = 0; n < 100; n++) {
+      await limiter.acquire(100000);
+    }
+    expect(limiter.waitTime(100000).delayMs).toBe(0);
+  });
+});
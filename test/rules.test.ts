@@ -0,0 +1,91 @@
+import { describeRule, findMatchingRule, parseRules } from '../src/taskpane/services/rules';
+
+const HEADERS = ["Match Type", "Pattern", "Institution", "Min Amount", "Max Amount", "Category", "Description"];
+
+function rules(...rows: any[][]) {
+  return parseRules(HEADERS, rows).rules;
+}
+
+describe("parseRules", () => {
+  it("reads each usable row, defaulting to a contains match", () => {
+    const { rules: parsed, warnings } = parseRules(HEADERS, [
+      ["", "whole foods", "", "", "", "Groceries", "Whole Foods"],
+      ["Regex", "^UBER\\b", "Big Bank", "-100", "", "Transport", ""],
+    ]);
+
+    expect(warnings).toEqual([]);
+    expect(parsed).toEqual([
+      { matchType: 'contains', pattern: "whole foods", institution: undefined, minAmount: undefined, maxAmount: undefined,
+        category: "Groceries", description: "Whole Foods", ruleNumber: 1 },
+      { matchType: 'regex', pattern: "^UBER\\b", institution: "Big Bank", minAmount: -100, maxAmount: undefined,
+        category: "Transport", description: undefined, ruleNumber: 2 },
+    ]);
+  });
+
+  it("skips blank rows and warns about unknown match types and invalid regular expressions", () => {
+    const { rules: parsed, warnings } = parseRules(HEADERS, [
+      ["", "", "", "", "", "", ""],
+      ["fuzzy", "shell", "", "", "", "Fuel", ""],
+      ["regex", "(", "", "", "", "Fuel", ""],
+      ["exact", "SHELL", "", "", "", "Fuel", ""],
+    ]);
+
+    expect(parsed.map(r => r.ruleNumber)).toEqual([4]);
+    expect(warnings).toEqual(['Rule 2: unknown match type "fuzzy"', 'Rule 3: invalid regular expression "("']);
+  });
+
+  it("needs Pattern and Category columns", () => {
+    expect(parseRules(["Pattern"], [["shell"]])).toEqual({
+      rules: [],
+      warnings: ['Rules table needs "Pattern" and "Category" columns']
+    });
+  });
+});
+
+describe("findMatchingRule", () => {
+  it("uses the first matching rule in table order", () => {
+    const table = rules(
+      ["contains", "amazon prime", "", "", "", "Subscriptions", ""],
+      ["contains", "amazon", "", "", "", "Shopping", ""],
+    );
+
+    expect(findMatchingRule({ original_description: "AMAZON PRIME*1A2B3" }, table)?.category).toBe("Subscriptions");
+    expect(findMatchingRule({ original_description: "AMAZON MKTPLACE" }, table)?.category).toBe("Shopping");
+  });
+
+  it("falls through to a later rule when an earlier one's institution or amounts don't match", () => {
+    const table = rules(
+      ["contains", "transfer", "Credit Union", "", "", "Savings", ""],
+      ["contains", "transfer", "", "0", "", "Income", ""],
+      ["contains", "transfer", "", "", "", "Transfer", ""],
+    );
+
+    expect(findMatchingRule({ original_description: "ONLINE TRANSFER", institution: " credit union ", amount: -50 }, table)?.category).toBe("Savings");
+    expect(findMatchingRule({ original_description: "ONLINE TRANSFER", institution: "Big Bank", amount: 50 }, table)?.category).toBe("Income");
+    expect(findMatchingRule({ original_description: "ONLINE TRANSFER", institution: "Big Bank", amount: -50 }, table)?.category).toBe("Transfer");
+  });
+
+  it("doesn't match amount limits when the transaction has no amount", () => {
+    const table = rules(["contains", "shell", "", "", "100", "Fuel", ""]);
+
+    expect(findMatchingRule({ original_description: "SHELL OIL" }, table)).toBeUndefined();
+    expect(findMatchingRule({ original_description: "SHELL OIL", amount: 40 }, table)?.category).toBe("Fuel");
+  });
+
+  it("matches exact patterns ignoring case and surrounding spaces, and regular expressions ignoring case", () => {
+    const table = rules(
+      ["exact", " Netflix ", "", "", "", "Streaming", ""],
+      ["regex", "^spotify\\b", "", "", "", "Music", ""],
+    );
+
+    expect(findMatchingRule({ original_description: "NETFLIX" }, table)?.category).toBe("Streaming");
+    expect(findMatchingRule({ original_description: "NETFLIX.COM" }, table)).toBeUndefined();
+    expect(findMatchingRule({ original_description: "SPOTIFY USA" }, table)?.category).toBe("Music");
+    expect(findMatchingRule({ original_description: "PAY SPOTIFY" }, table)).toBeUndefined();
+  });
+
+  it("describes a rule by its row and pattern", () => {
+    expect(describeRule(rules(["", "", "", "", "", "", ""], ["exact", "Netflix", "", "", "", "Streaming", ""])[0]))
+      .toBe('Rule 2: exact "Netflix"');
+  });
+});
@@ -0,0 +1,117 @@
+import { CADENCES, describePriceChanges, findRecurringCharges, nextChargeDay } from '../src/taskpane/services/subscriptions';
+import { toDayNumber } from '../src/taskpane/services/transferDetection';
+
+let nextId = 1;
+function tx(original_description: string, amount: number, date: string, category?: string) {
+  return { transaction_id: `t-${nextId++}`, original_description, amount, date, category };
+}
+
+const day = (date: string) => toDayNumber(date)!;
+const MONTHLY = CADENCES.find(c => c.name === "Monthly")!;
+
+describe("findRecurringCharges", () => {
+  it("finds a monthly charge with its price change and next expected date", () => {
+    const transactions = [
+      tx("NETFLIX.COM 866-579-7172 CA", -15.49, "2025-01-15", "Entertainment"),
+      tx("NETFLIX.COM 866-579-7172 CA", -15.49, "2025-02-14", "Entertainment"),
+      tx("NETFLIX.COM 866-579-7172 CA", -17.99, "2025-03-15", "Entertainment"),
+      tx("NETFLIX.COM 866-579-7172 CA", -17.99, "2025-04-15"),
+    ];
+
+    const [charge, ...rest] = findRecurringCharges(transactions, day("2025-05-01"));
+
+    expect(rest).toEqual([]);
+    expect(charge).toMatchObject({
+      merchant: "NETFLIX.COM 866-579-7172 CA",
+      category: "Entertainment",
+      typicalAmount: 16.74,
+      lastAmount: 17.99,
+      yearlyCost: 215.88,
+      chargeCount: 4,
+      lastDate: day("2025-04-15"),
+      nextDate: day("2025-05-15"),
+      lapsed: false,
+      priceChanges: [{ date: day("2025-03-15"), from: 15.49, to: 17.99 }]
+    });
+    expect(charge.cadence.name).toBe("Monthly");
+  });
+
+  it("matches the counterparty behind payment-method words and names it by the latest cleaned-up description", () => {
+    const transactions = [
+      { ...tx("ZELLE PAYMENT TO ALICE BOBSON 123", -800, "2025-01-01"), description: "Rent" },
+      tx("Zelle to Alice Bobson", -800, "2025-02-01"),
+      { ...tx("ALICE BOBSON ONLINE TRANSFER", -800, "2025-03-01"), description: "Rent - Alice" },
+    ];
+
+    const charges = findRecurringCharges(transactions, day("2025-03-10"));
+
+    expect(charges).toHaveLength(1);
+    expect(charges[0].merchant).toBe("Rent - Alice");
+  });
+
+  it("keeps two plans from the same merchant apart", () => {
+    const transactions = ["2025-01-03", "2025-02-03", "2025-03-03"].flatMap(date => [
+      tx("APPLE.COM/BILL", -2.99, date),
+      tx("APPLE.COM/BILL", -10.99, date),
+    ]);
+
+    const charges = findRecurringCharges(transactions, day("2025-03-10"));
+
+    expect(charges.map(c => c.lastAmount)).toEqual([10.99, 2.99]);
+  });
+
+  it("ignores irregular spending, income and charges seen too few times", () => {
+    const transactions = [
+      tx("SAFEWAY 1234", -54.2, "2025-01-02"),
+      tx("SAFEWAY 1234", -61.8, "2025-01-09"),
+      tx("SAFEWAY 1234", -48.1, "2025-01-25"),
+      tx("SAFEWAY 1234", -57, "2025-02-20"),
+      tx("ACME PAYROLL", 2500, "2025-01-15"),
+      tx("ACME PAYROLL", 2500, "2025-02-15"),
+      tx("ACME PAYROLL", 2500, "2025-03-15"),
+      tx("GYM CLUB", -30, "2025-02-01"),
+      tx("GYM CLUB", -30, "2025-03-01"),
+    ];
+
+    expect(findRecurringCharges(transactions, day("2025-03-10"))).toEqual([]);
+  });
+
+  it("marks charges that stopped as possibly cancelled and lists them last", () => {
+    const transactions = [
+      tx("HULU 877-824-4858", -7.99, "2024-10-05"),
+      tx("HULU 877-824-4858", -7.99, "2024-11-05"),
+      tx("HULU 877-824-4858", -7.99, "2024-12-05"),
+      tx("SPOTIFY USA", -11.99, "2025-03-20"),
+      tx("SPOTIFY USA", -11.99, "2025-04-20"),
+      tx("SPOTIFY USA", -11.99, "2025-05-20"),
+      tx("AMAZON PRIME MEMBERSHIP", -139, "2024-02-10"),
+      tx("AMAZON PRIME MEMBERSHIP", -139, "2025-02-10"),
+    ];
+
+    const charges = findRecurringCharges(transactions, day("2025-06-01"));
+
+    expect(charges.map(c => [c.merchant, c.cadence.name, c.lapsed])).toEqual([
+      ["SPOTIFY USA", "Monthly", false],
+      ["AMAZON PRIME MEMBERSHIP", "Annual", false],
+      ["HULU 877-824-4858", "Monthly", true],
+    ]);
+  });
+});
+
+describe("nextChargeDay", () => {
+  it("follows the calendar for monthly charges, ending short months on their last day", () => {
+    expect(nextChargeDay(day("2025-01-31"), MONTHLY)).toBe(day("2025-02-28"));
+    expect(nextChargeDay(day("2025-12-15"), MONTHLY)).toBe(day("2026-01-15"));
+  });
+
+  it("adds whole weeks for weekly charges", () => {
+    expect(nextChargeDay(day("2025-01-31"), CADENCES[0])).toBe(day("2025-02-07"));
+  });
+});
+
+describe("describePriceChanges", () => {
+  it("lists each change with the date it took effect", () => {
+    expect(describePriceChanges([{ date: day("2025-03-15"), from: 15.49, to: 17.99 }])).toBe("2025-03-15: 15.49 to 17.99");
+    expect(describePriceChanges([])).toBe("");
+  });
+});
@@ -0,0 +1,126 @@
+import { FakeContext } from './mocks/fakeExcel';
+import { CellWrites, MAX_CELLS_PER_SYNC, readColumns, visibleRows } from '../src/taskpane/services/tableAccess';
+
+function fakeTable(rows: any[][], hiddenRows: number[] = []): { context: FakeContext; range: Excel.Range } {
+  const context = new FakeContext({ Data: { headers: ["A", "B", "C"], rows, hiddenRows } });
+  const range = context.asExcel().workbook.tables.getItem("Data").getDataBodyRange();
+  return { context, range };
+}
+
+describe("readColumns", () => {
+  it("reads only the columns asked for, leaving the others empty", async () => {
+    const { context, range } = fakeTable([[1, "x", true], [2, "y", false]]);
+
+    const rows = await readColumns(context.asExcel(), range, 2, 3, [2, 0, -1, 0]);
+
+    expect(rows).toEqual([[1, "", true], [2, "", false]]);
+    expect(context.syncCount).toBe(1);
+  });
+
+  it("doesn't read anything from an empty table", async () => {
+    const { context, range } = fakeTable([]);
+
+    expect(await readColumns(context.asExcel(), range, 0, 3, [0, 1])).toEqual([]);
+    expect(context.syncCount).toBe(0);
+  });
+
+  it("splits reads bigger than the request size limit over several syncs", async () => {
+    const rowCount = MAX_CELLS_PER_SYNC + 10;
+    const { context, range } = fakeTable(Array.from({ length: rowCount }, (_r, n) => [n, n * 2, ""]));
+
+    const rows = await readColumns(context.asExcel(), range, rowCount, 3, [0, 1]);
+
+    expect(context.syncCount).toBe(3);
+    expect(rows[rowCount - 1]).toEqual([rowCount - 1, (rowCount - 1) * 2, ""]);
+    expect(rows.every((row, n) => row[0] === n && row[1] === n * 2)).toBe(true);
+  });
+});
+
+describe("visibleRows", () => {
+  it("marks the rows hidden by a filter", async () => {
+    const { context, range } = fakeTable([[1], [2], [3], [4]].map(([n]) => [n, "", ""]), [1, 3]);
+
+    // The fake table's data body starts on the second row of its sheet
+    expect(await visibleRows(context.asExcel(), range, 4, 1)).toEqual([true, false, true, false]);
+    expect(context.rangesCreated).toBe(1);
+  });
+});
+
+describe("CellWrites", () => {
+  it("groups updates into blocks of consecutive rows in each column", () => {
+    const writes = new CellWrites();
+    writes.set(3, 1, "d");
+    writes.set(0, 1, "a");
+    writes.set(1, 1, "b");
+    writes.set(0, 0, 10);
+    writes.set(1, 1, "B");
+
+    expect(writes.size).toBe(4);
+    expect(writes.blocks()).toEqual([
+      { row: 0, column: 0, values: [[10]] },
+      { row: 0, column: 1, values: [["a"], ["B"]] },
+      { row: 3, column: 1, values: [["d"]] },
+    ]);
+  });
+
+  it("writes each block as one range", async () => {
+    const { context, range } = fakeTable([[1, "x", ""], [2, "y", ""], [3, "z", ""]]);
+    const writes = new CellWrites();
+    [0, 1, 2].forEach(row => writes.set(row, 2, `row ${row}`));
+    writes.set(2, 0, 30);
+
+    await writes.write(context.asExcel(), range);
+
+    expect(context.table("Data").rows).toEqual([[1, "x", "row 0"], [2, "y", "row 1"], [30, "z", "row 2"]]);
+    expect(context.rangesCreated).toBe(4);
+    expect(context.syncCount).toBe(1);
+  });
+
+  it("splits writes bigger than the request size limit over several syncs, with the fills in the last", async () => {
+    const rowCount = MAX_CELLS_PER_SYNC + 10;
+    const { context, range } = fakeTable(Array.from({ length: rowCount }, () => ["", "", ""]));
+    const writes = new CellWrites();
+    for (let row = 0; row < rowCount; row++) {
+      writes.set(row, 0, row);
+    }
+    writes.set(0, 2, "first");
+    writes.fill(0, 1, "#FFF2CC");
+
+    await writes.write(context.asExcel(), range);
+
+    const table = context.table("Data");
+    expect(context.syncCount).toBe(2);
+    expect(table.rows.every((row, n) => row[0] === n)).toBe(true);
+    expect(table.rows[0][2]).toBe("first");
+    expect(table.fills.get("0,1")).toBe("#FFF2CC");
+  });
+
+  it("groups fills into blocks of consecutive rows given the same colour", () => {
+    const writes = new CellWrites();
+    [0, 1, 2].forEach(row => writes.fill(row, 2, "#FFF2CC"));
+    writes.fill(3, 2, null);
+    writes.fill(4, 2, null);
+    writes.fill(6, 2, "#FFF2CC");
+
+    expect(writes.size).toBe(0);
+    expect(writes.fillBlocks()).toEqual([
+      { row: 0, column: 2, rowCount: 3, color: "#FFF2CC" },
+      { row: 3, column: 2, rowCount: 2, color: null },
+      { row: 6, column: 2, rowCount: 1, color: "#FFF2CC" },
+    ]);
+  });
+
+  it("sets or clears each block of fills at once", async () => {
+    const { context, range } = fakeTable([[1, "", ""], [2, "", ""], [3, "", ""], [4, "", ""]]);
+    context.table("Data").fills.set("3,1", "#FF0000");
+    const writes = new CellWrites();
+    [0, 1, 2].forEach(row => writes.fill(row, 1, "#FFF2CC"));
+    writes.fill(3, 1, null);
+
+    await writes.write(context.asExcel(), range);
+
+    expect([...context.table("Data").fills.keys()].sort()).toEqual(["0,1", "1,1", "2,1"]);
+    expect(context.formatCount).toBe(2);
+    expect(context.syncCount).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  estimateCost,
+  estimateJsonTokens,
+  estimateOutputTokens,
+  estimateTokens,
+  fitToTokenBudget,
+  getModelLimits,
+  inputTokenBudget
+} from '../src/taskpane/services/tokenEstimation';
+
+describe("token estimates", () => {
+  it("rounds up, so estimates err on the high side", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abc")).toBe(1);
+    expect(estimateTokens("abcdefg")).toBe(2);
+    expect(estimateTokens("abcdefgh")).toBe(3);
+    expect(estimateJsonTokens({ a: 1 })).toBe(estimateTokens('{"a":1}'));
+  });
+
+  it("allows a fixed overhead plus a little per transaction for the response", () => {
+    expect(estimateOutputTokens(0)).toBe(20);
+    expect(estimateOutputTokens(10)).toBe(920);
+  });
+
+  it("leaves enough room for real suggestions, reason and all", () => {
+    const suggestion = {
+      transaction_id: "2025-04-01-WF-00123",
+      updated_description: "Whole Foods Market",
+      category: "Groceries",
+      matched_transaction_id: "2025-03-02-WF-00098",
+      confidence: 0.92,
+      reason: "Same merchant as a reference transaction categorized as Groceries",
+    };
+    const response = JSON.stringify({ suggested_transactions: Array(10).fill(suggestion) }, null, 2);
+
+    expect(estimateOutputTokens(10)).toBeGreaterThanOrEqual(estimateTokens(response));
+  });
+});
+
+describe("getModelLimits", () => {
+  it("uses the longest matching prefix, ignoring case", () => {
+    expect(getModelLimits("GPT-4.1-mini-2025-04-14").inputCostPerMillion).toBe(0.4);
+    expect(getModelLimits("gpt-4.1-2025-04-14").inputCostPerMillion).toBe(2);
+  });
+
+  it("falls back to small limits with no prices for unknown models, and takes an overridden context window", () => {
+    expect(getModelLimits("llama3")).toEqual({ contextWindow: 32768, maxOutputTokens: 4096 });
+    expect(getModelLimits("llama3", 8192).contextWindow).toBe(8192);
+    expect(getModelLimits("gpt-4o", 8192)).toMatchObject({ contextWindow: 8192, maxOutputTokens: 16384 });
+  });
+});
+
+describe("inputTokenBudget", () => {
+  it("leaves room for the response and a safety margin", () => {
+    expect(inputTokenBudget({ contextWindow: 10000, maxOutputTokens: 1000 }, 1000)).toBe(8000);
+  });
+});
+
+describe("fitToTokenBudget", () => {
+  // Each of these is 7 characters of JSON, so 2 tokens, plus 1 for the comma
+  const items = [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }];
+
+  it("keeps items from the front of the list while they fit", () => {
+    expect(fitToTokenBudget(items, 9)).toEqual({ items: [{ n: 1 }, { n: 2 }, { n: 3 }], tokens: 9 });
+    expect(fitToTokenBudget(items, 8)).toEqual({ items: [{ n: 1 }, { n: 2 }], tokens: 6 });
+  });
+
+  it("stops at the first item that doesn't fit rather than skipping ahead to smaller ones", () => {
+    const mixed = [{ n: 1 }, { text: "a long description that won't fit" }, { n: 3 }];
+
+    expect(fitToTokenBudget(mixed, 10).items).toEqual([{ n: 1 }]);
+  });
+
+  it("keeps everything when the budget allows and nothing when it's used up", () => {
+    expect(fitToTokenBudget(items, 1000).items).toHaveLength(4);
+    expect(fitToTokenBudget(items, 0)).toEqual({ items: [], tokens: 0 });
+    expect(fitToTokenBudget(items, -5)).toEqual({ items: [], tokens: 0 });
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices input and output tokens per million, or gives null when the prices aren't known", () => {
+    expect(estimateCost(getModelLimits("gpt-4o"), 1000000, 100000)).toBeCloseTo(3.5);
+    expect(estimateCost(getModelLimits("llama3"), 1000000, 100000)).toBeNull();
+  });
+});
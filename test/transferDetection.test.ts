@@ -0,0 +1,48 @@
+import { findTransferPairs, toDayNumber } from '../src/taskpane/services/transferDetection';
+
+function tx(transaction_id: string, amount: number, date: any, institution?: string) {
+  return { transaction_id, amount, date, institution };
+}
+
+describe("toDayNumber", () => {
+  it("uses Excel date serials as they are and parses text dates", () => {
+    expect(toDayNumber(45748.75)).toBe(45748);
+    expect(toDayNumber("2025-04-01")).toBe(45748);
+  });
+
+  it("returns null for anything that isn't a date", () => {
+    expect(toDayNumber("")).toBeNull();
+    expect(toDayNumber("not a date")).toBeNull();
+    expect(toDayNumber(undefined)).toBeNull();
+  });
+});
+
+describe("findTransferPairs", () => {
+  it("pairs opposite amounts at different institutions within the date window", () => {
+    const out = tx("a", -100, "2025-04-01", "Checking");
+    const inc = tx("b", 100, "2025-04-03", "Card");
+
+    expect(findTransferPairs([out, inc], 3)).toEqual([{ outgoing: out, incoming: inc }]);
+  });
+
+  it("doesn't pair amounts that differ, dates too far apart, or the same institution", () => {
+    expect(findTransferPairs([tx("a", -100, "2025-04-01", "Checking"), tx("b", 100.01, "2025-04-01", "Card")], 3)).toEqual([]);
+    expect(findTransferPairs([tx("a", -100, "2025-04-01", "Checking"), tx("b", 100, "2025-04-10", "Card")], 3)).toEqual([]);
+    expect(findTransferPairs([tx("a", -100, "2025-04-01", "Card"), tx("b", 100, "2025-04-01", " card ")], 3)).toEqual([]);
+  });
+
+  it("allows the pair when an institution isn't known, but never without a date", () => {
+    expect(findTransferPairs([tx("a", -100, "2025-04-01"), tx("b", 100, "2025-04-01", "Card")], 3)).toHaveLength(1);
+    expect(findTransferPairs([tx("a", -100, undefined, "Checking"), tx("b", 100, "2025-04-01", "Card")], 3)).toEqual([]);
+  });
+
+  it("uses each transaction once, pairing the closest dates first", () => {
+    const out = tx("a", -50, "2025-04-05", "Checking");
+    const far = tx("b", 50, "2025-04-02", "Card");
+    const near = tx("c", 50, "2025-04-04", "Card");
+
+    const pairs = findTransferPairs([out, far, near], 3);
+
+    expect(pairs).toEqual([{ outgoing: out, incoming: near }]);
+  });
+});
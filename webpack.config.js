@@ -2,6 +2,7 @@
 
 const devCerts = require("office-addin-dev-certs");
 const CopyWebpackPlugin = require("copy-webpack-plugin");
+const CustomFunctionsMetadataPlugin = require("custom-functions-metadata-plugin");
 const HtmlWebpackPlugin = require("html-webpack-plugin");
 const Dotenv = require('dotenv-webpack');
 const webpack = require("webpack");
@@ -28,10 +29,17 @@ module.exports = async (env, options) => {
         dependOn: "react",
       },
       commands: "./src/commands/commands.ts",
+      functions: "./src/functions/functions.ts",
+      resultDialog: "./src/commands/resultDialog.ts",
     },
     output: {
       clean: true,
     },
+    optimization: {
+      // One webpack runtime for every entry, so the task pane, ribbon commands and custom functions share a
+      // single copy of each module (and its state, such as the last run to undo) in the shared runtime
+      runtimeChunk: "single",
+    },
     resolve: {
       extensions: [".ts", ".tsx", ".html", ".js"],
       fallback: {
@@ -73,11 +81,16 @@ module.exports = async (env, options) => {
       ],
     },
     plugins: [
-      new Dotenv(['GOOGLE_API_KEY', 'OPENAI_API_KEY']),
+      new Dotenv(['GOOGLE_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY']),
       new HtmlWebpackPlugin({
         filename: "taskpane.html",
         template: "./src/taskpane/taskpane.html",
-        chunks: ["polyfill", "taskpane", "react"],
+        // The ribbon commands and custom functions share the task pane's runtime
+        chunks: ["runtime", "polyfill", "taskpane", "react", "commands", "functions"],
+      }),
+      new CustomFunctionsMetadataPlugin({
+        input: "./src/functions/functions.ts",
+        output: "functions.json",
       }),
       new CopyWebpackPlugin({
         patterns: [
@@ -99,9 +112,9 @@ module.exports = async (env, options) => {
         ],
       }),
       new HtmlWebpackPlugin({
-        filename: "commands.html",
-        template: "./src/commands/commands.html",
-        chunks: ["polyfill", "commands"],
+        filename: "resultDialog.html",
+        template: "./src/commands/resultDialog.html",
+        chunks: ["runtime", "polyfill", "resultDialog"],
       }),
       new webpack.ProvidePlugin({
         Promise: ["es6-promise", "Promise"],